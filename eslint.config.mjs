@@ -48,7 +48,7 @@ const defaultConfig = {
 };
 
 export default defineConfig([
-	globalIgnores(['**/.eslintrc.js', 'dist']),
+	globalIgnores(['**/.eslintrc.js', 'dist', '**/*.spec-fixture.ts']),
 	defaultConfig,
 	{
 		...defaultConfig,
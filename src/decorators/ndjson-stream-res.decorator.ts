@@ -0,0 +1,14 @@
+import { applyDecorators, UseInterceptors } from '@nestjs/common';
+
+import { NdJsonStreamInterceptor } from '../interceptors/ndjson-stream.interceptor';
+
+/**
+ * Method decorator that streams a handler's result back as NDJSON.
+ * Return an `AsyncIterable<T>` or `Observable<T>` from the handler; each item
+ * becomes one line of an `application/x-ndjson` response.
+ *
+ * @returns A method decorator applying `NdJsonStreamInterceptor`
+ */
+export function NdJsonStreamRes(): MethodDecorator & ClassDecorator {
+	return applyDecorators(UseInterceptors(NdJsonStreamInterceptor));
+}
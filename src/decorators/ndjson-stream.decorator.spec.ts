@@ -1,7 +1,20 @@
-import { BadRequestException, ExecutionContext } from '@nestjs/common';
-import { NdJsonStreamReq, NdJsonStreamOptions } from './ndjson-stream.decorator';
+import {
+  BadRequestException,
+  ExecutionContext,
+  InternalServerErrorException,
+  PipeTransform,
+  UnsupportedMediaTypeException,
+} from '@nestjs/common';
+import { IsInt, IsString } from 'class-validator';
+import { EventEmitter } from 'events';
+import { PassThrough } from 'stream';
+import { NdJsonStreamModuleOptions, NdJsonStreamReq, NdJsonStreamOptions } from './ndjson-stream.decorator';
+import { NdJsonUnsupportedMediaTypeError } from '../errors/ndjson-stream.errors';
+import { NDJSON_STREAM_DEFAULT_BATCH_SIZE } from '../ndjson-stream.constants';
+import { InMemoryNdJsonCheckpointStore } from '../services/ndjson-checkpoint-store.service';
 import { NdJsonStreamParser } from '../services/ndjson-stream-parser.service';
-import { NdJsonStreamRequest } from '../types/ndjson-stream';
+import { NdJsonMessageRequest, NdJsonStreamRequest } from '../types/ndjson-stream';
+import { runWithNdJsonStreamDefaults } from '../utils/module-defaults';
 
 // Mock Express Request type
 interface MockRequest {
@@ -10,6 +23,7 @@ interface MockRequest {
   url?: string;
   method?: string;
   query?: any;
+  readableEnded?: boolean;
 }
 
 // Mock the @nestjs/common createParamDecorator to allow us to get the factory function
@@ -23,6 +37,7 @@ jest.mock('../services/ndjson-stream-parser.service');
 describe('NdJsonStreamReq Decorator', () => {
   let mockExecutionContext: ExecutionContext;
   let mockRequest: MockRequest;
+  let mockResponse: Record<string, any>;
   let mockAsyncGenerator: AsyncGenerator<any>;
 
   // Now we can access the factory function directly
@@ -42,10 +57,14 @@ describe('NdJsonStreamReq Decorator', () => {
       }
     };
 
+    mockResponse = new EventEmitter();
+
     // Setup mock ExecutionContext
     mockExecutionContext = {
+      getType: jest.fn().mockReturnValue('http'),
       switchToHttp: jest.fn().mockReturnValue({
-        getRequest: jest.fn().mockReturnValue(mockRequest)
+        getRequest: jest.fn().mockReturnValue(mockRequest),
+        getResponse: jest.fn().mockReturnValue(mockResponse)
       })
     } as unknown as ExecutionContext;
 
@@ -62,12 +81,12 @@ describe('NdJsonStreamReq Decorator', () => {
       expect(typeof decoratorFactory).toBe('function');
     });
 
-    it('should transform request with default batch size', () => {
+    it('should transform request with default batch size', async () => {
       const result = decoratorFactory(undefined, mockExecutionContext) as NdJsonStreamRequest;
 
-      expect(result.body).toBe(mockAsyncGenerator);
+      await expect(result.body.next()).resolves.toEqual({ done: false, value: { id: 1 } });
       expect(result.batchSize).toBe(25);
-      expect(NdJsonStreamParser.parseStream).toHaveBeenCalledWith(mockRequest);
+      expect(NdJsonStreamParser.parseStream).toHaveBeenCalledWith(mockRequest, expect.any(Object));
     });
 
     it('should use custom batch size when provided', () => {
@@ -77,6 +96,15 @@ describe('NdJsonStreamReq Decorator', () => {
       expect(result.batchSize).toBe(50);
     });
 
+    it('should batch the body with the configured batch size', () => {
+      const options: NdJsonStreamOptions = { batchSize: 10 };
+      const result = decoratorFactory(options, mockExecutionContext) as NdJsonStreamRequest;
+
+      result.batches({ maxWaitMs: 100 });
+
+      expect(NdJsonStreamParser.batch).toHaveBeenCalledWith(result.body, 10, { maxWaitMs: 100 });
+    });
+
     it('should accept zero as valid batch size', () => {
       const options: NdJsonStreamOptions = { batchSize: 0 };
       const result = decoratorFactory(options, mockExecutionContext) as NdJsonStreamRequest;
@@ -104,27 +132,429 @@ describe('NdJsonStreamReq Decorator', () => {
       expect(() => decoratorFactory(undefined, mockExecutionContext)).not.toThrow();
     });
 
-    it('should throw BadRequestException for incorrect content type', () => {
+    it('should throw NdJsonUnsupportedMediaTypeError for incorrect content type', () => {
       mockRequest.headers['content-type'] = 'application/json';
 
-      expect(() => decoratorFactory(undefined, mockExecutionContext)).toThrow(BadRequestException);
+      expect(() => decoratorFactory(undefined, mockExecutionContext)).toThrow(NdJsonUnsupportedMediaTypeError);
       expect(() => decoratorFactory(undefined, mockExecutionContext)).toThrow(
         'Invalid content-type: application/json. Expected application/x-ndjson'
       );
     });
 
-    it('should throw BadRequestException for missing content type', () => {
+    it('should throw NdJsonUnsupportedMediaTypeError for missing content type', () => {
       mockRequest.headers['content-type'] = undefined;
 
+      expect(() => decoratorFactory(undefined, mockExecutionContext)).toThrow(NdJsonUnsupportedMediaTypeError);
       expect(() => decoratorFactory(undefined, mockExecutionContext)).toThrow(
-        "Cannot read properties of undefined (reading 'toLowerCase')"
+        'Invalid content-type: . Expected application/x-ndjson'
       );
     });
 
-    it('should throw BadRequestException for empty content type', () => {
+    it('should throw NdJsonUnsupportedMediaTypeError for empty content type', () => {
       mockRequest.headers['content-type'] = '';
 
-      expect(() => decoratorFactory(undefined, mockExecutionContext)).toThrow(BadRequestException);
+      expect(() => decoratorFactory(undefined, mockExecutionContext)).toThrow(NdJsonUnsupportedMediaTypeError);
+    });
+  });
+
+  describe('Accepted content types', () => {
+    it('should reject media types that merely contain application/x-ndjson', () => {
+      mockRequest.headers['content-type'] = 'application/x-ndjson-extended';
+
+      expect(() => decoratorFactory(undefined, mockExecutionContext)).toThrow(NdJsonUnsupportedMediaTypeError);
+    });
+
+    it('should accept only the configured content types', () => {
+      const options: NdJsonStreamOptions = { contentTypes: ['application/jsonl', 'application/x-jsonlines'] };
+
+      mockRequest.headers['content-type'] = 'Application/JSONL; charset=utf-8';
+      expect(() => decoratorFactory(options, mockExecutionContext)).not.toThrow();
+
+      mockRequest.headers['content-type'] = 'application/x-ndjson';
+      expect(() => decoratorFactory(options, mockExecutionContext)).toThrow(
+        'Invalid content-type: application/x-ndjson. Expected application/jsonl or application/x-jsonlines'
+      );
+    });
+  });
+
+  describe('Framing', () => {
+    const getParserOptions = () => (NdJsonStreamParser.parseStream as jest.Mock).mock.calls[0][1];
+
+    it('should use newline framing by default', () => {
+      decoratorFactory(undefined, mockExecutionContext);
+
+      expect(getParserOptions().framing).toBe('newline');
+    });
+
+    it.each(['application/json-seq', 'Application/Geo+JSON-Seq; charset=utf-8'])(
+      'should use json-seq framing for %s',
+      (contentType) => {
+        mockRequest.headers['content-type'] = contentType;
+
+        decoratorFactory({ contentTypes: ['application/json-seq', 'application/geo+json-seq'] }, mockExecutionContext);
+
+        expect(getParserOptions().framing).toBe('json-seq');
+      }
+    );
+
+    it('should use newline framing for JSON Lines', () => {
+      mockRequest.headers['content-type'] = 'application/jsonl';
+
+      decoratorFactory({ contentTypes: ['application/jsonl'] }, mockExecutionContext);
+
+      expect(getParserOptions().framing).toBe('newline');
+    });
+
+    it.each(['application/json', 'application/vnd.api+json; charset=utf-8'])(
+      'should use json-array framing with the arrayPath for %s',
+      (contentType) => {
+        mockRequest.headers['content-type'] = contentType;
+
+        decoratorFactory({ contentTypes: ['application/json', 'application/vnd.api+json'], arrayPath: '$.items' }, mockExecutionContext);
+
+        expect(getParserOptions()).toMatchObject({ framing: 'json-array', arrayPath: '$.items' });
+      }
+    );
+
+    it('should fail with a 500 when a body parser has already read the body', () => {
+      mockRequest.headers['content-type'] = 'application/json';
+      mockRequest.readableEnded = true;
+
+      expect(() => decoratorFactory({ contentTypes: ['application/json'] }, mockExecutionContext))
+        .toThrow(InternalServerErrorException);
+      expect(NdJsonStreamParser.parseStream).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Envelopes', () => {
+    const getParserOptions = () => (NdJsonStreamParser.parseStream as jest.Mock).mock.calls[0][1];
+
+    it('should not wrap items by default', () => {
+      decoratorFactory(undefined, mockExecutionContext);
+
+      expect(getParserOptions().envelope).toBeUndefined();
+    });
+
+    it('should pass the envelope option to the parser', () => {
+      decoratorFactory({ envelope: { raw: true } }, mockExecutionContext);
+
+      expect(getParserOptions().envelope).toEqual({ raw: true });
+    });
+  });
+
+  describe('Decoding', () => {
+    it('should pass the decoder to the parser', () => {
+      decoratorFactory({ decoder: { bigInt: 'string', protoPoisoning: 'error' } }, mockExecutionContext);
+
+      expect(NdJsonStreamParser.parseStream).toHaveBeenCalledWith(
+        mockRequest,
+        expect.objectContaining({ decoder: { bigInt: 'string', protoPoisoning: 'error' } })
+      );
+    });
+  });
+
+  describe('Integrity verification', () => {
+    const getParserOptions = () => (NdJsonStreamParser.parseStream as jest.Mock).mock.calls[0][1];
+
+    it('should ignore integrity headers unless verify is set', () => {
+      mockRequest.headers['ndjson-item-count'] = '2';
+
+      decoratorFactory(undefined, mockExecutionContext);
+
+      expect(getParserOptions().verify).toBeUndefined();
+    });
+
+    it('should verify the item count given in the headers', () => {
+      mockRequest.headers['ndjson-item-count'] = '2';
+
+      decoratorFactory({ verify: true }, mockExecutionContext);
+
+      expect(getParserOptions().verify).toEqual({ itemCount: 2 });
+    });
+
+    it('should reject a malformed integrity header before the handler runs', () => {
+      mockRequest.headers['ndjson-item-count'] = 'many';
+
+      expect(() => decoratorFactory({ verify: true }, mockExecutionContext)).toThrow(BadRequestException);
+      expect(NdJsonStreamParser.parseStream).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Peeking', () => {
+    it('should peek at items without consuming them', async () => {
+      const result = decoratorFactory(undefined, mockExecutionContext) as NdJsonStreamRequest;
+
+      await expect(result.peek(1)).resolves.toEqual([{ id: 1 }]);
+      expect(result.itemNumber).toBe(0);
+      await expect(result.body.next()).resolves.toEqual({ done: false, value: { id: 1 } });
+    });
+  });
+
+  describe('Header line', () => {
+    const getParserOptions = () => (NdJsonStreamParser.parseStream as jest.Mock).mock.calls[0][1];
+
+    it('should not read a header by default', () => {
+      decoratorFactory(undefined, mockExecutionContext);
+
+      expect(getParserOptions().onHeader).toBeUndefined();
+    });
+
+    it('should read the header before resolving the request', async () => {
+      jest.spyOn(NdJsonStreamParser, 'parseStream').mockImplementation((_stream, options) => (async function* () {
+        options?.onHeader?.({ version: 2 });
+        yield { id: 1 };
+      })());
+
+      const result = await decoratorFactory({ header: true }, mockExecutionContext) as NdJsonStreamRequest<{ id: number }, { version: number }>;
+
+      expect(result.header).toEqual({ version: 2 });
+      await expect(result.body.next()).resolves.toEqual({ done: false, value: { id: 1 } });
+    });
+
+    it('should validate the header with its own pipe', async () => {
+      const headerPipe: PipeTransform = { transform: jest.fn((value) => ({ ...value, checked: true })) };
+
+      await decoratorFactory({ header: { validation: headerPipe } }, mockExecutionContext);
+
+      expect(getParserOptions().validate).toBeUndefined();
+      expect(getParserOptions().validateHeader({ version: 2 })).toEqual({ version: 2, checked: true });
+    });
+
+    it('should stop reading the body when it is abandoned after the header', async () => {
+      const actual: typeof import('../services/ndjson-stream-parser.service') = jest.requireActual('../services/ndjson-stream-parser.service');
+      (NdJsonStreamParser.parseStream as jest.Mock).mockImplementation(actual.NdJsonStreamParser.parseStream);
+      const source = Object.assign(new PassThrough(), { headers: { 'content-type': 'application/x-ndjson' } });
+      (mockExecutionContext.switchToHttp().getRequest as jest.Mock).mockReturnValue(source);
+      (mockExecutionContext.switchToHttp().getResponse as jest.Mock).mockReturnValue(undefined);
+      source.write('{"version":2}\n{"id":1}\n');
+
+      const result = await decoratorFactory({ header: true }, mockExecutionContext) as NdJsonStreamRequest<{ id: number }, { version: number }>;
+      expect(result.header).toEqual({ version: 2 });
+      expect(source.readableFlowing).toBe(true);
+
+      await result.body.return(undefined);
+
+      expect(source.destroyed).toBe(true);
+    });
+
+    it('should stop reading the body once the response closes if the handler never read it', async () => {
+      const closed = jest.fn();
+      jest.spyOn(NdJsonStreamParser, 'parseStream').mockImplementation((_stream, options) => (async function* () {
+        try {
+          options?.onHeader?.({ version: 3 });
+          yield { id: 1 };
+        } finally {
+          closed();
+        }
+      })());
+
+      await decoratorFactory({ header: true }, mockExecutionContext);
+      mockResponse.emit('close');
+      await new Promise(setImmediate);
+
+      expect(closed).toHaveBeenCalled();
+    });
+
+    it('should fail the request when the header cannot be read', async () => {
+      const error = new BadRequestException('bad header');
+      jest.spyOn(NdJsonStreamParser, 'parseStream').mockImplementation(() => (async function* () {
+        throw error;
+      })());
+
+      await expect(decoratorFactory({ header: true }, mockExecutionContext)).rejects.toBe(error);
+    });
+  });
+
+  describe('Archiving', () => {
+    it('should open the archive sink for the request', () => {
+      const sink = new PassThrough();
+      const factory = jest.fn(() => sink);
+
+      decoratorFactory({ archive: { sink: factory, decompressed: true } }, mockExecutionContext);
+
+      const { archive } = (NdJsonStreamParser.parseStream as jest.Mock).mock.calls[0][1];
+      expect(archive.decompressed).toBe(true);
+      expect(factory).not.toHaveBeenCalled();
+      expect(archive.sink()).toBe(sink);
+      expect(factory).toHaveBeenCalledWith(mockRequest);
+    });
+  });
+
+  describe('Observability', () => {
+    it('should start with empty stats and switch to the live ones when parsing starts', () => {
+      const onStart = jest.fn();
+      const tracer = { startSpan: jest.fn() };
+
+      const result = decoratorFactory({ hooks: { onStart, progressItems: 10 }, tracing: tracer }, mockExecutionContext) as NdJsonStreamRequest;
+
+      expect(result.stats).toEqual({ bytesRead: 0, itemsYielded: 0, blankLines: 0, errors: 0, elapsedMs: 0 });
+      const { hooks, tracing } = (NdJsonStreamParser.parseStream as jest.Mock).mock.calls[0][1];
+      expect(tracing).toBe(tracer);
+      expect(hooks.progressItems).toBe(10);
+
+      const live = { bytesRead: 12, itemsYielded: 1, blankLines: 0, errors: 0, elapsedMs: 3 };
+      hooks.onStart(live);
+      expect(result.stats).toBe(live);
+      expect(onStart).toHaveBeenCalledWith(live);
+    });
+
+    it('should apply app-wide hooks', () => {
+      const onComplete = jest.fn();
+      runWithNdJsonStreamDefaults({ hooks: { onComplete }, tracing: true }, () => decoratorFactory(undefined, mockExecutionContext));
+
+      const { hooks, tracing } = (NdJsonStreamParser.parseStream as jest.Mock).mock.calls[0][1];
+      expect(hooks.onComplete).toBe(onComplete);
+      expect(tracing).toBe(true);
+    });
+  });
+
+  describe('Cancellation', () => {
+    it('should pass the timeouts and signal to the parser', () => {
+      const controller = new AbortController();
+
+      decoratorFactory({ idleTimeoutMs: 100, deadlineMs: 5000, signal: controller.signal }, mockExecutionContext);
+
+      expect((NdJsonStreamParser.parseStream as jest.Mock).mock.calls[0][1]).toMatchObject({
+        idleTimeoutMs: 100,
+        deadlineMs: 5000,
+        signal: controller.signal,
+      });
+    });
+  });
+
+  describe('Multipart uploads', () => {
+    const multipartType = 'multipart/form-data; boundary="----form1234"';
+
+    it('should reject multipart requests unless multipart is set', () => {
+      mockRequest.headers['content-type'] = multipartType;
+
+      expect(() => decoratorFactory(undefined, mockExecutionContext)).toThrow(NdJsonUnsupportedMediaTypeError);
+    });
+
+    it('should reject a multipart request without a boundary', () => {
+      mockRequest.headers['content-type'] = 'multipart/form-data';
+
+      expect(() => decoratorFactory({ multipart: { field: 'file' } }, mockExecutionContext))
+        .toThrow('Invalid multipart boundary');
+    });
+
+    it('should stream the named part and collect fields before the handler runs', async () => {
+      mockRequest.headers['content-type'] = multipartType;
+
+      const pending = decoratorFactory({ multipart: { field: 'file', maxParts: 5 } }, mockExecutionContext);
+      const options = (NdJsonStreamParser.parseStream as jest.Mock).mock.calls[0][1];
+      options.multipart.onField('source', 'browser');
+      const result = await pending as NdJsonStreamRequest;
+
+      expect(options).toMatchObject({
+        framing: 'newline',
+        multipart: { field: 'file', maxParts: 5, boundary: '----form1234' },
+      });
+      expect(result.fields).toEqual({ source: 'browser' });
+    });
+
+    it('should still accept the configured content types', () => {
+      const result = decoratorFactory({ multipart: { field: 'file' } }, mockExecutionContext) as NdJsonStreamRequest;
+
+      expect(result.fields).toBeUndefined();
+      expect((NdJsonStreamParser.parseStream as jest.Mock).mock.calls[0][1].multipart).toBeUndefined();
+    });
+  });
+
+  describe('Module defaults', () => {
+    const getParserOptions = () => (NdJsonStreamParser.parseStream as jest.Mock).mock.calls[0][1];
+
+    it('should apply the app-wide defaults', () => {
+      mockRequest.headers['content-type'] = 'application/jsonl';
+
+      const result = runWithNdJsonStreamDefaults(
+        { batchSize: 10, maxItems: 100, onError: 'skip', contentTypes: ['application/jsonl'] },
+        () => decoratorFactory(undefined, mockExecutionContext),
+      ) as NdJsonStreamRequest;
+
+      expect(result.batchSize).toBe(10);
+      expect(getParserOptions()).toMatchObject({ maxItems: 100, onError: 'skip' });
+    });
+
+    it('should merge route options over the defaults', () => {
+      const result = runWithNdJsonStreamDefaults(
+        { batchSize: 10, maxItems: 100, maxLineBytes: 50 },
+        () => decoratorFactory({ maxItems: 5, maxLineBytes: undefined }, mockExecutionContext),
+      ) as NdJsonStreamRequest;
+
+      expect(result.batchSize).toBe(10);
+      expect(getParserOptions()).toMatchObject({ maxItems: 5, maxLineBytes: 50 });
+    });
+
+    it('should use the defaults of the application handling the request', () => {
+      const options: NdJsonStreamOptions = { maxItems: 5 };
+      const handle = (defaults: NdJsonStreamModuleOptions) =>
+        runWithNdJsonStreamDefaults(defaults, () => decoratorFactory(options, mockExecutionContext)) as NdJsonStreamRequest;
+
+      expect(handle({ batchSize: 7 }).batchSize).toBe(7);
+      expect(handle({ batchSize: 3 }).batchSize).toBe(3);
+      expect((decoratorFactory(options, mockExecutionContext) as NdJsonStreamRequest).batchSize).toBe(NDJSON_STREAM_DEFAULT_BATCH_SIZE);
+    });
+
+    it('should combine an app-wide validation pipe with a route type', async () => {
+      const pipe: PipeTransform = { transform: jest.fn((value) => ({ ...value, piped: true })) };
+      class ItemDto {}
+      runWithNdJsonStreamDefaults({ validation: pipe }, () => decoratorFactory({ type: ItemDto }, mockExecutionContext));
+
+      expect(await getParserOptions().validate({ id: 1 })).toEqual({ id: 1, piped: true });
+      expect(pipe.transform).toHaveBeenCalledWith({ id: 1 }, { type: 'body', metatype: ItemDto });
+    });
+
+    it('should not validate when the defaults give ValidationPipe options but the route has no type', () => {
+      runWithNdJsonStreamDefaults({ validation: { whitelist: true } }, () => decoratorFactory(undefined, mockExecutionContext));
+
+      expect(getParserOptions().validate).toBeUndefined();
+    });
+  });
+
+  describe('Platform support', () => {
+    it('should pass the Express response to the parser', () => {
+      decoratorFactory(undefined, mockExecutionContext);
+
+      expect(NdJsonStreamParser.parseStream).toHaveBeenCalledWith(
+        mockRequest,
+        expect.objectContaining({ response: mockResponse })
+      );
+    });
+
+    it('should read the raw request and response on Fastify', () => {
+      const raw = { pipe: jest.fn() };
+      const rawResponse = { writableEnded: false };
+      (mockRequest as any).raw = raw;
+      mockResponse.raw = rawResponse;
+
+      const result = decoratorFactory(undefined, mockExecutionContext) as NdJsonStreamRequest;
+
+      expect(result).toBe(mockRequest);
+      expect(NdJsonStreamParser.parseStream).toHaveBeenCalledWith(
+        raw,
+        expect.objectContaining({ response: rawResponse })
+      );
+    });
+  });
+
+  describe('Content-Encoding', () => {
+    it('should pass the content encoding to the parser', () => {
+      mockRequest.headers['content-encoding'] = 'gzip';
+
+      decoratorFactory(undefined, mockExecutionContext);
+
+      expect(NdJsonStreamParser.parseStream).toHaveBeenCalledWith(
+        mockRequest,
+        expect.objectContaining({ contentEncoding: 'gzip' })
+      );
+    });
+
+    it('should throw UnsupportedMediaTypeException for unknown encodings', () => {
+      mockRequest.headers['content-encoding'] = 'compress';
+
+      expect(() => decoratorFactory(undefined, mockExecutionContext)).toThrow(UnsupportedMediaTypeException);
+      expect(NdJsonStreamParser.parseStream).not.toHaveBeenCalled();
     });
   });
 
@@ -156,7 +586,7 @@ describe('NdJsonStreamReq Decorator', () => {
       const result = decoratorFactory(undefined, mockExecutionContext) as NdJsonStreamRequest;
 
       expect(result.body).not.toBe(originalBody);
-      expect(result.body).toBe(mockAsyncGenerator);
+      expect(typeof result.body[Symbol.asyncIterator]).toBe('function');
     });
   });
 
@@ -166,7 +596,7 @@ describe('NdJsonStreamReq Decorator', () => {
       name: string;
     }
 
-    it('should support generic type parameter', () => {
+    it('should support generic type parameter', async () => {
       const typedAsyncGenerator: AsyncGenerator<TestType> = (async function* () {
         yield { id: 1, name: 'test' };
       })();
@@ -175,7 +605,18 @@ describe('NdJsonStreamReq Decorator', () => {
 
       const result = decoratorFactory(undefined, mockExecutionContext) as NdJsonStreamRequest<TestType>;
 
-      expect(result.body).toBe(typedAsyncGenerator);
+      await expect(result.body.next()).resolves.toEqual({ done: false, value: { id: 1, name: 'test' } });
+    });
+
+    it('should type the properties of the platform request', () => {
+      mockRequest.url = '/import';
+      const result = decoratorFactory(undefined, mockExecutionContext) as NdJsonStreamRequest<TestType, never, { url: string; body: unknown }>;
+
+      expect(result.url).toBe('/import');
+      // @ts-expect-error the platform request has no such property
+      expect(result.ulr).toBeUndefined();
+      const body: AsyncGenerator<TestType> = result.body;
+      expect(body).toBe(result.body);
     });
   });
 
@@ -214,6 +655,191 @@ describe('NdJsonStreamReq Decorator', () => {
     });
   });
 
+  describe('Line validation', () => {
+    class UserDto {
+      @IsInt()
+      id!: number;
+
+      @IsString()
+      name!: string;
+    }
+
+    const getValidate = () => (NdJsonStreamParser.parseStream as jest.Mock).mock.calls[0][1].validate;
+
+    it('should not validate lines when no type is given', () => {
+      decoratorFactory(undefined, mockExecutionContext);
+
+      expect(getValidate()).toBeUndefined();
+    });
+
+    it('should transform valid lines into DTO instances', async () => {
+      decoratorFactory({ type: UserDto }, mockExecutionContext);
+
+      const value = await getValidate()({ id: 1, name: 'Ada' });
+
+      expect(value).toBeInstanceOf(UserDto);
+      expect(value).toEqual({ id: 1, name: 'Ada' });
+    });
+
+    it('should reject invalid lines with validation messages', async () => {
+      decoratorFactory({ type: UserDto }, mockExecutionContext);
+
+      await expect(getValidate()({ id: 'x', name: 'Ada' })).rejects.toThrow(BadRequestException);
+    });
+
+    it('should apply ValidationPipe options', async () => {
+      decoratorFactory({ type: UserDto, validation: { transform: false } }, mockExecutionContext);
+
+      const value = await getValidate()({ id: 1, name: 'Ada' });
+
+      expect(value).not.toBeInstanceOf(UserDto);
+    });
+
+    it('should use a provided pipe instance', async () => {
+      const pipe: PipeTransform = { transform: jest.fn().mockReturnValue('piped') };
+      decoratorFactory({ type: UserDto, validation: pipe }, mockExecutionContext);
+
+      expect(await getValidate()({ id: 1 })).toBe('piped');
+      expect(pipe.transform).toHaveBeenCalledWith({ id: 1 }, { type: 'body', metatype: UserDto });
+    });
+
+    it('should reuse the validator for the same options object', () => {
+      const options: NdJsonStreamOptions = { type: UserDto };
+      decoratorFactory(options, mockExecutionContext);
+      decoratorFactory(options, mockExecutionContext);
+
+      const calls = (NdJsonStreamParser.parseStream as jest.Mock).mock.calls;
+      expect(calls[0][1].validate).toBe(calls[1][1].validate);
+    });
+  });
+
+  describe('Error policy', () => {
+    const getParserOptions = () => (NdJsonStreamParser.parseStream as jest.Mock).mock.calls[0][1];
+
+    it('should fail on bad lines by default', () => {
+      const result = decoratorFactory(undefined, mockExecutionContext) as NdJsonStreamRequest;
+
+      expect(result.rejected).toEqual([]);
+      expect(getParserOptions().onError).toBeUndefined();
+      expect(getParserOptions().onReject).toBeUndefined();
+    });
+
+    it('should pass skip mode and maxErrors to the parser without collecting', () => {
+      decoratorFactory({ onError: 'skip', maxErrors: 5 }, mockExecutionContext);
+
+      expect(getParserOptions()).toMatchObject({ onError: 'skip', maxErrors: 5 });
+      expect(getParserOptions().onReject).toBeUndefined();
+    });
+
+    it('should collect rejected lines on the request in collect mode', () => {
+      const result = decoratorFactory({ onError: 'collect' }, mockExecutionContext) as NdJsonStreamRequest;
+      const rejected = { line: 'bad', itemNumber: 2, cause: new Error('bad') };
+
+      getParserOptions().onReject(rejected);
+
+      expect(result.rejected).toEqual([rejected]);
+    });
+  });
+
+  describe('Acknowledgements', () => {
+    const getParserOptions = () => (NdJsonStreamParser.parseStream as jest.Mock).mock.calls[0][1];
+
+    it('should track the line number of the current item once it is yielded', async () => {
+      const result = decoratorFactory(undefined, mockExecutionContext) as NdJsonStreamRequest;
+
+      expect(result.itemNumber).toBe(0);
+      getParserOptions().onItem(3);
+      expect(result.itemNumber).toBe(0);
+      await result.body.next();
+      expect(result.itemNumber).toBe(3);
+    });
+
+    it('should acknowledge each item of the body with its line number', async () => {
+      const result = decoratorFactory(undefined, mockExecutionContext) as NdJsonStreamRequest;
+      getParserOptions().onItem(1);
+
+      const acks = result.acknowledge((item) => item.id * 10);
+
+      await expect(acks.next()).resolves.toEqual({ done: false, value: { itemNumber: 1, result: 10 } });
+      await acks.return(undefined);
+    });
+  });
+
+  describe('Resumable uploads', () => {
+    const getParserOptions = () => (NdJsonStreamParser.parseStream as jest.Mock).mock.calls[0][1];
+    let store: InMemoryNdJsonCheckpointStore;
+
+    beforeEach(() => {
+      store = new InMemoryNdJsonCheckpointStore();
+      mockRequest.headers['ndjson-upload-id'] = 'upload-1';
+    });
+
+    it('should ignore the resume headers on other routes', async () => {
+      mockRequest.headers['ndjson-resume-from'] = 'not checked';
+
+      const result = decoratorFactory(undefined, mockExecutionContext) as NdJsonStreamRequest;
+
+      expect(NdJsonStreamParser.parseStream).toHaveBeenCalledTimes(1);
+      expect(result.uploadId).toBeUndefined();
+      await expect(result.commit()).resolves.toBeUndefined();
+    });
+
+    it('should reject malformed resume headers before the handler runs', () => {
+      mockRequest.headers['ndjson-resume-from'] = 'soon';
+
+      expect(() => decoratorFactory({ resumable: true }, mockExecutionContext)).toThrow(BadRequestException);
+    });
+
+    it('should skip committed items and commit the position after the current item', async () => {
+      store.set('upload-1', { itemNumber: 4, byteOffset: 40 });
+      const result = decoratorFactory({ resumable: true, checkpointStore: store }, mockExecutionContext) as NdJsonStreamRequest;
+
+      await expect(result.body.next()).resolves.toEqual({ done: false, value: { id: 1 } });
+      expect(result.uploadId).toBe('upload-1');
+      expect(result.checkpoint).toEqual({ itemNumber: 4, byteOffset: 40 });
+      expect(getParserOptions()).toMatchObject({ resumeFrom: { itemNumber: 0, byteOffset: 0 }, skipThrough: 4 });
+
+      getParserOptions().onItem(5, { itemNumber: 5, byteOffset: 50 });
+      await result.body.next();
+      await expect(result.commit()).resolves.toEqual({ itemNumber: 5, byteOffset: 50 });
+      expect(store.get('upload-1')).toEqual({ itemNumber: 5, byteOffset: 50 });
+    });
+
+    it('should not move the committed position backwards', async () => {
+      store.set('upload-1', { itemNumber: 4, byteOffset: 40 });
+      const result = decoratorFactory({ resumable: true, checkpointStore: store }, mockExecutionContext) as NdJsonStreamRequest;
+      await result.body.next();
+
+      getParserOptions().onItem(3, { itemNumber: 3, byteOffset: 30 });
+      await result.body.next();
+
+      await expect(result.commit()).resolves.toEqual({ itemNumber: 4, byteOffset: 40 });
+      expect(store.get('upload-1')).toEqual({ itemNumber: 4, byteOffset: 40 });
+    });
+  });
+
+  describe('Concurrent processing', () => {
+    it('should process the body and summarise the run', async () => {
+      const result = decoratorFactory({ onError: 'collect' }, mockExecutionContext) as NdJsonStreamRequest;
+      const handler = jest.fn();
+
+      await expect(result.process(handler, { concurrency: 2 })).resolves.toEqual({ processed: 2, rejected: 0 });
+      expect(handler).toHaveBeenCalledWith({ id: 1 }, 0);
+      expect(handler).toHaveBeenCalledWith({ id: 2 }, 0);
+    });
+  });
+
+  describe('Size limits', () => {
+    it('should pass configured limits to the parser', () => {
+      decoratorFactory({ maxLineBytes: 100, maxItems: 10, maxBodyBytes: 1000 }, mockExecutionContext);
+
+      expect(NdJsonStreamParser.parseStream).toHaveBeenCalledWith(
+        mockRequest,
+        expect.objectContaining({ maxLineBytes: 100, maxItems: 10, maxBodyBytes: 1000 })
+      );
+    });
+  });
+
   describe('Error handling', () => {
     it('should propagate errors from NdJsonStreamParser', () => {
       const error = new Error('Parser error');
@@ -241,6 +867,57 @@ describe('NdJsonStreamReq Decorator', () => {
     });
   });
 
+  describe('Message contexts', () => {
+    const messageContext = (type: string, data: unknown, target: Record<string, unknown>) => ({
+      getType: () => type,
+      switchToHttp: jest.fn(),
+      switchToWs: () => ({ getData: () => data, getClient: () => target.client }),
+      switchToRpc: () => ({ getData: () => data, getContext: () => target.context }),
+    }) as unknown as ExecutionContext;
+
+    const readSource = async () => {
+      const chunks: Buffer[] = [];
+      for await (const chunk of (NdJsonStreamParser.parseStream as jest.Mock).mock.calls[0][0]) chunks.push(chunk);
+      return Buffer.concat(chunks).toString('utf8');
+    };
+
+    it('should parse the payload of a WebSocket message', async () => {
+      const client = { id: 'socket-1' };
+      const context = messageContext('ws', Buffer.from('{"id":1}\n'), { client });
+
+      const result = decoratorFactory({ batchSize: 5 }, context) as NdJsonStreamRequest;
+
+      expect(context.switchToHttp).not.toHaveBeenCalled();
+      expect(result).toMatchObject({ headers: {}, client, batchSize: 5, rejected: [], itemNumber: 0 });
+      expect((NdJsonStreamParser.parseStream as jest.Mock).mock.calls[0][1]).toMatchObject({ framing: 'newline' });
+      await expect(result.body.next()).resolves.toEqual({ done: false, value: { id: 1 } });
+      await expect(readSource()).resolves.toBe('{"id":1}\n');
+    });
+
+    it('should assemble the chunks of a microservice message', async () => {
+      const rpcContext = { pattern: 'import' };
+      const chunks = [new TextEncoder().encode('{"name":"caf'), '\u00e9"}\n{"id"', ':2}\n'];
+
+      const result = decoratorFactory(undefined, messageContext('rpc', chunks, { context: rpcContext })) as NdJsonStreamRequest<any, any, NdJsonMessageRequest>;
+
+      expect(result.context).toBe(rpcContext);
+      await expect(readSource()).resolves.toBe('{"name":"café"}\n{"id":2}\n');
+    });
+
+    it('should reject a payload that is not NDJSON', () => {
+      expect(() => decoratorFactory(undefined, messageContext('rpc', { id: 1 }, {}))).toThrow(
+        'Expected an NDJSON message payload as a string, binary data, or a sequence of them, received Object',
+      );
+    });
+
+    it('should reject unsupported contexts', () => {
+      expect(() => decoratorFactory(undefined, messageContext('graphql', '', {}))).toThrow(InternalServerErrorException);
+      expect(() => decoratorFactory(undefined, messageContext('graphql', '', {}))).toThrow(
+        '@NdJsonStreamReq() cannot be used in a graphql context',
+      );
+    });
+  });
+
   describe('Integration with ExecutionContext', () => {
     it('should correctly extract request from ExecutionContext', () => {
       decoratorFactory(undefined, mockExecutionContext);
@@ -1,52 +1,508 @@
-import { BadRequestException, createParamDecorator, ExecutionContext } from '@nestjs/common';
-import { Request } from 'express';
+import {
+	createParamDecorator,
+	ExecutionContext,
+	InternalServerErrorException,
+	PipeTransform,
+	Type,
+	ValidationPipe,
+	ValidationPipeOptions,
+} from '@nestjs/common';
+import { ServerResponse } from 'http';
 
+import { NdJsonUnsupportedMediaTypeError } from '../errors/ndjson-stream.errors';
+import {
+	NDJSON_STREAM_DEFAULT_BATCH_SIZE,
+	NDJSON_STREAM_DEFAULT_CONTENT_TYPES,
+	NDJSON_STREAM_PARAM_METADATA,
+} from '../ndjson-stream.constants';
 import { NdJsonStreamParser } from '../services/ndjson-stream-parser.service';
-import { NdJsonStreamRequest } from '../types/ndjson-stream';
+import {
+	NdJsonArchiveOptions,
+	NdJsonCheckpoint,
+	NdJsonCheckpointStore,
+	NdJsonDecoderOptions,
+	NdJsonEnvelopeOptions,
+	NdJsonErrorPolicy,
+	NdJsonFraming,
+	NdJsonHttpRequest,
+	NdJsonItemValidator,
+	NdJsonLineDecoder,
+	NdJsonMultipart,
+	NdJsonMultipartOptions,
+	NdJsonParserOptions,
+	NdJsonStreamLimits,
+	NdJsonStreamHooks,
+	NdJsonStreamRequest,
+	NdJsonStreamTimeouts,
+	NdJsonTracer,
+} from '../types/ndjson-stream';
+import { acknowledge } from '../utils/acknowledge';
+import { parseContentEncoding } from '../utils/content-encoding';
+import { getFraming } from '../utils/framing';
+import { getIntegrityCheck } from '../utils/integrity';
+import { createMessageSource } from '../utils/message-source';
+import { getNdJsonStreamDefaults } from '../utils/module-defaults';
+import { parseMultipartBoundary } from '../utils/multipart';
+import { createPeekable } from '../utils/peekable';
+import { processItems } from '../utils/process-items';
+import { defaultCheckpointStore, NdJsonResumeRequest, parseResumeHeaders, resumeBody } from '../utils/resume';
+import { setStopper, stopIterator } from '../utils/stop-iterator';
+import { StreamMonitor } from '../utils/stream-monitor';
 
 /**
- * Options for the NdJsonStream decorator
+ * How the header line of a body is validated, for `NdJsonStreamOptions.header`.
  */
-export interface NdJsonStreamOptions {
+export interface NdJsonHeaderOptions {
   /**
-   * The batch size for processing streamed objects.
+   * DTO class the header is transformed into and validated against.
+   */
+  type?: Type<any>;
+
+  /**
+   * How the header is validated against `type`: options for a
+   * `ValidationPipe`, or a pipe instance.
+   */
+  validation?: ValidationPipeOptions | PipeTransform;
+}
+
+/**
+ * Options for the NdJsonStream decorator.
+ * Options not given fall back to the defaults set with
+ * `NdJsonStreamModule.forRoot()`, and limits then to
+ * `NDJSON_STREAM_DEFAULT_LIMITS`; exceeding one fails the stream with an
+ * `NdJsonLimitExceededError` (HTTP 413). Timeouts are unlimited unless
+ * given; exceeding one fails the stream with an `NdJsonTimeoutError`
+ * (HTTP 408).
+ */
+export interface NdJsonStreamOptions extends NdJsonStreamLimits, NdJsonStreamTimeouts {
+  /**
+   * The batch size for processing streamed objects, used by `request.batches()`.
    * Defaults to 25 if not specified.
    */
   batchSize?: number;
+
+  /**
+   * Media types the request may be sent with, matched case-insensitively
+   * against the `Content-Type` without its parameters. Bodies sent as
+   * `application/json-seq` (or a `+json-seq` type) are parsed as RFC 7464
+   * JSON text sequences, and those sent as `application/json` (or a `+json`
+   * type) as a JSON document whose array at `arrayPath` holds the items; all
+   * others as newline-delimited JSON.
+   * Defaults to `['application/x-ndjson']`.
+   */
+  contentTypes?: string[];
+
+  /**
+   * For bodies sent as `application/json`, the array whose elements are the
+   * items: `'$'` for a top-level array (default), or a dotted path of object
+   * keys such as `'$.items'`.
+   */
+  arrayPath?: string;
+
+  /**
+   * How each line is decoded: a custom decoder such as `(line) => JSON.parse(line)`,
+   * or options for the built-in one, which can keep big integers exact
+   * (`bigInt`), guard against prototype poisoning (`protoPoisoning`) and
+   * apply a `reviver`. Defaults to plain `JSON.parse`.
+   */
+  decoder?: NdJsonLineDecoder | NdJsonDecoderOptions;
+
+  /**
+   * DTO class each line is transformed into and validated against.
+   * Requires `class-validator` and `class-transformer` when used with the
+   * default `ValidationPipe`.
+   */
+  type?: Type<any>;
+
+  /**
+   * How lines are validated against `type`: either options for a
+   * `ValidationPipe` (merged over `{ transform: true }`), or a pipe instance
+   * such as the one configured for the rest of the app.
+   */
+  validation?: ValidationPipeOptions | PipeTransform;
+
+  /**
+   * Read the first line as a header, such as a manifest describing the rows
+   * that follow, rather than as an item. It is available as
+   * `request.header` when the handler runs, validated with its own `type` and
+   * `validation` if given rather than those for items. A malformed or invalid
+   * header fails the request with a 400, whatever the `onError` policy.
+   * Defaults to `false`.
+   */
+  header?: boolean | NdJsonHeaderOptions;
+
+  /**
+   * Also accept `multipart/form-data` requests, such as browser uploads, and
+   * stream the NDJSON file sent in the named `field` without buffering it.
+   * The other text fields are on `request.fields`; those sent before the
+   * file are there when the handler runs. The body is limited to `maxParts`
+   * parts and each field to `maxFieldBytes`, defaulting to
+   * `NDJSON_MULTIPART_DEFAULT_LIMITS`.
+   */
+  multipart?: NdJsonMultipartOptions;
+
+  /**
+   * Yield each item wrapped in an `NdJsonEnvelope` with its line number, byte
+   * offset and length, and with `{ raw: true }` its raw text. The request is
+   * then an `NdJsonStreamRequest<NdJsonEnvelope<T>>`, and `batches()`,
+   * `acknowledge()` and `process()` receive envelopes too. Validation still
+   * applies to the item itself. Defaults to `false`.
+   */
+  envelope?: boolean | NdJsonEnvelopeOptions;
+
+  /**
+   * Accept resumable uploads. A request sent with an `NdJson-Upload-Id`
+   * header can record its progress with `request.commit()`. Sent again, it
+   * skips the committed items; with an `NdJson-Resume-From` header naming the
+   * committed position, its body carries on from there instead.
+   * Defaults to `false`.
+   */
+  resumable?: boolean;
+
+  /**
+   * Where committed positions of resumable uploads are kept. Defaults to a
+   * process-wide `InMemoryNdJsonCheckpointStore`.
+   */
+  checkpointStore?: NdJsonCheckpointStore;
+
+  /**
+   * Verify the body against the item count given in an `NdJson-Item-Count`
+   * header and the SHA-256 digest given in a `Content-Digest` or `Digest`
+   * header, or in trailers announced with a `Trailer` header. The digest is of
+   * the body as sent, as in RFC 9530: still encoded with any
+   * `Content-Encoding`, and the whole form of a multipart request. A mismatch
+   * makes the last iteration of `request.body` throw an
+   * `NdJsonIntegrityError`, so the handler can roll back. Requests without
+   * these headers are not checked. Defaults to `false`.
+   */
+  verify?: boolean;
+
+  /**
+   * Copy each request body to a stream opened by `sink(request)`, such as a
+   * file, while it is parsed: the exact bytes received, or with
+   * `decompressed: true` the body after its `Content-Encoding` is decoded.
+   * The body is read only as fast as the slower of the sink and the handler.
+   * The sink is ended when the body has been parsed successfully, and
+   * destroyed (with the error, if any) when parsing fails or the handler
+   * stops early.
+   */
+  archive?: NdJsonArchiveOptions;
+
+  /**
+   * Callbacks reporting each body's progress and how its parsing ended, such
+   * as `onProgress` every `progressItems` items and `onComplete` with a
+   * summary. The same counters are on `request.stats`.
+   */
+  hooks?: NdJsonStreamHooks;
+
+  /**
+   * Record each body as an `ndjson.parse` span: with the given tracer, or
+   * with `true` the global tracer of `@opentelemetry/api`, if it is
+   * installed. Defaults to `false`.
+   */
+  tracing?: boolean | NdJsonTracer;
+
+  /**
+   * Stops every body being parsed when aborted, such as on shutdown, failing
+   * it with an `NdJsonAbortedError`. Bodies also stop this way when their
+   * client disconnects.
+   */
+  signal?: AbortSignal;
+
+  /**
+   * How malformed or invalid lines are handled. With `'collect'`, dropped
+   * lines are listed on `request.rejected`. Defaults to `'fail'`.
+   */
+  onError?: NdJsonErrorPolicy;
+
+  /**
+   * How many lines may be dropped under `'skip'` or `'collect'` before the
+   * stream fails. Unlimited if not specified.
+   */
+  maxErrors?: number;
+}
+
+/**
+ * App-wide defaults for `NdJsonStreamOptions`, set with
+ * `NdJsonStreamModule.forRoot()`. `type` is always per route.
+ */
+export type NdJsonStreamModuleOptions = Omit<NdJsonStreamOptions, 'type'>;
+
+/**
+ * Route options merged over the app-wide defaults they were resolved against,
+ * cached per route so each request reuses the same object (and validator).
+ */
+const resolvedOptions = new WeakMap<NdJsonStreamOptions, {
+  defaults: NdJsonStreamModuleOptions;
+  options: NdJsonStreamOptions;
+}>();
+
+/**
+ * Merges a route's options over the app-wide defaults.
+ */
+function resolveOptions(data: NdJsonStreamOptions | undefined): NdJsonStreamOptions {
+	const defaults = getNdJsonStreamDefaults();
+	if (!data) return defaults;
+
+	const cached = resolvedOptions.get(data);
+	if (cached?.defaults === defaults) return cached.options;
+
+	const options: NdJsonStreamOptions = { ...defaults };
+	for (const [key, value] of Object.entries(data)) {
+		if (value !== undefined) (options as Record<string, unknown>)[key] = value;
+	}
+	resolvedOptions.set(data, { defaults, options });
+	return options;
+}
+
+/**
+ * Validators built from decorator options, cached per options object so a
+ * route's pipe is constructed once rather than on every request.
+ */
+const validators = new WeakMap<NdJsonHeaderOptions, NdJsonItemValidator | undefined>();
+
+/**
+ * Builds the per-line validator for the given decorator or header options, if any.
+ */
+function getValidator(options: NdJsonHeaderOptions): NdJsonItemValidator | undefined {
+	const { type, validation } = options;
+	const isPipe = typeof (validation as PipeTransform | undefined)?.transform === 'function';
+	// ValidationPipe options alone, e.g. app-wide defaults, have nothing to validate against
+	if (!type && !isPipe) return undefined;
+	if (validators.has(options)) return validators.get(options);
+
+	const pipe: PipeTransform = isPipe
+		? validation as PipeTransform
+		: new ValidationPipe({ transform: true, ...(validation as ValidationPipeOptions) });
+	const validator: NdJsonItemValidator = (value) => pipe.transform(value, { type: 'body', metatype: type });
+
+	validators.set(options, validator);
+	return validator;
+}
+
+/**
+ * What a stream request is built from: the HTTP request, or a stand-in for a
+ * message, and its body with how it was sent.
+ */
+interface NdJsonStreamInput {
+  request: NdJsonHttpRequest;
+  source: NodeJS.ReadableStream;
+  framing: NdJsonFraming;
+  response?: ServerResponse;
+  contentEncoding?: string;
+  resume?: NdJsonResumeRequest;
+  multipart?: NdJsonMultipart;
+  verify?: NdJsonParserOptions['verify'];
+}
+
+/**
+ * Reads the body of an HTTP request, rejecting before the handler runs a
+ * request whose headers are invalid or whose body cannot be streamed.
+ */
+function readHttpRequest(ctx: ExecutionContext, options: NdJsonStreamOptions): NdJsonStreamInput {
+	const http = ctx.switchToHttp();
+	const request = http.getRequest<NdJsonHttpRequest>();
+
+	// Validate content-type
+	const contentType = request.headers['content-type'] ?? '';
+	const contentTypes = options.contentTypes ?? NDJSON_STREAM_DEFAULT_CONTENT_TYPES;
+	const mediaType = contentType.toLowerCase().split(';')[0].trim();
+	const isMultipart = !!options.multipart && mediaType === 'multipart/form-data';
+	if (!isMultipart && !contentTypes.some((accepted) => accepted.toLowerCase() === mediaType)) {
+		throw new NdJsonUnsupportedMediaTypeError(
+			`Invalid content-type: ${contentType}. Expected ${contentTypes.join(' or ')}`
+		);
+	}
+
+	// Reject unsupported encodings before the handler runs
+	const contentEncoding = request.headers['content-encoding'] as string | undefined;
+	parseContentEncoding(contentEncoding);
+
+	// Likewise malformed resume headers and multipart boundaries. The file
+	// in a multipart body is always newline-delimited.
+	const framing = isMultipart ? 'newline' : getFraming(mediaType);
+	const resume = options.resumable ? parseResumeHeaders(request.headers, framing) : undefined;
+	const multipart = isMultipart ? { ...options.multipart!, boundary: parseMultipartBoundary(contentType) } : undefined;
+
+	// A body parser that got to the body first leaves nothing to stream
+	const source: NodeJS.ReadableStream & { readableEnded?: boolean; trailers?: NodeJS.Dict<string> } =
+		request.raw ?? (request as unknown as NodeJS.ReadableStream);
+	if (source.readableEnded) {
+		throw new InternalServerErrorException(
+			`The ${mediaType} request body was already read by a body parser; disable it for this route to stream the body`
+		);
+	}
+
+	// Malformed integrity headers are rejected up front; trailers are read
+	// once the body has ended
+	const verify = options.verify ? getIntegrityCheck(request.headers, source) : undefined;
+
+	// Express requests and responses are the Node objects themselves;
+	// Fastify exposes them as `raw`
+	const response = http.getResponse<{ raw?: ServerResponse } & ServerResponse>();
+	return { request, source, response: response?.raw ?? response, framing, contentEncoding, resume, multipart, verify };
+}
+
+/**
+ * Reads the payload of a WebSocket or microservice message as a
+ * newline-delimited body. Messages have no headers, so the stand-in request
+ * only carries the gateway's `client` or the microservice's `context`.
+ */
+function readMessage(ctx: ExecutionContext): NdJsonStreamInput {
+	const type = ctx.getType();
+	if (type === 'ws') {
+		const ws = ctx.switchToWs();
+		const request = { headers: {}, client: ws.getClient() };
+		return { request, source: createMessageSource(ws.getData()), framing: 'newline' };
+	}
+	if (type === 'rpc') {
+		const rpc = ctx.switchToRpc();
+		const request = { headers: {}, context: rpc.getContext() };
+		return { request, source: createMessageSource(rpc.getData()), framing: 'newline' };
+	}
+	throw new InternalServerErrorException(
+		`@NdJsonStreamReq() cannot be used in a ${type} context; it reads HTTP requests, WebSocket messages and microservice messages`
+	);
 }
 
 /**
  * Parameter decorator for handling NDJSON streaming requests.
- * Automatically parses incoming application/x-ndjson requests and provides
- * an AsyncGenerator in the request body for consuming the stream.
+ * Automatically parses incoming application/x-ndjson requests, or those of
+ * the configured `contentTypes` such as JSON Lines, JSON text sequences or
+ * JSON arrays, and provides an AsyncGenerator in the request body for
+ * consuming the stream. Works on both the Express and Fastify platforms; on
+ * Fastify, register the passthrough parser with
+ * `registerNdJsonContentTypeParser` first. A body already read by a body
+ * parser, such as Express's JSON parser for `application/json`, cannot be
+ * streamed and fails with a 500.
+ * With `header`, the first line is read before the handler runs; with
+ * `multipart`, the fields sent before the file are.
+ * Bodies sent with a gzip, deflate or brotli `Content-Encoding` are
+ * decompressed transparently; other encodings are rejected with a 415.
+ * In a WebSocket gateway or microservice handler, the message payload is
+ * parsed instead: NDJSON text or binary data, or a sequence of chunks of it
+ * such as an array, async iterable or Observable. Other contexts fail with
+ * a 500.
  *
  * @template T - The type of objects expected in the NDJSON stream
  * @param options - Optional configuration for stream processing
  * @returns A parameter decorator that transforms the request
  */
 export const NdJsonStreamReq = createParamDecorator(
-  <T = any>(data: NdJsonStreamOptions | undefined, ctx: ExecutionContext): NdJsonStreamRequest<T> => {
-  	const request = ctx.switchToHttp().getRequest<Request>();
-  	const batchSize = data?.batchSize ?? 25; // Default to 25 if not specified
-
-  	// Validate content-type
-  	const contentType: string = request.headers['content-type'];
-  	if (!contentType.toLowerCase().includes('application/x-ndjson')) {
-  		throw new BadRequestException(
-  			`Invalid content-type: ${contentType}. Expected application/x-ndjson`
-  		);
-  	}
+  <T = any>(data: NdJsonStreamOptions | undefined, ctx: ExecutionContext): NdJsonStreamRequest<T> | Promise<NdJsonStreamRequest<T>> => {
+  	const options = resolveOptions(data);
+  	const batchSize = options.batchSize ?? NDJSON_STREAM_DEFAULT_BATCH_SIZE;
+
+  	// Check the HTTP request before the handler runs, or read the message
+  	const { request, source, response, framing, contentEncoding, resume, multipart, verify } = ctx.getType() === 'http'
+  		? readHttpRequest(ctx, options)
+  		: readMessage(ctx);
+  	const { archive, header, hooks } = options;
+
+  	// Cast the request; rejected lines, the current line number and the
+  	// stats are recorded as the body is consumed
+  	const streamRequest = request as unknown as NdJsonStreamRequest<T>;
+  	streamRequest.rejected = [];
+  	streamRequest.itemNumber = 0;
+  	streamRequest.stats = new StreamMonitor().stats;
+  	if (multipart) streamRequest.fields = {};
 
   	// Create the AsyncGenerator for the body
-  	const asyncGenerator = NdJsonStreamParser.parseStream<T>(request);
+  	let position: NdJsonCheckpoint | undefined;
+  	let read: [number, NdJsonCheckpoint | undefined] = [0, undefined];
+  	const parse = (resumeOptions?: Pick<NdJsonParserOptions, 'resumeFrom' | 'skipThrough'>) => NdJsonStreamParser.parseStream<T>(source, {
+  		...resumeOptions,
+  		contentEncoding,
+  		response,
+  		framing,
+  		arrayPath: options.arrayPath,
+  		decoder: options.decoder,
+  		validate: getValidator(options),
+  		envelope: options.envelope,
+  		onError: options.onError,
+  		maxErrors: options.maxErrors,
+  		maxLineBytes: options.maxLineBytes,
+  		maxItems: options.maxItems,
+  		maxBodyBytes: options.maxBodyBytes,
+  		maxInflationRatio: options.maxInflationRatio,
+  		idleTimeoutMs: options.idleTimeoutMs,
+  		deadlineMs: options.deadlineMs,
+  		signal: options.signal,
+  		verify,
+  		multipart: multipart && {
+  			...multipart,
+  			onField: (name, value) => {
+  				streamRequest.fields![name] = value;
+  			},
+  		},
+  		archive: archive && { ...archive, sink: () => archive.sink(request) },
+  		hooks: {
+  			...hooks,
+  			onStart: (stats) => {
+  				streamRequest.stats = stats;
+  				hooks?.onStart?.(stats);
+  			},
+  		},
+  		tracing: options.tracing,
+  		onHeader: header ? (value) => { streamRequest.header = value; } : undefined,
+  		validateHeader: typeof header === 'object' ? getValidator(header) : undefined,
+  		onReject: options.onError === 'collect'
+  			? (rejected) => streamRequest.rejected.push(rejected)
+  			: undefined,
+  		onItem: (itemNumber, checkpoint) => {
+  			read = [itemNumber, checkpoint];
+  		},
+  	});
 
-  	// Cast the request and replace the body with our AsyncGenerator
-  	const streamRequest = request as NdJsonStreamRequest<T>;
-  	streamRequest.body = asyncGenerator;
+  	// Replace the body with our AsyncGenerator. A resumed upload first loads
+  	// its committed position, which decides where parsing picks up. Items
+  	// may be peeked before they are yielded, so the line number and position
+  	// read with each item are only applied once `body` yields it.
+  	const store = options.checkpointStore ?? defaultCheckpointStore;
+  	if (resume) streamRequest.uploadId = resume.uploadId;
+  	let parsing: AsyncGenerator<T> | undefined;
+  	const parseBody: typeof parse = (resumeOptions) => (parsing = parse(resumeOptions));
+  	const { body, peek, release } = createPeekable(resume ? resumeBody(streamRequest, store, resume, parseBody) : parseBody(), {
+  		capture: () => read,
+  		restore: ([itemNumber, checkpoint]) => {
+  			streamRequest.itemNumber = itemNumber;
+  			position = checkpoint;
+  		},
+  	});
+  	// Stopping the body, as batches() does when it gives up during a read,
+  	// stops the parse it wraps
+  	setStopper(body, () => parsing && stopIterator(parsing));
+  	streamRequest.body = body;
+  	streamRequest.peek = peek;
+  	streamRequest.commit = async () => {
+  		const committed = streamRequest.checkpoint;
+  		if (!resume || !position || (committed && position.itemNumber <= committed.itemNumber)) return committed;
+  		const checkpoint = position;
+  		await store.set(resume.uploadId, checkpoint);
+  		streamRequest.checkpoint = checkpoint;
+  		return checkpoint;
+  	};
 
   	// Attach batchSize to the request for downstream use
   	streamRequest.batchSize = batchSize;
+  	streamRequest.batches = (options) => NdJsonStreamParser.batch(streamRequest.body, batchSize, options);
+  	streamRequest.acknowledge = (handler, options) => acknowledge(streamRequest, handler, options);
+  	streamRequest.process = (handler, options) => processItems(streamRequest, handler, options);
 
-  	return streamRequest;
+  	// Reading up to the first item reads the header, if there is one, and
+  	// the fields sent before a multipart file. That starts the parse, so end
+  	// it once the response is done if the handler, say by throwing, never
+  	// read the body.
+  	if (!header && !multipart) return streamRequest;
+  	response?.once('close', () => {
+  		release().catch(() => undefined);
+  	});
+  	return peek(1).then(() => streamRequest);
   },
+  [
+  	// Lets companion decorators such as `@ApiNdJsonBody()` find this parameter's options
+  	(target: object, key: string | symbol | undefined, index: number) => {
+  		Reflect.defineMetadata(NDJSON_STREAM_PARAM_METADATA, index, target.constructor, key as string | symbol);
+  	},
+  ],
 );
@@ -0,0 +1,486 @@
+import { BadRequestException, Controller, INestApplication, PipeTransform, Post } from '@nestjs/common';
+import { ClientProxy, ClientProxyFactory, MessagePattern, MicroserviceOptions, Transport } from '@nestjs/microservices';
+import { ExpressAdapter } from '@nestjs/platform-express';
+import { FastifyAdapter, NestFastifyApplication } from '@nestjs/platform-fastify';
+import { Test } from '@nestjs/testing';
+import { createHash } from 'node:crypto';
+import { request as httpRequest } from 'node:http';
+import { AddressInfo, createServer } from 'node:net';
+import { gzipSync } from 'node:zlib';
+import { lastValueFrom } from 'rxjs';
+import { Writable } from 'stream';
+import { NdJsonStreamReq } from './ndjson-stream.decorator';
+import { NdJsonStreamRes } from './ndjson-stream-res.decorator';
+import { NdJsonStreamExceptionFilter } from '../filters/ndjson-stream-exception.filter';
+import { NdJsonStreamModule } from '../ndjson-stream.module';
+import { InMemoryNdJsonCheckpointStore } from '../services/ndjson-checkpoint-store.service';
+import { NdJsonStreamRequest } from '../types/ndjson-stream';
+import { registerNdJsonContentTypeParser } from '../utils/fastify';
+
+const positiveId: PipeTransform = {
+	transform(value: { id: number }) {
+		if (value.id < 1) throw new BadRequestException('id must be positive');
+		return value;
+	},
+};
+
+const checkpointStore = new InMemoryNdJsonCheckpointStore();
+const stopped: Error[] = [];
+const archived: Buffer[] = [];
+const archiveSink = () => new Writable({
+	write(chunk: Buffer, _encoding, callback) {
+		archived.push(chunk);
+		callback();
+	},
+});
+
+@Controller('stream')
+class StreamController {
+	@Post('items')
+	async items(@NdJsonStreamReq({ batchSize: 2, maxLineBytes: 64 }) request: NdJsonStreamRequest<{ id: number }>) {
+		const batches: number[][] = [];
+		for await (const batch of request.batches()) {
+			batches.push(batch.map((item) => item.id));
+		}
+		return { batches };
+	}
+
+	@Post('sequences')
+	async sequences(
+		@NdJsonStreamReq({ contentTypes: ['application/jsonl', 'application/json-seq'] }) request: NdJsonStreamRequest<{ id: number }>,
+	) {
+		const ids: number[] = [];
+		for await (const item of request.body) {
+			ids.push(item.id);
+		}
+		return { ids };
+	}
+
+	@Post('arrays')
+	async arrays(
+		@NdJsonStreamReq({ contentTypes: ['application/json'], arrayPath: '$.items' }) request: NdJsonStreamRequest<{ id: number }>,
+	) {
+		const ids: number[] = [];
+		for await (const item of request.body) {
+			ids.push(item.id);
+		}
+		return { ids };
+	}
+
+	@Post('resumable')
+	async resumable(
+		@NdJsonStreamReq({ resumable: true, checkpointStore }) request: NdJsonStreamRequest<{ id: number }>,
+	) {
+		const ids: number[] = [];
+		for await (const item of request.body) {
+			if (item.id < 1) throw new BadRequestException('id must be positive');
+			ids.push(item.id);
+			await request.commit();
+		}
+		return { ids, checkpoint: request.checkpoint };
+	}
+
+	@Post('verified')
+	async verified(@NdJsonStreamReq({ verify: true }) request: NdJsonStreamRequest<{ id: number }>) {
+		const ids: number[] = [];
+		for await (const item of request.body) {
+			ids.push(item.id);
+		}
+		return { ids };
+	}
+
+	@Post('archived')
+	async archive(@NdJsonStreamReq({ archive: { sink: archiveSink } }) request: NdJsonStreamRequest<{ id: number }>) {
+		let count = 0;
+		for await (const _item of request.body) count++;
+		return { count };
+	}
+
+	@Post('stats')
+	async stats(@NdJsonStreamReq({ onError: 'collect' }) request: NdJsonStreamRequest<{ id: number }>) {
+		for await (const _item of request.body) {
+			// Drain
+		}
+		const { bytesRead, itemsYielded, blankLines, errors } = request.stats;
+		return { bytesRead, itemsYielded, blankLines, errors };
+	}
+
+	@Post('timed')
+	async timed(@NdJsonStreamReq({ idleTimeoutMs: 200 }) request: NdJsonStreamRequest<{ id: number }>) {
+		const ids: number[] = [];
+		try {
+			for await (const item of request.body) {
+				ids.push(item.id);
+			}
+		} catch (error) {
+			stopped.push(error as Error);
+			throw error;
+		}
+		return { ids };
+	}
+
+	@Post('manifests')
+	async manifests(@NdJsonStreamReq({ header: true }) request: NdJsonStreamRequest<{ id: number }, { tenant: string }>) {
+		const tenant = request.header?.tenant;
+		const peeked = await request.peek(1);
+		const ids: number[] = [];
+		for await (const item of request.body) {
+			ids.push(item.id);
+		}
+		return { tenant, peeked, ids };
+	}
+
+	@Post('uploads')
+	async uploads(@NdJsonStreamReq({ multipart: { field: 'file' } }) request: NdJsonStreamRequest<{ id: number }>) {
+		const before = { ...request.fields };
+		const ids: number[] = [];
+		for await (const item of request.body) {
+			ids.push(item.id);
+		}
+		return { before, fields: request.fields, ids };
+	}
+
+	@Post('acks')
+	@NdJsonStreamRes()
+	acks(@NdJsonStreamReq({ validation: positiveId }) request: NdJsonStreamRequest<{ id: number }>) {
+		return request.acknowledge((item) => ({ saved: item.id }));
+	}
+}
+
+@Controller()
+class ImportMessageController {
+	@MessagePattern('import')
+	async import(@NdJsonStreamReq({ onError: 'collect' }) request: NdJsonStreamRequest<{ id: number }>) {
+		const ids: number[] = [];
+		for await (const item of request.body) {
+			ids.push(item.id);
+		}
+		return { ids, rejected: request.rejected.map(({ line }) => line) };
+	}
+
+	@MessagePattern('strict')
+	async strict(@NdJsonStreamReq() request: NdJsonStreamRequest) {
+		for await (const _item of request.body);
+	}
+
+	@MessagePattern('batch-size')
+	batchSize(@NdJsonStreamReq() request: NdJsonStreamRequest) {
+		return request.batchSize;
+	}
+}
+
+/**
+ * Finds a free local port for a microservice to listen on.
+ */
+const freePort = () => new Promise<number>((resolve, reject) => {
+	const server = createServer().listen(0, '127.0.0.1', () => {
+		const { port } = server.address() as AddressInfo;
+		server.close(() => resolve(port));
+	}).on('error', reject);
+});
+
+describe.each([
+	['express', () => new ExpressAdapter()],
+	['fastify', () => new FastifyAdapter()],
+])('NdJsonStreamReq on %s', (platform, createAdapter) => {
+	let app: INestApplication;
+	let url: string;
+
+	beforeAll(async () => {
+		const module = await Test.createTestingModule({ controllers: [StreamController] }).compile();
+		// The JSON body parser would consume the JSON array bodies streamed here
+		app = module.createNestApplication(createAdapter(), { logger: false, bodyParser: false });
+		if (platform === 'fastify') {
+			registerNdJsonContentTypeParser((app as NestFastifyApplication).getHttpAdapter().getInstance(), [
+				'application/x-ndjson',
+				'application/jsonl',
+				'application/json-seq',
+				'application/json',
+				'multipart/form-data',
+			]);
+		}
+		await app.listen(0, '127.0.0.1');
+		url = `${await app.getUrl()}/stream`;
+	});
+
+	afterAll(async () => {
+		await app.close();
+	});
+
+	const post = (body: string | Uint8Array, headers: Record<string, string> = {}, path = 'items') => fetch(`${url}/${path}`, {
+		method: 'POST',
+		headers: { 'content-type': 'application/x-ndjson', ...headers },
+		body: body as BodyInit,
+	});
+
+	it('should stream the body to the handler', async () => {
+		const response = await post('{"id":1}\n{"id":2}\n{"id":3}\n');
+
+		expect(response.status).toBe(201);
+		await expect(response.json()).resolves.toEqual({ batches: [[1, 2], [3]] });
+	});
+
+	it('should decompress gzip bodies', async () => {
+		const response = await post(gzipSync('{"id":1}\n{"id":2}\n'), { 'content-encoding': 'gzip' });
+
+		expect(response.status).toBe(201);
+		await expect(response.json()).resolves.toEqual({ batches: [[1, 2]] });
+	});
+
+	it('should reject unsupported encodings with a 415', async () => {
+		const response = await post('{"id":1}\n', { 'content-encoding': 'compress' });
+
+		expect(response.status).toBe(415);
+	});
+
+	it('should reject a body without a content type with a 415', async () => {
+		const response = await fetch(`${url}/items`, { method: 'POST', body: Buffer.from('{"id":1}\n') });
+
+		expect(response.status).toBe(415);
+	});
+
+	it('should reject lines over the size limit with a 413', async () => {
+		const response = await post(`{"id":1}\n{"pad":"${'x'.repeat(64)}"}\n`);
+
+		expect(response.status).toBe(413);
+	});
+
+	it('should stream an acknowledgement per item', async () => {
+		const response = await post('{"id":1}\n\n{"id":2}\n', {}, 'acks');
+
+		expect(response.headers.get('content-type')).toContain('application/x-ndjson');
+		await expect(response.text()).resolves.toBe(
+			'{"itemNumber":1,"result":{"saved":1}}\n{"itemNumber":3,"result":{"saved":2}}\n'
+		);
+	});
+
+	it('should end the acknowledgements with an error line naming the failed item', async () => {
+		const response = await post('{"id":1}\n{"id":0}\n{"id":2}\n', {}, 'acks');
+
+		const lines = (await response.text()).trim().split('\n').map((line) => JSON.parse(line));
+		expect(lines).toEqual([
+			{ itemNumber: 1, result: { saved: 1 } },
+			{ error: { statusCode: 400, message: expect.stringContaining('id must be positive'), itemNumber: 2 } },
+		]);
+	});
+
+	it('should parse JSON Lines bodies', async () => {
+		const response = await post('{"id":1}\n{"id":2}\n', { 'content-type': 'application/jsonl' }, 'sequences');
+
+		await expect(response.json()).resolves.toEqual({ ids: [1, 2] });
+	});
+
+	it('should parse JSON text sequences', async () => {
+		const body = '\x1e{"id":1}\n\x1e{\n  "id": 2\n}\n';
+		const response = await post(body, { 'content-type': 'application/json-seq' }, 'sequences');
+
+		await expect(response.json()).resolves.toEqual({ ids: [1, 2] });
+	});
+
+	it('should stream the elements of a JSON array body', async () => {
+		const body = JSON.stringify({ total: 3, items: [{ id: 1 }, { id: 2 }, { id: 3 }] });
+		const response = await post(body, { 'content-type': 'application/json' }, 'arrays');
+
+		await expect(response.json()).resolves.toEqual({ ids: [1, 2, 3] });
+	});
+
+	it('should reject a malformed JSON array body with a 400 naming the byte offset', async () => {
+		const response = await post('{"items":[{"id":1} {"id":2}]}', { 'content-type': 'application/json' }, 'arrays');
+
+		expect(response.status).toBe(400);
+		await expect(response.json()).resolves.toMatchObject({
+			message: "Invalid JSON array body at byte 19: unexpected '{' in array",
+		});
+	});
+
+	it('should accept a body matching its item count and digest', async () => {
+		const body = gzipSync('{"id":1}\n{"id":2}\n');
+		const digest = createHash('sha256').update(body).digest('base64');
+		const response = await post(body, {
+			'content-encoding': 'gzip',
+			'content-digest': `sha-256=:${digest}:`,
+			'ndjson-item-count': '2',
+		}, 'verified');
+
+		await expect(response.json()).resolves.toEqual({ ids: [1, 2] });
+	});
+
+	it('should fail a body that does not match its digest once it has been read', async () => {
+		const digest = createHash('sha256').update('{"id":1}\n').digest('base64');
+		const response = await post('{"id":1}\n{"id":2}\n', { 'content-digest': `sha-256=:${digest}:` }, 'verified');
+
+		expect(response.status).toBe(400);
+		await expect(response.json()).resolves.toMatchObject({
+			message: expect.stringMatching(/^NDJSON body SHA-256 digest .* does not match the expected /),
+			check: 'sha256',
+		});
+	});
+
+	it('should archive the exact bytes received', async () => {
+		archived.length = 0;
+		const body = gzipSync('{"id":1}\n{"id":2}\n');
+		const response = await post(body, { 'content-encoding': 'gzip' }, 'archived');
+
+		await expect(response.json()).resolves.toEqual({ count: 2 });
+		expect(Buffer.concat(archived)).toEqual(body);
+	});
+
+	it('should count what the body held', async () => {
+		const body = '{"id":1}\n\nbad\n{"id":2}\n';
+		const response = await post(gzipSync(body), { 'content-encoding': 'gzip' }, 'stats');
+
+		await expect(response.json()).resolves.toEqual({ bytesRead: Buffer.byteLength(body), itemsYielded: 2, blankLines: 1, errors: 1 });
+	});
+
+	// A client that sends a first line and then nothing more
+	const stall = (path: string) => {
+		const { hostname, port, pathname } = new URL(`${url}/${path}`);
+		const request = httpRequest({
+			hostname,
+			port,
+			path: pathname,
+			method: 'POST',
+			headers: { 'content-type': 'application/x-ndjson', 'transfer-encoding': 'chunked' },
+		});
+		request.on('error', () => undefined);
+		request.write('{"id":1}\n');
+		return request;
+	};
+
+	it('should answer a stalled upload with a 408 once it goes idle', async () => {
+		const request = stall('timed');
+
+		const status = await new Promise<number | undefined>((resolve) => {
+			request.on('response', (response) => {
+				response.resume();
+				resolve(response.statusCode);
+			});
+		});
+
+		expect(status).toBe(408);
+		request.destroy();
+	});
+
+	it('should stop the handler when the client disconnects', async () => {
+		stopped.length = 0;
+		const request = stall('timed');
+
+		await new Promise((resolve) => setTimeout(resolve, 50));
+		request.destroy();
+		while (stopped.length === 0) await new Promise((resolve) => setTimeout(resolve, 10));
+
+		expect(stopped[0].message).toBe('The client disconnected before the NDJSON stream ended');
+	});
+
+	it('should read the header line before the handler runs', async () => {
+		const response = await post('{"tenant":"acme"}\n{"id":1}\n{"id":2}\n', {}, 'manifests');
+
+		await expect(response.json()).resolves.toEqual({ tenant: 'acme', peeked: [{ id: 1 }], ids: [1, 2] });
+	});
+
+	it('should reject a malformed header with a 400', async () => {
+		const response = await post('{"tenant":\n{"id":1}\n', {}, 'manifests');
+
+		expect(response.status).toBe(400);
+		await expect(response.json()).resolves.toMatchObject({ message: expect.stringMatching(/^Failed to parse NDJSON line 1: /) });
+	});
+
+	it('should stream the NDJSON file of a multipart form', async () => {
+		const form = new FormData();
+		form.append('source', 'browser');
+		form.append('file', new Blob(['{"id":1}\n{"id":2}\n'], { type: 'application/x-ndjson' }), 'items.ndjson');
+		form.append('note', 'sent last');
+		const response = await fetch(`${url}/uploads`, { method: 'POST', body: form });
+
+		await expect(response.json()).resolves.toEqual({
+			// Later fields may have arrived with the file
+			before: expect.objectContaining({ source: 'browser' }),
+			fields: { source: 'browser', note: 'sent last' },
+			ids: [1, 2],
+		});
+	});
+
+	it('should reject a multipart form without the NDJSON file with a 400', async () => {
+		const form = new FormData();
+		form.append('source', 'browser');
+		const response = await fetch(`${url}/uploads`, { method: 'POST', body: form });
+
+		expect(response.status).toBe(400);
+		await expect(response.json()).resolves.toMatchObject({ message: 'Multipart body has no "file" part' });
+	});
+
+	it('should resume an interrupted upload after its last committed item', async () => {
+		const headers = { 'ndjson-upload-id': `upload-${platform}` };
+
+		const failed = await post('{"id":1}\n{"id":2}\n{"id":0}\n{"id":4}\n', headers, 'resumable');
+		expect(failed.status).toBe(400);
+
+		const conflict = await post('{"id":4}\n', { ...headers, 'ndjson-resume-from': '3' }, 'resumable');
+		expect(conflict.status).toBe(409);
+		await expect(conflict.json()).resolves.toMatchObject({ checkpoint: { itemNumber: 2, byteOffset: 18 } });
+
+		const resumed = await post('{"id":3}\n{"id":4}\n', { ...headers, 'ndjson-resume-from': 'bytes=18' }, 'resumable');
+		await expect(resumed.json()).resolves.toEqual({ ids: [3, 4], checkpoint: { itemNumber: 4, byteOffset: 36 } });
+
+		const resent = await post('{"id":1}\n{"id":2}\n{"id":3}\n{"id":4}\n{"id":5}\n', headers, 'resumable');
+		await expect(resent.json()).resolves.toEqual({ ids: [5], checkpoint: { itemNumber: 5, byteOffset: 45 } });
+	});
+});
+
+describe('NdJsonStreamReq over the TCP transport', () => {
+	let app: INestApplication;
+	let client: ClientProxy;
+
+	beforeAll(async () => {
+		const port = await freePort();
+		const module = await Test.createTestingModule({
+			imports: [NdJsonStreamModule.forRoot({ batchSize: 7 })],
+			controllers: [ImportMessageController],
+		}).compile();
+		app = module.createNestApplication({ logger: false });
+		app.useGlobalFilters(new NdJsonStreamExceptionFilter());
+		app.connectMicroservice<MicroserviceOptions>(
+			{ transport: Transport.TCP, options: { host: '127.0.0.1', port } },
+			{ inheritAppConfig: true },
+		);
+		await app.startAllMicroservices();
+		await app.init();
+		client = ClientProxyFactory.create({ transport: Transport.TCP, options: { host: '127.0.0.1', port } });
+		await client.connect();
+	});
+
+	afterAll(async () => {
+		client.close();
+		await app.close();
+	});
+
+	const send = (payload: unknown) => lastValueFrom(client.send<{ ids: number[]; rejected: string[] }>('import', payload));
+
+	it('should parse a string payload', async () => {
+		await expect(send('{"id":1}\n{"id":2}\n')).resolves.toEqual({ ids: [1, 2], rejected: [] });
+	});
+
+	it('should parse a Buffer payload, which arrives serialized to JSON', async () => {
+		await expect(send(Buffer.from('{"id":1}\n{"id":2}\n'))).resolves.toEqual({ ids: [1, 2], rejected: [] });
+	});
+
+	it('should assemble a payload of chunks split within a line', async () => {
+		await expect(send(['{"id":1}\n{"i', 'd":2}\n'])).resolves.toEqual({ ids: [1, 2], rejected: [] });
+	});
+
+	it('should apply the app-wide defaults', async () => {
+		await expect(lastValueFrom(client.send<number>('batch-size', '{"id":1}\n'))).resolves.toBe(7);
+	});
+
+	it('should pass errors through a global NdJsonStreamExceptionFilter to the transport', async () => {
+		await expect(lastValueFrom(client.send('strict', '{"id":1}\nnot json\n'))).rejects.toMatchObject({
+			status: 400,
+			message: expect.stringContaining('Failed to parse NDJSON line 2'),
+		});
+	});
+
+	it('should not assemble a line split across messages', async () => {
+		await expect(send('{"id":1}\n{"i')).resolves.toEqual({ ids: [1], rejected: ['{"i'] });
+		await expect(send('d":2}\n')).resolves.toEqual({ ids: [], rejected: ['d":2}'] });
+	});
+});
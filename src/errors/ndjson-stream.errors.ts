@@ -0,0 +1,283 @@
+import {
+	BadRequestException,
+	ConflictException,
+	HttpException,
+	PayloadTooLargeException,
+	RequestTimeoutException,
+	ServiceUnavailableException,
+	UnsupportedMediaTypeException,
+} from '@nestjs/common';
+
+import {
+	NdJsonCheckpoint,
+	NdJsonIntegrity,
+	NdJsonMultipartLimits,
+	NdJsonStreamLimits,
+	NdJsonStreamTimeouts,
+} from '../types/ndjson-stream';
+
+/**
+ * Where in a stream a parse error occurred. Each is present when known.
+ */
+export interface NdJsonParseErrorLocation {
+	/**
+	 * The raw text of the offending line.
+	 */
+	line?: string;
+
+	/**
+	 * 1-based position of the line in the stream.
+	 */
+	itemNumber?: number;
+
+	/**
+	 * Byte offset of the line, or of the problem, in the decoded body.
+	 */
+	byteOffset?: number;
+}
+
+/**
+ * Thrown when a line is not valid JSON, when a JSON array body or text
+ * sequence is malformed, or when a compressed body cannot be decompressed.
+ * Maps to HTTP 400 Bad Request.
+ */
+export class NdJsonParseError extends BadRequestException {
+	/**
+	 * The raw text of the offending line, if the error concerns one.
+	 */
+	readonly line?: string;
+
+	/**
+	 * 1-based position of the offending line, if the error concerns one.
+	 */
+	readonly itemNumber?: number;
+
+	/**
+	 * Byte offset of the line, or of the problem, in the decoded body.
+	 */
+	readonly byteOffset?: number;
+
+	constructor(message: string, location: NdJsonParseErrorLocation = {}, cause?: unknown) {
+		const { line, itemNumber, byteOffset } = location;
+		super(
+			{
+				statusCode: 400,
+				error: 'Bad Request',
+				message,
+				...(itemNumber !== undefined && { itemNumber }),
+				...(byteOffset !== undefined && { byteOffset }),
+			},
+			{ cause },
+		);
+		this.line = line;
+		this.itemNumber = itemNumber;
+		this.byteOffset = byteOffset;
+	}
+}
+
+/**
+ * Thrown when a parsed NDJSON line fails DTO validation.
+ * Maps to HTTP 400 Bad Request.
+ */
+export class NdJsonValidationError extends BadRequestException {
+	/**
+	 * The raw text of the offending line.
+	 */
+	readonly line: string;
+
+	/**
+	 * 1-based position of the line in the stream.
+	 */
+	readonly itemNumber: number;
+
+	/**
+	 * The validation messages reported for the line.
+	 */
+	readonly errors: string[];
+
+	constructor(line: string, itemNumber: number, cause: unknown) {
+		const errors = extractMessages(cause);
+		super(
+			{
+				statusCode: 400,
+				error: 'Bad Request',
+				message: `Validation failed for NDJSON line ${itemNumber}: ${errors.join('; ')}`,
+				itemNumber,
+				errors,
+			},
+			{ cause },
+		);
+		this.line = line;
+		this.itemNumber = itemNumber;
+		this.errors = errors;
+	}
+}
+
+/**
+ * Thrown when a stream ends with a different item count or digest than
+ * expected, so the handler can roll back what it processed.
+ * Maps to HTTP 400 Bad Request.
+ */
+export class NdJsonIntegrityError extends BadRequestException {
+	/**
+	 * The check that failed.
+	 */
+	readonly check: keyof NdJsonIntegrity;
+
+	/**
+	 * The expected value: an item count, or a base64 digest.
+	 */
+	readonly expected: number | string;
+
+	/**
+	 * The value found in the stream.
+	 */
+	readonly actual: number | string;
+
+	constructor(check: keyof NdJsonIntegrity, expected: number | string, actual: number | string) {
+		super({
+			statusCode: 400,
+			error: 'Bad Request',
+			message: check === 'itemCount'
+				? `NDJSON body has ${actual} items, expected ${expected}`
+				: `NDJSON body SHA-256 digest ${actual} does not match the expected ${expected}`,
+			check,
+			expected,
+			actual,
+		});
+		this.check = check;
+		this.expected = expected;
+		this.actual = actual;
+	}
+}
+
+/**
+ * Thrown when a stream exceeds one of its configured size limits.
+ * Maps to HTTP 413 Payload Too Large.
+ */
+export class NdJsonLimitExceededError extends PayloadTooLargeException {
+	/**
+	 * The limit that was exceeded.
+	 */
+	readonly limit: keyof NdJsonStreamLimits | keyof NdJsonMultipartLimits;
+
+	/**
+	 * The configured value of that limit.
+	 */
+	readonly max: number;
+
+	constructor(limit: keyof NdJsonStreamLimits | keyof NdJsonMultipartLimits, max: number) {
+		super(`NDJSON stream exceeded ${limit} (${max})`);
+		this.limit = limit;
+		this.max = max;
+	}
+}
+
+/**
+ * Thrown when a stream takes longer than one of its configured timeouts.
+ * Maps to HTTP 408 Request Timeout.
+ */
+export class NdJsonTimeoutError extends RequestTimeoutException {
+	/**
+	 * The timeout that was exceeded.
+	 */
+	readonly timeout: keyof NdJsonStreamTimeouts;
+
+	/**
+	 * The configured value of that timeout, in milliseconds.
+	 */
+	readonly ms: number;
+
+	constructor(timeout: keyof NdJsonStreamTimeouts, ms: number) {
+		super(timeout === 'idleTimeoutMs'
+			? `NDJSON stream received no data for ${ms} ms`
+			: `NDJSON stream did not complete within ${ms} ms`);
+		this.timeout = timeout;
+		this.ms = ms;
+	}
+}
+
+/**
+ * Thrown when a stream is stopped before it ends, by an `AbortSignal` or
+ * because the client disconnected. `cause` is the signal's reason, if any.
+ * Maps to HTTP 503 Service Unavailable, though a disconnected client
+ * receives no response.
+ */
+export class NdJsonAbortedError extends ServiceUnavailableException {
+	constructor(message: string, cause?: unknown) {
+		super(message, { cause });
+	}
+}
+
+/**
+ * Thrown when a request has a content type the route does not accept, or an
+ * encoding the library cannot decode.
+ * Maps to HTTP 415 Unsupported Media Type.
+ */
+export class NdJsonUnsupportedMediaTypeError extends UnsupportedMediaTypeException {}
+
+/**
+ * Thrown when a request header the stream depends on is malformed or
+ * inconsistent, such as a multipart boundary, a resume position or an
+ * expected digest.
+ * Maps to HTTP 400 Bad Request.
+ */
+export class NdJsonHeaderError extends BadRequestException {
+	/**
+	 * The name of the offending header, in lower case.
+	 */
+	readonly header: string;
+
+	constructor(header: string, message: string) {
+		super({
+			statusCode: 400,
+			error: 'Bad Request',
+			message,
+			header,
+		});
+		this.header = header;
+	}
+}
+
+/**
+ * Thrown when an upload asks to resume from a position other than the one
+ * committed for it. The response body includes the committed `checkpoint`,
+ * so the client can resume from there instead.
+ * Maps to HTTP 409 Conflict.
+ */
+export class NdJsonResumeConflictError extends ConflictException {
+	/**
+	 * The upload that was to be resumed.
+	 */
+	readonly uploadId: string;
+
+	/**
+	 * The position committed for the upload.
+	 */
+	readonly checkpoint: NdJsonCheckpoint;
+
+	constructor(uploadId: string, checkpoint: NdJsonCheckpoint) {
+		super({
+			statusCode: 409,
+			error: 'Conflict',
+			message: `Upload ${uploadId} can only resume after item ${checkpoint.itemNumber} (byte ${checkpoint.byteOffset})`,
+			checkpoint,
+		});
+		this.uploadId = uploadId;
+		this.checkpoint = checkpoint;
+	}
+}
+
+/**
+ * Extracts human-readable messages from an error thrown by a validation pipe.
+ * `ValidationPipe` reports its messages as an array on the exception response.
+ */
+function extractMessages(error: unknown): string[] {
+	if (error instanceof HttpException) {
+		const response = error.getResponse();
+		const message = typeof response === 'object' ? (response as { message?: unknown }).message : response;
+		if (Array.isArray(message)) return message.map(String);
+		if (typeof message === 'string') return [message];
+	}
+	return [error instanceof Error ? error.message : String(error)];
+}
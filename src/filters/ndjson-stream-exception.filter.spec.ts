@@ -0,0 +1,180 @@
+import { ArgumentsHost, BadRequestException, Controller, Get, INestApplication, PipeTransform, Post, Res, UseFilters } from '@nestjs/common';
+import { ExpressAdapter } from '@nestjs/platform-express';
+import { FastifyAdapter, NestFastifyApplication } from '@nestjs/platform-fastify';
+import { Test } from '@nestjs/testing';
+import { ServerResponse } from 'http';
+import { lastValueFrom, Observable } from 'rxjs';
+import { NdJsonStreamExceptionFilter } from './ndjson-stream-exception.filter';
+import { NdJsonStreamReq } from '../decorators/ndjson-stream.decorator';
+import { NdJsonParseError, NdJsonTimeoutError } from '../errors/ndjson-stream.errors';
+import { NdJsonStreamRequest } from '../types/ndjson-stream';
+import { registerNdJsonContentTypeParser } from '../utils/fastify';
+
+const positiveId: PipeTransform = {
+	transform(value: { id: number }) {
+		if (value.id < 1) throw new BadRequestException('id must be positive');
+		return value;
+	},
+};
+
+@Controller('import')
+@UseFilters(NdJsonStreamExceptionFilter)
+class ImportController {
+	@Post('items')
+	async items(@NdJsonStreamReq({ validation: positiveId, maxItems: 3, resumable: true }) request: NdJsonStreamRequest<{ id: number }>) {
+		let count = 0;
+		for await (const _item of request.body) count++;
+		return { count };
+	}
+
+	@Get('idle')
+	idle() {
+		throw new NdJsonTimeoutError('idleTimeoutMs', 200);
+	}
+
+	@Get('plain')
+	plain() {
+		throw new BadRequestException('not an NDJSON error');
+	}
+
+	@Get('started')
+	started(@Res() response: { raw?: ServerResponse } & ServerResponse) {
+		const raw = response.raw ?? response;
+		raw.writeHead(200, { 'content-type': 'application/x-ndjson' });
+		raw.write('{"id":1}\n');
+		throw new NdJsonParseError('Failed to parse NDJSON line 2: Unexpected end of JSON input', { itemNumber: 2 });
+	}
+}
+
+describe.each([
+	['express', () => new ExpressAdapter()],
+	['fastify', () => new FastifyAdapter({ forceCloseConnections: true })],
+])('NdJsonStreamExceptionFilter on %s', (platform, createAdapter) => {
+	let app: INestApplication;
+	let baseUrl: string;
+
+	beforeAll(async () => {
+		const module = await Test.createTestingModule({ controllers: [ImportController] }).compile();
+		app = module.createNestApplication(createAdapter(), { logger: false });
+		if (platform === 'fastify') {
+			registerNdJsonContentTypeParser((app as NestFastifyApplication).getHttpAdapter().getInstance());
+		}
+		await app.listen(0, '127.0.0.1');
+		baseUrl = `${await app.getUrl()}/import`;
+	});
+
+	afterAll(async () => {
+		await app.close();
+	});
+
+	const post = (body: string, headers: Record<string, string> = {}) => fetch(`${baseUrl}/items`, {
+		method: 'POST',
+		headers: { 'content-type': 'application/x-ndjson', ...headers },
+		body,
+	});
+
+	it('should render a parse error as problem details with its line number', async () => {
+		const response = await post('{"id":1}\n{"id":\n');
+
+		expect(response.status).toBe(400);
+		expect(response.headers.get('content-type')).toContain('application/problem+json');
+		await expect(response.json()).resolves.toEqual({
+			type: 'about:blank',
+			title: 'Bad Request',
+			status: 400,
+			detail: expect.stringMatching(/^Failed to parse NDJSON line 2: /),
+			instance: '/import/items',
+			itemNumber: 2,
+		});
+	});
+
+	it('should render a validation error with its messages', async () => {
+		const response = await post('{"id":1}\n{"id":0}\n');
+
+		expect(response.status).toBe(400);
+		await expect(response.json()).resolves.toMatchObject({
+			title: 'Bad Request',
+			detail: 'Validation failed for NDJSON line 2: id must be positive',
+			itemNumber: 2,
+			errors: ['id must be positive'],
+		});
+	});
+
+	it('should render an exceeded limit', async () => {
+		const response = await post('{"id":1}\n{"id":2}\n{"id":3}\n{"id":4}\n');
+
+		expect(response.status).toBe(413);
+		await expect(response.json()).resolves.toMatchObject({
+			title: 'Payload Too Large',
+			status: 413,
+			limit: 'maxItems',
+			max: 3,
+		});
+	});
+
+	it('should render an unsupported encoding', async () => {
+		const response = await post('{"id":1}\n', { 'content-encoding': 'compress' });
+
+		expect(response.status).toBe(415);
+		await expect(response.json()).resolves.toMatchObject({ title: 'Unsupported Media Type', status: 415 });
+	});
+
+	it('should render a content type the route does not accept', async () => {
+		const response = await post('{"id":1}\n', { 'content-type': 'application/json' });
+
+		expect(response.status).toBe(415);
+		await expect(response.json()).resolves.toMatchObject({
+			title: 'Unsupported Media Type',
+			detail: 'Invalid content-type: application/json. Expected application/x-ndjson',
+		});
+	});
+
+	it('should render a malformed header with its name', async () => {
+		const response = await post('{"id":1}\n', { 'ndjson-resume-from': '10' });
+
+		expect(response.status).toBe(400);
+		await expect(response.json()).resolves.toMatchObject({
+			title: 'Bad Request',
+			detail: 'NdJson-Resume-From requires an NdJson-Upload-Id header',
+			header: 'ndjson-resume-from',
+		});
+	});
+
+	it('should render a timeout', async () => {
+		const response = await fetch(`${baseUrl}/idle`);
+
+		expect(response.status).toBe(408);
+		await expect(response.json()).resolves.toMatchObject({
+			title: 'Request Timeout',
+			detail: 'NDJSON stream received no data for 200 ms',
+			timeout: 'idleTimeoutMs',
+			ms: 200,
+		});
+	});
+
+	it('should leave other exceptions to the default handler', async () => {
+		const response = await fetch(`${baseUrl}/plain`);
+
+		expect(response.status).toBe(400);
+		expect(response.headers.get('content-type')).toContain('application/json');
+		await expect(response.json()).resolves.toMatchObject({ message: 'not an NDJSON error' });
+	});
+
+	it('should abort a response that has already started', async () => {
+		const body = fetch(`${baseUrl}/started`).then((response) => response.text());
+
+		await expect(body).rejects.toThrow();
+	});
+});
+
+describe('NdJsonStreamExceptionFilter outside HTTP', () => {
+	it.each(['rpc', 'ws'])('should pass the error on in a %s context', async (type) => {
+		const error = new NdJsonParseError('Failed to parse NDJSON line 1: Unexpected token', { itemNumber: 1 });
+		const host = { getType: () => type, switchToHttp: jest.fn() } as unknown as ArgumentsHost;
+
+		const result = new NdJsonStreamExceptionFilter().catch(error, host);
+
+		expect(host.switchToHttp).not.toHaveBeenCalled();
+		await expect(lastValueFrom(result as Observable<never>)).rejects.toBe(error);
+	});
+});
@@ -0,0 +1,159 @@
+import { ArgumentsHost, Catch, ExceptionFilter, HttpException, Logger } from '@nestjs/common';
+import { ServerResponse } from 'http';
+import { Observable, throwError } from 'rxjs';
+
+import {
+	NdJsonAbortedError,
+	NdJsonHeaderError,
+	NdJsonIntegrityError,
+	NdJsonLimitExceededError,
+	NdJsonParseError,
+	NdJsonResumeConflictError,
+	NdJsonTimeoutError,
+	NdJsonUnsupportedMediaTypeError,
+	NdJsonValidationError,
+} from '../errors/ndjson-stream.errors';
+import { NDJSON_PROBLEM_CONTENT_TYPE } from '../ndjson-stream.constants';
+import {
+	NdJsonCheckpoint,
+	NdJsonIntegrity,
+	NdJsonMultipartLimits,
+	NdJsonStreamLimits,
+	NdJsonStreamTimeouts,
+} from '../types/ndjson-stream';
+
+/**
+ * An RFC 9457 problem details object describing a failed NDJSON request.
+ * Members beyond the standard ones are present when the error provides them.
+ */
+export interface NdJsonProblemDetails {
+	/** Always `about:blank`: the status code says what kind of problem it is */
+	type: string;
+	/** The HTTP reason phrase, e.g. `Bad Request` */
+	title: string;
+	status: number;
+	/** The error message, e.g. `Failed to parse NDJSON line 3: ...` */
+	detail: string;
+	/** The request path */
+	instance?: string;
+	/** 1-based line number of the line that failed to parse or validate */
+	itemNumber?: number;
+	/** Byte offset of the failed line, or of a JSON array syntax error */
+	byteOffset?: number;
+	/** The validation messages for the line */
+	errors?: string[];
+	/** The size limit that was exceeded, and its configured value */
+	limit?: keyof NdJsonStreamLimits | keyof NdJsonMultipartLimits;
+	max?: number;
+	/** The timeout that was exceeded, and its configured value in milliseconds */
+	timeout?: keyof NdJsonStreamTimeouts;
+	ms?: number;
+	/** The integrity check that failed, with the expected and actual values */
+	check?: keyof NdJsonIntegrity;
+	expected?: number | string;
+	actual?: number | string;
+	/** The malformed request header */
+	header?: string;
+	/** The upload that could not be resumed, and its committed position */
+	uploadId?: string;
+	checkpoint?: NdJsonCheckpoint;
+}
+
+/**
+ * The part of an Express response or Fastify reply the filter writes to.
+ */
+interface ProblemResponse {
+	raw?: ServerResponse;
+	headersSent?: boolean;
+	status(code: number): ProblemResponse;
+	type(contentType: string): ProblemResponse;
+	send(body: string): unknown;
+}
+
+/**
+ * Exception filter that renders the library's errors as RFC 9457
+ * `application/problem+json` responses, with the line number and byte offset
+ * of the offending line where known.
+ *
+ * Apply it with `@UseFilters(NdJsonStreamExceptionFilter)` or app-wide with
+ * `app.useGlobalFilters(new NdJsonStreamExceptionFilter())`. Other exceptions
+ * are left to the next filter. Errors raised while handling a WebSocket or
+ * microservice message have no HTTP response to render, so they are passed on
+ * to the transport unchanged.
+ *
+ * A handler may fail after it has started writing the response itself, when
+ * the status can no longer be changed. The response is then destroyed rather
+ * than ended, so the client sees an incomplete transfer instead of what looks
+ * like a complete body. Responses streamed by `@NdJsonStreamRes()` report
+ * such failures in-band and never reach the filter.
+ */
+@Catch(
+	NdJsonParseError,
+	NdJsonValidationError,
+	NdJsonLimitExceededError,
+	NdJsonUnsupportedMediaTypeError,
+	NdJsonResumeConflictError,
+	NdJsonIntegrityError,
+	NdJsonTimeoutError,
+	NdJsonAbortedError,
+	NdJsonHeaderError,
+)
+export class NdJsonStreamExceptionFilter implements ExceptionFilter {
+	private readonly logger = new Logger(NdJsonStreamExceptionFilter.name);
+
+	catch(exception: HttpException, host: ArgumentsHost): void | Observable<never> {
+		if (host.getType() !== 'http') return throwError(() => exception);
+
+		const http = host.switchToHttp();
+		const request = http.getRequest<{ url?: string; originalUrl?: string }>();
+		const response = http.getResponse<ProblemResponse>();
+
+		const raw = response.raw ?? (response as unknown as ServerResponse);
+		if (raw.headersSent) {
+			this.logger.warn(`Aborting a response already in progress: ${exception.message}`);
+			raw.destroy();
+			return;
+		}
+
+		const problem = toProblemDetails(exception, request.originalUrl ?? request.url);
+		response.status(problem.status).type(NDJSON_PROBLEM_CONTENT_TYPE).send(JSON.stringify(problem));
+	}
+}
+
+/**
+ * Describes an exception as problem details, adding the members specific to
+ * its class.
+ */
+function toProblemDetails(exception: HttpException, instance?: string): NdJsonProblemDetails {
+	const status = exception.getStatus();
+	const body = exception.getResponse();
+	const title = typeof body === 'object' && typeof (body as { error?: unknown }).error === 'string'
+		? (body as { error: string }).error
+		: exception.name;
+	const problem: NdJsonProblemDetails = { type: 'about:blank', title, status, detail: exception.message };
+	if (instance !== undefined) problem.instance = instance;
+
+	if (exception instanceof NdJsonParseError) {
+		if (exception.itemNumber !== undefined) problem.itemNumber = exception.itemNumber;
+		if (exception.byteOffset !== undefined) problem.byteOffset = exception.byteOffset;
+	} else if (exception instanceof NdJsonValidationError) {
+		problem.itemNumber = exception.itemNumber;
+		problem.errors = exception.errors;
+	} else if (exception instanceof NdJsonLimitExceededError) {
+		problem.limit = exception.limit;
+		problem.max = exception.max;
+	} else if (exception instanceof NdJsonTimeoutError) {
+		problem.timeout = exception.timeout;
+		problem.ms = exception.ms;
+	} else if (exception instanceof NdJsonIntegrityError) {
+		problem.check = exception.check;
+		problem.expected = exception.expected;
+		problem.actual = exception.actual;
+	} else if (exception instanceof NdJsonHeaderError) {
+		problem.header = exception.header;
+	} else if (exception instanceof NdJsonResumeConflictError) {
+		problem.uploadId = exception.uploadId;
+		problem.checkpoint = exception.checkpoint;
+	}
+	return problem;
+}
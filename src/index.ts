@@ -1,3 +1,13 @@
 export * from './decorators/ndjson-stream.decorator';
+export * from './decorators/ndjson-stream-res.decorator';
+export * from './errors/ndjson-stream.errors';
+export * from './filters/ndjson-stream-exception.filter';
+export * from './interceptors/ndjson-stream.interceptor';
+export * from './ndjson-stream.constants';
+export * from './ndjson-stream.module';
+export * from './services/ndjson-checkpoint-store.service';
+export * from './services/ndjson-stream-parser.service';
 export * from './types/ndjson-stream';
+export * from './utils/fastify';
+export { createNdJsonDecoder } from './utils/line-decoder';
 
@@ -0,0 +1,27 @@
+import { CallHandler, ExecutionContext, Inject, Injectable, NestInterceptor, Optional } from '@nestjs/common';
+import { Observable } from 'rxjs';
+
+import { NdJsonStreamModuleOptions } from '../decorators/ndjson-stream.decorator';
+import { NDJSON_STREAM_MODULE_OPTIONS } from '../ndjson-stream.module-definition';
+import { runWithNdJsonStreamDefaults } from '../utils/module-defaults';
+
+/**
+ * Global interceptor registered by `NdJsonStreamModule` that makes the
+ * application's defaults visible to every `@NdJsonStreamReq()` it handles.
+ *
+ * Nest resolves a handler's parameters inside the interceptor chain, so the
+ * decorator, and the handler reading the body, run with these defaults
+ * rather than those of another application in the same process.
+ */
+@Injectable()
+export class NdJsonStreamDefaultsInterceptor implements NestInterceptor {
+	private readonly defaults: Readonly<NdJsonStreamModuleOptions>;
+
+	constructor(@Optional() @Inject(NDJSON_STREAM_MODULE_OPTIONS) options?: NdJsonStreamModuleOptions) {
+		this.defaults = Object.freeze({ ...options });
+	}
+
+	intercept(_context: ExecutionContext, next: CallHandler): Observable<unknown> {
+		return runWithNdJsonStreamDefaults(this.defaults, () => next.handle());
+	}
+}
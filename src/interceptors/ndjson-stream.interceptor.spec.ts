@@ -0,0 +1,171 @@
+import { BadRequestException, Controller, Get, INestApplication } from '@nestjs/common';
+import { ExpressAdapter } from '@nestjs/platform-express';
+import { FastifyAdapter } from '@nestjs/platform-fastify';
+import { Test } from '@nestjs/testing';
+import { interval, map, Observable, of, take } from 'rxjs';
+import { NdJsonStreamRes } from '../decorators/ndjson-stream-res.decorator';
+
+const sourceClosed = jest.fn();
+
+@Controller('export')
+class ExportController {
+	@Get('generator')
+	@NdJsonStreamRes()
+	async* generator() {
+		yield { id: 1 };
+		yield { id: 2 };
+	}
+
+	@Get('observable')
+	@NdJsonStreamRes()
+	observable(): Observable<{ id: number }> {
+		return of({ id: 1 }, { id: 2 }, { id: 3 });
+	}
+
+	@Get('empty')
+	@NdJsonStreamRes()
+	async* empty() {
+		// yields nothing
+	}
+
+	@Get('fails-immediately')
+	@NdJsonStreamRes()
+	async* failsImmediately() {
+		throw new BadRequestException('bad export');
+	}
+
+	@Get('fails-midway')
+	@NdJsonStreamRes()
+	async* failsMidway() {
+		yield { id: 1 };
+		throw new BadRequestException('broke at 2');
+	}
+
+	@Get('fails-unexpectedly')
+	@NdJsonStreamRes()
+	async* failsUnexpectedly() {
+		yield { id: 1 };
+		throw new Error('secret internals');
+	}
+
+	@Get('endless')
+	@NdJsonStreamRes()
+	async* endless() {
+		try {
+			for (let id = 0; ; id++) {
+				yield { id, padding: 'x'.repeat(1024) };
+			}
+		} finally {
+			sourceClosed();
+		}
+	}
+
+	@Get('endless-observable')
+	@NdJsonStreamRes()
+	endlessObservable(): Observable<{ id: number }> {
+		return new Observable<{ id: number }>((subscriber) => {
+			const subscription = interval(1).pipe(map((id) => ({ id }))).subscribe(subscriber);
+			return () => {
+				subscription.unsubscribe();
+				sourceClosed();
+			};
+		});
+	}
+
+	@Get('slow-observable')
+	@NdJsonStreamRes()
+	slowObservable(): Observable<{ id: number }> {
+		return interval(5).pipe(take(3), map((id) => ({ id })));
+	}
+}
+
+describe.each([
+	['express', () => new ExpressAdapter()],
+	['fastify', () => new FastifyAdapter({ forceCloseConnections: true })],
+])('NdJsonStreamInterceptor on %s', (_platform, createAdapter) => {
+	let app: INestApplication;
+	let baseUrl: string;
+
+	beforeAll(async () => {
+		const module = await Test.createTestingModule({ controllers: [ExportController] }).compile();
+		app = module.createNestApplication(createAdapter(), { logger: false });
+		await app.listen(0, '127.0.0.1');
+		baseUrl = await app.getUrl();
+	});
+
+	afterAll(async () => {
+		await app.close();
+	});
+
+	beforeEach(() => {
+		sourceClosed.mockClear();
+	});
+
+	const get = (path: string, init?: RequestInit) => fetch(`${baseUrl}/export/${path}`, init);
+
+	it('should stream an async generator as NDJSON', async () => {
+		const response = await get('generator');
+
+		expect(response.status).toBe(200);
+		expect(response.headers.get('content-type')).toContain('application/x-ndjson');
+		await expect(response.text()).resolves.toBe('{"id":1}\n{"id":2}\n');
+	});
+
+	it('should stream an Observable as NDJSON', async () => {
+		const response = await get('observable');
+
+		await expect(response.text()).resolves.toBe('{"id":1}\n{"id":2}\n{"id":3}\n');
+	});
+
+	it('should stream an Observable that emits over time', async () => {
+		const response = await get('slow-observable');
+
+		await expect(response.text()).resolves.toBe('{"id":0}\n{"id":1}\n{"id":2}\n');
+	});
+
+	it('should send an empty body when the source yields nothing', async () => {
+		const response = await get('empty');
+
+		expect(response.status).toBe(200);
+		await expect(response.text()).resolves.toBe('');
+	});
+
+	it('should report a failure before the first item as an HTTP error', async () => {
+		const response = await get('fails-immediately');
+
+		expect(response.status).toBe(400);
+		await expect(response.json()).resolves.toMatchObject({ message: 'bad export' });
+	});
+
+	it('should report a mid-stream failure as a final error line', async () => {
+		const response = await get('fails-midway');
+
+		expect(response.status).toBe(200);
+		await expect(response.text()).resolves.toBe(
+			'{"id":1}\n{"error":{"statusCode":400,"message":"broke at 2"}}\n'
+		);
+	});
+
+	it('should not leak the message of unexpected errors', async () => {
+		const response = await get('fails-unexpectedly');
+
+		await expect(response.text()).resolves.toBe(
+			'{"id":1}\n{"error":{"statusCode":500,"message":"Internal server error"}}\n'
+		);
+	});
+
+	it.each(['endless', 'endless-observable'])('should close the %s source when the client disconnects', async (path) => {
+		const controller = new AbortController();
+		const response = await get(path, { signal: controller.signal });
+		const reader = response.body!.getReader();
+		await reader.read();
+
+		controller.abort();
+
+		await new Promise<void>((resolve) => {
+			const check = () => (sourceClosed.mock.calls.length > 0 ? resolve() : setTimeout(check, 5));
+			check();
+		});
+		expect(sourceClosed).toHaveBeenCalledTimes(1);
+	});
+});
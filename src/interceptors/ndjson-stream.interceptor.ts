@@ -0,0 +1,138 @@
+import {
+	CallHandler,
+	ExecutionContext,
+	HttpException,
+	Injectable,
+	Logger,
+	NestInterceptor,
+	StreamableFile,
+} from '@nestjs/common';
+import { ServerResponse } from 'http';
+import { from, Observable } from 'rxjs';
+import { Readable } from 'stream';
+
+/**
+ * The line written in place of the remaining items when a response stream
+ * fails after it has started.
+ */
+export interface NdJsonStreamErrorLine {
+	error: {
+		statusCode: number;
+		message: string;
+		/**
+		 * Line number of the input item that failed, for errors raised while
+		 * parsing or validating an NDJSON request body.
+		 */
+		itemNumber?: number;
+	};
+}
+
+/**
+ * Interceptor that streams a handler's result back as NDJSON.
+ *
+ * The handler may return an `AsyncIterable<T>` (such as an async generator) or
+ * an `Observable<T>`; each item is written as one line of an
+ * `application/x-ndjson` response. Items are pulled only as fast as the client
+ * reads them, and the source is closed (or unsubscribed) as soon as the client
+ * disconnects.
+ *
+ * If the source fails before its first item, the error propagates as a normal
+ * HTTP error response. Once streaming has started the status line has been
+ * sent, so a later failure is reported as a final `NdJsonStreamErrorLine`
+ * before the response ends.
+ */
+@Injectable()
+export class NdJsonStreamInterceptor implements NestInterceptor {
+	private readonly logger = new Logger(NdJsonStreamInterceptor.name);
+
+	intercept(context: ExecutionContext, next: CallHandler): Observable<StreamableFile> {
+		const response = context.switchToHttp().getResponse<{ raw?: ServerResponse } & ServerResponse>();
+		return from(this.stream(next.handle(), response.raw ?? response));
+	}
+
+	private async stream(result$: Observable<unknown>, response: ServerResponse): Promise<StreamableFile> {
+		const items = flatten(fromObservable(result$));
+
+		// Pull the first item up front so an immediate failure can still be
+		// reported with a proper status code.
+		const first = await items.next();
+
+		const readable = Readable.from(this.serialize(first, items));
+		response.once('close', () => readable.destroy());
+		return new StreamableFile(readable, { type: 'application/x-ndjson' });
+	}
+
+	private async* serialize(first: IteratorResult<unknown>, items: AsyncGenerator<unknown>): AsyncGenerator<string> {
+		if (first.done) return;
+		try {
+			yield JSON.stringify(first.value) + '\n';
+			for await (const item of items) {
+				yield JSON.stringify(item) + '\n';
+			}
+		} catch (error) {
+			yield JSON.stringify(this.toErrorLine(error)) + '\n';
+		} finally {
+			await items.return(undefined);
+		}
+	}
+
+	private toErrorLine(error: unknown): NdJsonStreamErrorLine {
+		const itemNumber = (error as { itemNumber?: unknown } | undefined)?.itemNumber;
+		const location = typeof itemNumber === 'number' ? { itemNumber } : {};
+		if (error instanceof HttpException) {
+			return { error: { statusCode: error.getStatus(), message: error.message, ...location } };
+		}
+		// Like Nest's default exception handler, don't leak unexpected errors
+		this.logger.error(error instanceof Error ? error.stack : String(error));
+		return { error: { statusCode: 500, message: 'Internal server error', ...location } };
+	}
+}
+
+/**
+ * Converts an Observable into an async generator, buffering values the
+ * consumer has not pulled yet. Closing the generator unsubscribes.
+ */
+async function* fromObservable<T>(source$: Observable<T>): AsyncGenerator<T> {
+	const queue: T[] = [];
+	let completed = false;
+	let failure: { error: unknown } | undefined;
+	let wake: (() => void) | undefined;
+
+	const subscription = source$.subscribe({
+		next: (value) => { queue.push(value); wake?.(); },
+		error: (error) => { failure = { error }; wake?.(); },
+		complete: () => { completed = true; wake?.(); },
+	});
+
+	try {
+		while (true) {
+			if (queue.length > 0) {
+				yield queue.shift() as T;
+			} else if (failure) {
+				throw failure.error;
+			} else if (completed) {
+				return;
+			} else {
+				await new Promise<void>((resolve) => { wake = resolve; });
+				wake = undefined;
+			}
+		}
+	} finally {
+		subscription.unsubscribe();
+	}
+}
+
+/**
+ * Yields the items of every value that is itself an async iterable, and every
+ * other value as-is. A handler returning an async generator reaches the
+ * interceptor as a single emission holding the generator.
+ */
+async function* flatten(values: AsyncIterable<unknown>): AsyncGenerator<unknown> {
+	for await (const value of values) {
+		if (value != null && typeof (value as AsyncIterable<unknown>)[Symbol.asyncIterator] === 'function') {
+			yield* value as AsyncIterable<unknown>;
+		} else {
+			yield value;
+		}
+	}
+}
@@ -0,0 +1,68 @@
+import { NdJsonMultipartLimits, NdJsonStreamLimits } from './types/ndjson-stream';
+
+/**
+ * Limits applied when none are configured. Lines are capped so a client that
+ * never sends a newline cannot grow the parser's buffer without bound, and
+ * compressed bodies so a small one cannot inflate without bound; item count
+ * and body size are unlimited.
+ */
+export const NDJSON_STREAM_DEFAULT_LIMITS: Readonly<Required<NdJsonStreamLimits>> = Object.freeze({
+	maxLineBytes: 1024 * 1024,
+	maxItems: Infinity,
+	maxBodyBytes: Infinity,
+	maxInflationRatio: 100,
+});
+
+/**
+ * Limits applied to `multipart/form-data` bodies when none are configured.
+ */
+export const NDJSON_MULTIPART_DEFAULT_LIMITS: Readonly<Required<NdJsonMultipartLimits>> = Object.freeze({
+	maxParts: 100,
+	maxFieldBytes: 1024 * 1024,
+});
+
+/**
+ * Batch size used by `request.batches()` when none is configured.
+ */
+export const NDJSON_STREAM_DEFAULT_BATCH_SIZE = 25;
+
+/**
+ * How many items are yielded between progress reports when neither
+ * `progressItems` nor `progressIntervalMs` is configured.
+ */
+export const NDJSON_STREAM_DEFAULT_PROGRESS_ITEMS = 1000;
+
+/**
+ * Media types accepted when none are configured.
+ */
+export const NDJSON_STREAM_DEFAULT_CONTENT_TYPES: readonly string[] = Object.freeze(['application/x-ndjson']);
+
+/**
+ * Metadata key under which `@NdJsonStreamReq()` records the index of the
+ * parameter it decorates, on the controller class and method name.
+ */
+export const NDJSON_STREAM_PARAM_METADATA = 'ndjson-stream:param';
+
+/**
+ * Request header naming a resumable upload, so its progress can be committed
+ * and resumed.
+ */
+export const NDJSON_UPLOAD_ID_HEADER = 'ndjson-upload-id';
+
+/**
+ * Request header giving the committed position a resumed upload's body
+ * starts after: an item number (`1000`) or a byte offset (`bytes=52344`).
+ */
+export const NDJSON_RESUME_FROM_HEADER = 'ndjson-resume-from';
+
+/**
+ * Request header, or trailer, giving the number of items in the body, so a
+ * route with `verify` can check none were lost or added.
+ */
+export const NDJSON_ITEM_COUNT_HEADER = 'ndjson-item-count';
+
+/**
+ * Media type of the RFC 9457 error responses written by
+ * `NdJsonStreamExceptionFilter`.
+ */
+export const NDJSON_PROBLEM_CONTENT_TYPE = 'application/problem+json';
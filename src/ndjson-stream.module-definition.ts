@@ -0,0 +1,14 @@
+import { ConfigurableModuleBuilder } from '@nestjs/common';
+
+import { NdJsonStreamModuleOptions } from './decorators/ndjson-stream.decorator';
+
+export const {
+	ConfigurableModuleClass,
+	MODULE_OPTIONS_TOKEN: NDJSON_STREAM_MODULE_OPTIONS,
+	OPTIONS_TYPE,
+	ASYNC_OPTIONS_TYPE,
+} = new ConfigurableModuleBuilder<NdJsonStreamModuleOptions>()
+	.setClassMethodName('forRoot')
+	.setFactoryMethodName('createNdJsonStreamOptions')
+	.setExtras({ isGlobal: false }, (definition, extras) => ({ ...definition, global: extras.isGlobal }))
+	.build();
@@ -0,0 +1,176 @@
+import { Controller, INestApplication, Injectable, Module, ModuleMetadata, Post } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { Readable } from 'stream';
+import { NdJsonStreamReq } from './decorators/ndjson-stream.decorator';
+import { NdJsonLimitExceededError } from './errors/ndjson-stream.errors';
+import { NDJSON_STREAM_DEFAULT_BATCH_SIZE } from './ndjson-stream.constants';
+import { NdJsonStreamModule } from './ndjson-stream.module';
+import { NdJsonStreamParser } from './services/ndjson-stream-parser.service';
+import { NdJsonStreamRequest } from './types/ndjson-stream';
+
+@Injectable()
+class ConfigService {
+	readonly maxItems = 2;
+}
+
+@Module({ providers: [ConfigService], exports: [ConfigService] })
+class ConfigModule {}
+
+@Controller('import')
+class ImportController {
+	@Post()
+	async import(@NdJsonStreamReq() request: NdJsonStreamRequest) {
+		let items = 0;
+		for await (const _item of request.body) items++;
+		return { batchSize: request.batchSize, items };
+	}
+}
+
+const collect = async <T>(source: AsyncIterable<T>): Promise<T[]> => {
+	const items: T[] = [];
+	for await (const item of source) items.push(item);
+	return items;
+};
+
+/**
+ * Starts an app importing the given modules, serving `ImportController`.
+ */
+const createApp = async (imports: ModuleMetadata['imports']): Promise<INestApplication> => {
+	const testingModule = await Test.createTestingModule({ imports, controllers: [ImportController] }).compile();
+	const app = testingModule.createNestApplication({ logger: false });
+	await app.listen(0, '127.0.0.1');
+	return app;
+};
+
+const post = async (app: INestApplication, body: string, contentType = 'application/x-ndjson') => fetch(`${await app.getUrl()}/import`, {
+	method: 'POST',
+	headers: { 'content-type': contentType },
+	body,
+});
+
+describe('NdJsonStreamModule', () => {
+	let module: TestingModule | undefined;
+	let apps: INestApplication[] = [];
+
+	afterEach(async () => {
+		await module?.close();
+		module = undefined;
+		await Promise.all(apps.map((app) => app.close()));
+		apps = [];
+	});
+
+	const start = async (imports: ModuleMetadata['imports']) => {
+		const app = await createApp(imports);
+		apps.push(app);
+		return app;
+	};
+
+	it('should set app-wide defaults with forRoot', async () => {
+		const app = await start([NdJsonStreamModule.forRoot({ batchSize: 10, maxItems: 100, contentTypes: ['application/jsonl'] })]);
+
+		const response = await post(app, '{"id":1}\n{"id":2}\n', 'application/jsonl');
+
+		expect(response.status).toBe(201);
+		await expect(response.json()).resolves.toEqual({ batchSize: 10, items: 2 });
+		expect((await post(app, '{"id":1}\n')).status).toBe(415);
+	});
+
+	it('should set app-wide defaults with forRootAsync', async () => {
+		const app = await start([NdJsonStreamModule.forRootAsync({
+			imports: [ConfigModule],
+			inject: [ConfigService],
+			useFactory: async (config: ConfigService) => ({ maxItems: config.maxItems }),
+		})]);
+
+		expect((await post(app, '{"id":1}\n{"id":2}\n')).status).toBe(201);
+		expect((await post(app, '{"id":1}\n{"id":2}\n{"id":3}\n')).status).toBe(413);
+	});
+
+	it('should apply the defaults when registered globally', async () => {
+		const app = await start([NdJsonStreamModule.forRoot({ batchSize: 5, isGlobal: true })]);
+
+		await expect((await post(app, '{"id":1}\n')).json()).resolves.toEqual({ batchSize: 5, items: 1 });
+	});
+
+	it('should keep the defaults of each app to itself', async () => {
+		const [small, large, plain] = await Promise.all([
+			start([NdJsonStreamModule.forRoot({ batchSize: 10 })]),
+			start([NdJsonStreamModule.forRoot({ batchSize: 20 })]),
+			start([]),
+		]);
+
+		const responses = await Promise.all([small, large, plain].map((app) => post(app, '{"id":1}\n')));
+
+		await expect(Promise.all(responses.map((response) => response.json()))).resolves.toEqual([
+			{ batchSize: 10, items: 1 },
+			{ batchSize: 20, items: 1 },
+			{ batchSize: NDJSON_STREAM_DEFAULT_BATCH_SIZE, items: 1 },
+		]);
+	});
+
+	it('should work without forRoot', async () => {
+		module = await Test.createTestingModule({ imports: [NdJsonStreamModule] }).compile();
+
+		expect(module.get(NdJsonStreamParser)).toBeInstanceOf(NdJsonStreamParser);
+		const app = await start([NdJsonStreamModule]);
+		await expect((await post(app, '{"id":1}\n')).json()).resolves.toEqual({ batchSize: NDJSON_STREAM_DEFAULT_BATCH_SIZE, items: 1 });
+	});
+
+	describe('injectable NdJsonStreamParser', () => {
+		let parser: NdJsonStreamParser;
+
+		beforeEach(async () => {
+			module = await Test.createTestingModule({
+				imports: [NdJsonStreamModule.forRoot({ batchSize: 2, maxItems: 3, onError: 'skip' })],
+			}).compile();
+			parser = module.get(NdJsonStreamParser);
+		});
+
+		it('should apply the module defaults to parseStream', async () => {
+			const source = Readable.from(['{"id":1}\nbad\n{"id":2}\n{"id":3}\n{"id":4}\n']);
+
+			await expect(collect(parser.parseStream(source))).rejects.toBeInstanceOf(NdJsonLimitExceededError);
+		});
+
+		it('should let per-call options override the module defaults', async () => {
+			const source = Readable.from(['{"id":1}\nbad\n{"id":2}\n{"id":3}\n{"id":4}\n']);
+
+			await expect(collect(parser.parseStream(source, { maxItems: 10 }))).resolves.toEqual([
+				{ id: 1 }, { id: 2 }, { id: 3 }, { id: 4 },
+			]);
+		});
+
+		it('should apply the module defaults to createParser', (done) => {
+			const result: unknown[] = [];
+			const transform = parser.createParser();
+
+			transform.on('data', (item) => result.push(item));
+			transform.on('end', () => {
+				expect(result).toEqual([{ id: 1 }, { id: 2 }]);
+				done();
+			});
+
+			transform.end('{"id":1}\nbad\n{"id":2}\n');
+		});
+
+		it('should apply the module decoder', async () => {
+			await module?.close();
+			module = await Test.createTestingModule({
+				imports: [NdJsonStreamModule.forRoot({ decoder: { bigInt: 'string' } })],
+			}).compile();
+
+			const source = Readable.from(['{"id":9007199254740993}\n']);
+
+			await expect(collect(module.get(NdJsonStreamParser).parseStream(source))).resolves.toEqual([
+				{ id: '9007199254740993' },
+			]);
+		});
+
+		it('should batch by the module batch size', async () => {
+			const source = Readable.from([1, 2, 3]);
+
+			await expect(collect(parser.batch(source))).resolves.toEqual([[1, 2], [3]]);
+			await expect(collect(parser.batch(Readable.from([1, 2, 3]), 3))).resolves.toEqual([[1, 2, 3]]);
+		});
+	});
+});
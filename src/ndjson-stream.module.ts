@@ -0,0 +1,26 @@
+import { Module } from '@nestjs/common';
+import { APP_INTERCEPTOR } from '@nestjs/core';
+
+import { NdJsonStreamDefaultsInterceptor } from './interceptors/ndjson-stream-defaults.interceptor';
+import { ConfigurableModuleClass } from './ndjson-stream.module-definition';
+import { NdJsonStreamParser } from './services/ndjson-stream-parser.service';
+
+/**
+ * Sets app-wide defaults for `@NdJsonStreamReq()` and provides an injectable
+ * `NdJsonStreamParser` that applies them to non-HTTP sources.
+ *
+ * Register it once with `forRoot()` or `forRootAsync()`. The defaults apply to
+ * every `@NdJsonStreamReq()` in the app, with per-route options merged over
+ * them; `isGlobal: true` additionally makes the parser injectable everywhere.
+ * They are held per application, by a global interceptor, so several apps in
+ * one process may use different defaults. Microservices connected to a hybrid
+ * application need `inheritAppConfig: true` to pick them up.
+ */
+@Module({
+	providers: [
+		NdJsonStreamParser,
+		{ provide: APP_INTERCEPTOR, useClass: NdJsonStreamDefaultsInterceptor },
+	],
+	exports: [NdJsonStreamParser],
+})
+export class NdJsonStreamModule extends ConfigurableModuleClass {}
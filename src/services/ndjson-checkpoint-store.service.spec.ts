@@ -0,0 +1,29 @@
+import { InMemoryNdJsonCheckpointStore } from './ndjson-checkpoint-store.service';
+
+describe('InMemoryNdJsonCheckpointStore', () => {
+	it('should save, return and delete checkpoints by upload ID', () => {
+		const store = new InMemoryNdJsonCheckpointStore();
+
+		store.set('a', { itemNumber: 1, byteOffset: 9 });
+		store.set('a', { itemNumber: 2, byteOffset: 18 });
+
+		expect(store.get('a')).toEqual({ itemNumber: 2, byteOffset: 18 });
+		expect(store.get('b')).toBeUndefined();
+
+		store.delete('a');
+		expect(store.get('a')).toBeUndefined();
+	});
+
+	it('should forget the least recently saved upload beyond maxUploads', () => {
+		const store = new InMemoryNdJsonCheckpointStore(2);
+
+		store.set('a', { itemNumber: 1, byteOffset: 9 });
+		store.set('b', { itemNumber: 1, byteOffset: 9 });
+		store.set('a', { itemNumber: 2, byteOffset: 18 });
+		store.set('c', { itemNumber: 1, byteOffset: 9 });
+
+		expect(store.get('b')).toBeUndefined();
+		expect(store.get('a')).toEqual({ itemNumber: 2, byteOffset: 18 });
+		expect(store.get('c')).toEqual({ itemNumber: 1, byteOffset: 9 });
+	});
+});
@@ -0,0 +1,38 @@
+import { Injectable } from '@nestjs/common';
+
+import { NdJsonCheckpoint, NdJsonCheckpointStore } from '../types/ndjson-stream';
+
+/**
+ * Keeps the committed positions of resumable uploads in process memory.
+ *
+ * The default store for `resumable` routes. Positions are lost on restart and
+ * are not shared between instances, so use a store backed by shared storage
+ * when either matters. To bound memory, the least recently saved upload is
+ * forgotten once `maxUploads` are held.
+ */
+@Injectable()
+export class InMemoryNdJsonCheckpointStore implements NdJsonCheckpointStore {
+	private readonly checkpoints = new Map<string, NdJsonCheckpoint>();
+
+	/**
+	 * @param maxUploads - How many uploads to remember (default: 10000)
+	 */
+	constructor(private readonly maxUploads = 10_000) {}
+
+	get(uploadId: string): NdJsonCheckpoint | undefined {
+		return this.checkpoints.get(uploadId);
+	}
+
+	set(uploadId: string, checkpoint: NdJsonCheckpoint): void {
+		// Re-insert so the Map's iteration order is least recently saved first
+		this.checkpoints.delete(uploadId);
+		this.checkpoints.set(uploadId, { ...checkpoint });
+		if (this.checkpoints.size > this.maxUploads) {
+			this.checkpoints.delete(this.checkpoints.keys().next().value as string);
+		}
+	}
+
+	delete(uploadId: string): void {
+		this.checkpoints.delete(uploadId);
+	}
+}
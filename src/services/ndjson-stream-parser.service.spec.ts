@@ -1,6 +1,20 @@
-import { Readable, Transform } from 'stream';
+import { EventEmitter } from 'events';
+import { createHash } from 'node:crypto';
+import { Readable, Transform, Writable } from 'stream';
+import { finished } from 'stream/promises';
+import { brotliCompressSync, deflateSync, gzipSync } from 'node:zlib';
+import { BadRequestException } from '@nestjs/common';
 import { Test } from '@nestjs/testing';
 import { NdJsonStreamParser } from './ndjson-stream-parser.service';
+import {
+	NdJsonAbortedError,
+	NdJsonIntegrityError,
+	NdJsonLimitExceededError,
+	NdJsonParseError,
+	NdJsonTimeoutError,
+	NdJsonValidationError,
+} from '../errors/ndjson-stream.errors';
+import { NDJSON_STREAM_DEFAULT_LIMITS } from '../ndjson-stream.constants';
 
 describe('NdJsonStreamParser', () => {
 	describe('createParser', () => {
@@ -117,7 +131,8 @@ describe('NdJsonStreamParser', () => {
 			parser.on('data', (chunk) => result.push(chunk));
 			parser.on('error', (err: Error) => {
 				expect(result).toHaveLength(0);
-				expect(err).toBeInstanceOf(Error);
+				expect(err).toBeInstanceOf(NdJsonParseError);
+				expect((err as NdJsonParseError).getStatus()).toBe(400);
 				expect(err.message).toContain('Failed to parse NDJSON line 1');
 				expect((err as any).line).toBe('invalid json');
 				expect((err as any).itemNumber).toBe(1);
@@ -260,23 +275,786 @@ describe('NdJsonStreamParser', () => {
 			parser.end();
 		});
 
-		it('should emit error from flush when stream ends mid-multi-byte UTF-8 sequence', (done) => {
-			// Write first byte of '€' (0xE2) without completing the 3-byte sequence.
-			// StringDecoder buffers it; decoder.end() in flush emits U+FFFD, making JSON invalid.
-			const partial = Buffer.concat([
-				Buffer.from('{"text":"'),
-				Buffer.from([0xe2]), // first byte of €, sequence never completed
-			]);
+		it('should emit error from flush when stream ends mid-multi-byte UTF-8 sequence', (done) => {
+			// Write first byte of '€' (0xE2) without completing the 3-byte sequence.
+			// StringDecoder buffers it; decoder.end() in flush emits U+FFFD, making JSON invalid.
+			const partial = Buffer.concat([
+				Buffer.from('{"text":"'),
+				Buffer.from([0xe2]), // first byte of €, sequence never completed
+			]);
+
+			parser.on('error', (err: Error) => {
+				expect(err).toBeInstanceOf(Error);
+				expect(err.message).toMatch(/Failed to parse NDJSON line \d+:/);
+				expect((err as any).line).toContain('�');
+				done();
+			});
+
+			parser.write(partial);
+			parser.end();
+		});
+
+		it('should reject null items, which a stream cannot emit', (done) => {
+			const result: unknown[] = [];
+			const rejected: unknown[] = [];
+			const parser = NdJsonStreamParser.createParser({ onError: 'collect', onReject: ({ itemNumber }) => rejected.push(itemNumber) });
+
+			parser.on('data', (item) => result.push(item));
+			parser.on('end', () => {
+				expect(result).toEqual([1, 2]);
+				expect(rejected).toEqual([2]);
+				done();
+			});
+
+			parser.end('1\nnull\n2\n');
+		});
+	});
+
+	describe('createParser with validate', () => {
+		it('should emit the value returned by the validator', (done) => {
+			const result: any[] = [];
+			const parser = NdJsonStreamParser.createParser({
+				validate: async (value: any) => ({ ...value, checked: true }),
+			});
+
+			parser.on('data', (chunk) => result.push(chunk));
+			parser.on('end', () => {
+				expect(result).toEqual([{ id: 1, checked: true }, { id: 2, checked: true }]);
+				done();
+			});
+
+			parser.write('{"id":1}\n\n{"id":2}');
+			parser.end();
+		});
+
+		it('should preserve line order when validation resolves out of order', (done) => {
+			const result: any[] = [];
+			const parser = NdJsonStreamParser.createParser({
+				validate: (value: any) => new Promise((resolve) => setTimeout(() => resolve(value), value.delay)),
+			});
+
+			parser.on('data', (chunk) => result.push(chunk.id));
+			parser.on('end', () => {
+				expect(result).toEqual([1, 2, 3]);
+				done();
+			});
+
+			parser.write('{"id":1,"delay":15}\n{"id":2,"delay":0}\n{"id":3,"delay":5}\n');
+			parser.end();
+		});
+
+		it('should fail with NdJsonValidationError carrying line metadata', (done) => {
+			const result: any[] = [];
+			const parser = NdJsonStreamParser.createParser({
+				validate: (value: any) => {
+					if (typeof value.id !== 'number') throw new Error('id must be a number');
+					return value;
+				},
+			});
+
+			parser.on('data', (chunk) => result.push(chunk));
+			parser.on('error', (err: NdJsonValidationError) => {
+				expect(result).toEqual([{ id: 1 }]);
+				expect(err).toBeInstanceOf(NdJsonValidationError);
+				expect(err.getStatus()).toBe(400);
+				expect(err.line).toBe('{"id":"two"}');
+				expect(err.itemNumber).toBe(3);
+				expect(err.errors).toEqual(['id must be a number']);
+				expect(err.message).toBe('Validation failed for NDJSON line 3: id must be a number');
+				expect(err.cause).toBeInstanceOf(Error);
+				done();
+			});
+
+			parser.write('{"id":1}\n\n{"id":"two"}\n{"id":4}\n');
+			parser.end();
+		});
+
+		it('should report the item number of an unterminated final line', (done) => {
+			const parser = NdJsonStreamParser.createParser({
+				validate: () => { throw new Error('nope'); },
+			});
+
+			parser.on('error', (err: NdJsonValidationError) => {
+				expect(err.itemNumber).toBe(1);
+				expect(err.line).toBe('{"id":1}');
+				done();
+			});
+
+			parser.write('{"id":1}');
+			parser.end();
+		});
+	});
+
+	describe('createParser with a decoder', () => {
+		const parse = (input: string, options: Parameters<typeof NdJsonStreamParser.createParser>[0]) =>
+			new Promise<{ items: unknown[]; error?: any }>((resolve) => {
+				const items: unknown[] = [];
+				const parser = NdJsonStreamParser.createParser(options);
+				parser.on('data', (item) => items.push(item));
+				parser.on('end', () => resolve({ items }));
+				parser.on('error', (error) => resolve({ items, error }));
+				parser.end(input);
+			});
+
+		it('should decode lines with a custom decoder', async () => {
+			const decoder = jest.fn((line: string) => ({ text: line }));
+
+			const { items } = await parse('a\nb\n', { decoder });
+
+			expect(items).toEqual([{ text: 'a' }, { text: 'b' }]);
+		});
+
+		it('should decode lines with the built-in decoder options', async () => {
+			const { items } = await parse('{"id":9007199254740993,"__proto__":{"admin":true}}\n', {
+				decoder: { bigInt: 'bigint', protoPoisoning: 'remove' },
+			});
+
+			expect(items).toEqual([{ id: 9007199254740993n }]);
+		});
+
+		it('should treat lines the decoder throws on as malformed', async () => {
+			const onReject = jest.fn();
+
+			const { items, error } = await parse('{"id":1}\n{"__proto__":{}}\n{"id":3}\n', {
+				decoder: { protoPoisoning: 'error' },
+				onError: 'skip',
+				onReject,
+			});
+
+			expect(error).toBeUndefined();
+			expect(items).toEqual([{ id: 1 }, { id: 3 }]);
+			expect(onReject.mock.calls[0][0]).toMatchObject({ itemNumber: 2, line: '{"__proto__":{}}' });
+			expect(onReject.mock.calls[0][0].cause.message).toBe(
+				'Failed to parse NDJSON line 2: Forbidden key "__proto__" (prototype poisoning)'
+			);
+		});
+	});
+
+	describe('createParser with lenient error policies', () => {
+		it('should drop malformed lines in skip mode', (done) => {
+			const result: any[] = [];
+			const parser = NdJsonStreamParser.createParser({ onError: 'skip' });
+
+			parser.on('data', (chunk) => result.push(chunk));
+			parser.on('end', () => {
+				expect(result).toEqual([{ a: 1 }, { a: 3 }]);
+				done();
+			});
+
+			parser.write('{"a":1}\nnot json\n{"a":3}\n{broken');
+			parser.end();
+		});
+
+		it('should report each dropped line to onReject', (done) => {
+			const onReject = jest.fn();
+			const parser = NdJsonStreamParser.createParser({ onError: 'collect', onReject });
+
+			parser.resume();
+			parser.on('end', () => {
+				expect(onReject).toHaveBeenCalledTimes(2);
+				expect(onReject.mock.calls[0][0]).toEqual({
+					line: 'not json',
+					itemNumber: 2,
+					cause: expect.objectContaining({ message: expect.stringContaining('Failed to parse NDJSON line 2') }),
+				});
+				expect(onReject.mock.calls[1][0]).toMatchObject({ line: '{broken', itemNumber: 4 });
+				done();
+			});
+
+			parser.write('{"a":1}\nnot json\n{"a":3}\n{broken');
+			parser.end();
+		});
+
+		it('should drop lines that fail validation', (done) => {
+			const result: any[] = [];
+			const onReject = jest.fn();
+			const parser = NdJsonStreamParser.createParser({
+				onError: 'collect',
+				onReject,
+				validate: async (value: any) => {
+					if (value.a < 0) throw new Error('a must be positive');
+					return value;
+				},
+			});
+
+			parser.on('data', (chunk) => result.push(chunk));
+			parser.on('end', () => {
+				expect(result).toEqual([{ a: 1 }, { a: 2 }]);
+				expect(onReject).toHaveBeenCalledTimes(1);
+				expect(onReject.mock.calls[0][0].cause).toBeInstanceOf(NdJsonValidationError);
+				expect(onReject.mock.calls[0][0].itemNumber).toBe(2);
+				done();
+			});
+
+			parser.write('{"a":1}\n{"a":-1}\n{"a":2}\n');
+			parser.end();
+		});
+
+		it('should fail once more than maxErrors lines are rejected', (done) => {
+			const result: any[] = [];
+			const onReject = jest.fn();
+			const parser = NdJsonStreamParser.createParser({ onError: 'skip', maxErrors: 1, onReject });
+
+			parser.on('data', (chunk) => result.push(chunk));
+			parser.on('error', (err: any) => {
+				expect(result).toEqual([{ a: 1 }]);
+				expect(onReject).toHaveBeenCalledTimes(1);
+				expect(err.itemNumber).toBe(4);
+				expect(err.line).toBe('also bad');
+				done();
+			});
+
+			parser.write('{"a":1}\nbad\n\nalso bad\n{"a":5}\n');
+			parser.end();
+		});
+
+		it('should report the line number of each emitted item to onItem', (done) => {
+			const onItem = jest.fn();
+			const parser = NdJsonStreamParser.createParser({ onError: 'skip', onItem });
+
+			parser.on('data', () => undefined);
+			parser.on('end', () => {
+				expect(onItem.mock.calls).toEqual([[1], [4], [6]]);
+				done();
+			});
+
+			parser.write('{"a":1}\nbad\n\n{"a":4}\n\n{"a":6}');
+			parser.end();
+		});
+	});
+
+	describe('createParser with size limits', () => {
+		it('should fail as soon as an unterminated line exceeds maxLineBytes', (done) => {
+			const parser = NdJsonStreamParser.createParser({ maxLineBytes: 10 });
+
+			parser.on('error', (err: NdJsonLimitExceededError) => {
+				expect(err).toBeInstanceOf(NdJsonLimitExceededError);
+				expect(err.getStatus()).toBe(413);
+				expect(err.limit).toBe('maxLineBytes');
+				expect(err.max).toBe(10);
+				done();
+			});
+
+			// Never terminated, so only the buffered-partial check can catch it
+			parser.write('{"a":"0123456789"');
+		});
+
+		it('should measure maxLineBytes in UTF-8 bytes', (done) => {
+			const parser = NdJsonStreamParser.createParser({ maxLineBytes: 12 });
+
+			parser.on('error', (err: NdJsonLimitExceededError) => {
+				expect(err.limit).toBe('maxLineBytes');
+				done();
+			});
+
+			// 9 characters, but 13 bytes
+			parser.write('{"e":"€€"}\n');
+		});
+
+		it('should accept lines up to maxLineBytes', (done) => {
+			const result: any[] = [];
+			const parser = NdJsonStreamParser.createParser({ maxLineBytes: 9 });
+
+			parser.on('data', (chunk) => result.push(chunk));
+			parser.on('end', () => {
+				expect(result).toEqual([{ a: 123 }, { a: 456 }]);
+				done();
+			});
+
+			// Both lines are exactly 9 bytes; the second is only completed in flush
+			parser.write('{"a":123}\n{"a":456}');
+			parser.end();
+		});
+
+		it('should cap lines at the default maxLineBytes', (done) => {
+			const parser = NdJsonStreamParser.createParser();
+
+			parser.on('error', (err: NdJsonLimitExceededError) => {
+				expect(err.limit).toBe('maxLineBytes');
+				expect(err.max).toBe(NDJSON_STREAM_DEFAULT_LIMITS.maxLineBytes);
+				done();
+			});
+
+			parser.write('"' + 'x'.repeat(NDJSON_STREAM_DEFAULT_LIMITS.maxLineBytes));
+		});
+
+		it('should fail when the stream has more than maxItems items', (done) => {
+			const result: any[] = [];
+			const parser = NdJsonStreamParser.createParser({ maxItems: 2 });
+
+			parser.on('data', (chunk) => result.push(chunk));
+			parser.on('error', (err: NdJsonLimitExceededError) => {
+				expect(result).toEqual([{ a: 1 }, { a: 2 }]);
+				expect(err.limit).toBe('maxItems');
+				done();
+			});
+
+			parser.write('{"a":1}\n\n{"a":2}\n{"a":3}\n');
+			parser.end();
+		});
+
+		it('should fail when the body exceeds maxBodyBytes', (done) => {
+			const parser = NdJsonStreamParser.createParser({ maxBodyBytes: 16 });
+
+			parser.resume();
+			parser.on('error', (err: NdJsonLimitExceededError) => {
+				expect(err.limit).toBe('maxBodyBytes');
+				expect(err.max).toBe(16);
+				done();
+			});
+
+			parser.write(Buffer.from('{"a":1}\n{"a":2}\n'));
+			parser.write(Buffer.from('{"a":3}\n'));
+		});
+
+		it('should treat limits as fatal regardless of the error policy', (done) => {
+			const onReject = jest.fn();
+			const parser = NdJsonStreamParser.createParser({ onError: 'skip', onReject, maxItems: 1 });
+
+			parser.resume();
+			parser.on('error', (err: NdJsonLimitExceededError) => {
+				expect(err).toBeInstanceOf(NdJsonLimitExceededError);
+				expect(onReject).not.toHaveBeenCalled();
+				done();
+			});
+
+			parser.write('{"a":1}\n{"a":2}\n');
+			parser.end();
+		});
+	});
+
+	describe('createParser with json-seq framing', () => {
+		const RS = '\x1e';
+
+		const parse = (chunks: string[], options: Parameters<typeof NdJsonStreamParser.createParser>[0] = {}) =>
+			new Promise<{ items: unknown[]; error?: any }>((resolve) => {
+				const items: unknown[] = [];
+				const parser = NdJsonStreamParser.createParser({ framing: 'json-seq', ...options });
+				parser.on('data', (item) => items.push(item));
+				parser.on('end', () => resolve({ items }));
+				parser.on('error', (error) => resolve({ items, error }));
+				for (const chunk of chunks) parser.write(chunk);
+				parser.end();
+			});
+
+		it('should split records on the record separator, across chunks and lines', async () => {
+			const { items, error } = await parse([
+				`${RS}{"id":1}\n${RS}{\n  "id": 2,\n`,
+				`  "tags": ["a"]\n}\n${RS}"three"\n`,
+			]);
+
+			expect(error).toBeUndefined();
+			expect(items).toEqual([{ id: 1 }, { id: 2, tags: ['a'] }, 'three']);
+		});
+
+		it('should ignore consecutive record separators without counting them', async () => {
+			const onItem = jest.fn();
+
+			const { items } = await parse([`${RS}${RS}{"id":1}\n${RS}\n${RS}{"id":2}\n`], { onItem });
+
+			expect(items).toEqual([{ id: 1 }, { id: 2 }]);
+			expect(onItem.mock.calls).toEqual([[1], [2]]);
+		});
+
+		it('should accept a final object record without a trailing newline', async () => {
+			const { items, error } = await parse([`${RS}{"id":1}\n${RS}{"id":2}`]);
+
+			expect(error).toBeUndefined();
+			expect(items).toEqual([{ id: 1 }, { id: 2 }]);
+		});
+
+		it.each(['123', 'true', 'null'])('should treat a top-level %s without trailing whitespace as truncated', async (text) => {
+			const { items, error } = await parse([`${RS}{"id":1}\n${RS}${text}`]);
+
+			expect(items).toEqual([{ id: 1 }]);
+			expect(error.message).toBe('Truncated JSON text sequence record 2');
+			expect(error.itemNumber).toBe(2);
+		});
+
+		it('should accept top-level numbers followed by whitespace', async () => {
+			const { items } = await parse([`${RS}123\n${RS}false\n${RS}-1.5e3\t`]);
+
+			expect(items).toEqual([123, false, -1500]);
+		});
+
+		it('should continue past truncated and malformed records under a lenient policy', async () => {
+			const onReject = jest.fn();
+
+			const { items, error } = await parse([`${RS}12${RS}{"id":2}\n${RS}{"id":${RS}{"id":4}\n`], {
+				onError: 'skip',
+				onReject,
+			});
+
+			expect(error).toBeUndefined();
+			expect(items).toEqual([{ id: 2 }, { id: 4 }]);
+			expect(onReject.mock.calls.map(([rejected]) => rejected.itemNumber)).toEqual([1, 3]);
+		});
+
+		it('should apply maxLineBytes to whole records', async () => {
+			const { error } = await parse([`${RS}{\n"a": 1,\n"b": 2,\n"c": 3\n}\n`], { maxLineBytes: 16 });
+
+			expect(error).toBeInstanceOf(NdJsonLimitExceededError);
+		});
+	});
+
+	describe('createParser with json-array framing', () => {
+		const parse = (chunks: string[], options: Parameters<typeof NdJsonStreamParser.createParser>[0] = {}) =>
+			new Promise<{ items: unknown[]; error?: any }>((resolve) => {
+				const items: unknown[] = [];
+				const parser = NdJsonStreamParser.createParser({ framing: 'json-array', ...options });
+				parser.on('data', (item) => items.push(item));
+				parser.on('end', () => resolve({ items }));
+				parser.on('error', (error) => resolve({ items, error }));
+				for (const chunk of chunks) parser.write(chunk);
+				parser.end();
+			});
+
+		it('should emit each element of a top-level array, across chunks', async () => {
+			const onItem = jest.fn();
+
+			const { items, error } = await parse(['[{"id":1},{"id"', ':2},\n"three",[4]]'], { onItem });
+
+			expect(error).toBeUndefined();
+			expect(items).toEqual([{ id: 1 }, { id: 2 }, 'three', [4]]);
+			expect(onItem.mock.calls).toEqual([[1], [2], [3], [4]]);
+		});
+
+		it('should emit the elements of the array at arrayPath', async () => {
+			const { items } = await parse(['{"total":2,"items":[{"id":1},{"id":2}],"next":null}'], { arrayPath: '$.items' });
+
+			expect(items).toEqual([{ id: 1 }, { id: 2 }]);
+		});
+
+		it('should reject a malformed element with its byte offset', async () => {
+			const onReject = jest.fn();
+
+			const { items, error } = await parse(['[{"id":1}, {"id":tru}, {"id":3}]'], { onError: 'skip', onReject });
+
+			expect(error).toBeUndefined();
+			expect(items).toEqual([{ id: 1 }, { id: 3 }]);
+			expect(onReject.mock.calls[0][0].itemNumber).toBe(2);
+			expect(onReject.mock.calls[0][0].cause.message).toMatch(/^Failed to parse JSON array element 2 at byte 11: /);
+		});
+
+		it('should emit the elements before a structural error, then fail', async () => {
+			const { items, error } = await parse(['[{"id":1},{"id":2}', ' {"id":3}]']);
+
+			expect(items).toEqual([{ id: 1 }, { id: 2 }]);
+			expect(error).toBeInstanceOf(NdJsonParseError);
+			expect(error.byteOffset).toBe(19);
+			expect(error.message).toBe("Invalid JSON array body at byte 19: unexpected '{' in array");
+		});
+
+		it('should fail a document that ends early once its last elements are out', async () => {
+			const { items, error } = await parse(['[{"id":1},{"id":2}']);
+
+			expect(items).toEqual([{ id: 1 }, { id: 2 }]);
+			expect(error.message).toBe('Invalid JSON array body at byte 18: unexpected end of input');
+		});
+
+		it('should apply maxLineBytes to elements before they complete', async () => {
+			const { items, error } = await parse(['[{"id":1},{"name":"', 'x'.repeat(64)], { maxLineBytes: 32 });
+
+			expect(items).toEqual([{ id: 1 }]);
+			expect(error).toBeInstanceOf(NdJsonLimitExceededError);
+		});
+
+		it('should apply maxItems to elements', async () => {
+			const { error } = await parse(['[1,2,3]'], { maxItems: 2 });
+
+			expect(error).toBeInstanceOf(NdJsonLimitExceededError);
+		});
+	});
+
+	describe('createParser with envelopes', () => {
+		const parse = (chunks: string[], options: Parameters<typeof NdJsonStreamParser.createParser>[0] = {}) =>
+			new Promise<unknown[]>((resolve, reject) => {
+				const items: unknown[] = [];
+				const parser = NdJsonStreamParser.createParser({ envelope: true, ...options });
+				parser.on('data', (item) => items.push(item));
+				parser.on('end', () => resolve(items));
+				parser.on('error', reject);
+				for (const chunk of chunks) parser.write(chunk);
+				parser.end();
+			});
+
+		it('should wrap each item with its line number and byte range', async () => {
+			const items = await parse(['{"name":"é"}\n\n{"id"', ':2}\n{"id":3}']);
+
+			expect(items).toEqual([
+				{ value: { name: 'é' }, lineNumber: 1, byteOffset: 0, byteLength: 13 },
+				{ value: { id: 2 }, lineNumber: 3, byteOffset: 15, byteLength: 8 },
+				{ value: { id: 3 }, lineNumber: 4, byteOffset: 24, byteLength: 8 },
+			]);
+		});
+
+		it('should include the raw line when asked to', async () => {
+			const items = await parse(['{ "id": 1 }\n'], { envelope: { raw: true } });
+
+			expect(items).toEqual([{ value: { id: 1 }, lineNumber: 1, byteOffset: 0, byteLength: 11, raw: '{ "id": 1 }' }]);
+		});
+
+		it('should wrap the validated value', async () => {
+			const items = await parse(['{"id":1}\n'], { validate: (value) => ({ ...(value as object), valid: true }) });
+
+			expect(items).toEqual([{ value: { id: 1, valid: true }, lineNumber: 1, byteOffset: 0, byteLength: 8 }]);
+		});
+
+		it('should keep offsets and line numbers of later items past rejected lines', async () => {
+			const items = await parse(['bad\n{"id":2}\n'], { onError: 'skip' });
+
+			expect(items).toEqual([{ value: { id: 2 }, lineNumber: 2, byteOffset: 4, byteLength: 8 }]);
+		});
+
+		it('should measure JSON text sequence records after their separator', async () => {
+			const items = await parse(['\x1e{"id":1}\n\x1e\x1e{"id":2}\n'], { framing: 'json-seq' });
+
+			expect(items).toEqual([
+				{ value: { id: 1 }, lineNumber: 1, byteOffset: 1, byteLength: 9 },
+				{ value: { id: 2 }, lineNumber: 2, byteOffset: 12, byteLength: 9 },
+			]);
+		});
+
+		it('should measure JSON array elements without surrounding whitespace', async () => {
+			const items = await parse(['[ {"id":1},\n  {"id":2} ]'], { framing: 'json-array' });
+
+			expect(items).toEqual([
+				{ value: { id: 1 }, lineNumber: 1, byteOffset: 2, byteLength: 8 },
+				{ value: { id: 2 }, lineNumber: 2, byteOffset: 14, byteLength: 8 },
+			]);
+		});
+	});
+
+	describe('createParser when resuming', () => {
+		const parse = (chunks: string[], options: Parameters<typeof NdJsonStreamParser.createParser>[0] = {}) =>
+			new Promise<{ items: unknown[]; positions: unknown[][] }>((resolve, reject) => {
+				const items: unknown[] = [];
+				const positions: unknown[][] = [];
+				const parser = NdJsonStreamParser.createParser({ onItem: (...args) => positions.push(args), ...options });
+				parser.on('data', (item) => items.push(item));
+				parser.on('end', () => resolve({ items, positions }));
+				parser.on('error', reject);
+				for (const chunk of chunks) parser.write(chunk);
+				parser.end();
+			});
+
+		it('should continue item numbers and offsets from resumeFrom', async () => {
+			const { items, positions } = await parse(['{"id":3}\n{"id":4}\n'], {
+				resumeFrom: { itemNumber: 2, byteOffset: 18 },
+				envelope: true,
+			});
+
+			expect(items).toEqual([
+				{ value: { id: 3 }, lineNumber: 3, byteOffset: 18, byteLength: 8 },
+				{ value: { id: 4 }, lineNumber: 4, byteOffset: 27, byteLength: 8 },
+			]);
+			expect(positions).toEqual([
+				[3, { itemNumber: 3, byteOffset: 27 }],
+				[4, { itemNumber: 4, byteOffset: 36 }],
+			]);
+		});
+
+		it('should skip items through skipThrough without parsing them', async () => {
+			const { items, positions } = await parse(['{"id":1}\nnot json\n\n{"id":4}\n'], {
+				resumeFrom: { itemNumber: 0, byteOffset: 0 },
+				skipThrough: 3,
+				maxItems: 1,
+			});
+
+			expect(items).toEqual([{ id: 4 }]);
+			expect(positions).toEqual([[4, { itemNumber: 4, byteOffset: 28 }]]);
+		});
+
+		it('should report checkpoints at the next record separator of a text sequence', async () => {
+			const { positions } = await parse(['\x1e{"id":1}\n\x1e{"id":2}\n'], {
+				framing: 'json-seq',
+				resumeFrom: { itemNumber: 0, byteOffset: 0 },
+			});
+
+			expect(positions).toEqual([
+				[1, { itemNumber: 1, byteOffset: 10 }],
+				[2, { itemNumber: 2, byteOffset: 20 }],
+			]);
+		});
+
+		it('should not report checkpoints unless offsets are tracked', async () => {
+			const { positions } = await parse(['{"id":1}\n']);
+
+			expect(positions).toEqual([[1]]);
+		});
+	});
+
+	describe('createParser with a header', () => {
+		const parse = (input: string, options: Parameters<typeof NdJsonStreamParser.createParser>[0]) =>
+			new Promise<{ items: unknown[]; error?: any }>((resolve) => {
+				const items: unknown[] = [];
+				const parser = NdJsonStreamParser.createParser(options);
+				parser.on('data', (item) => items.push(item));
+				parser.on('end', () => resolve({ items }));
+				parser.on('error', (error) => resolve({ items, error }));
+				parser.end(input);
+			});
+
+		it('should pass the first line to onHeader instead of emitting it', async () => {
+			const onHeader = jest.fn();
+			const onItem = jest.fn();
+
+			const { items } = await parse('\n{"version":2}\n{"id":1}\n', { onHeader, onItem });
+
+			expect(onHeader).toHaveBeenCalledWith({ version: 2 });
+			expect(items).toEqual([{ id: 1 }]);
+			expect(onItem.mock.calls).toEqual([[3]]);
+		});
+
+		it('should not count the header as an item', async () => {
+			const { items, error } = await parse('{"version":2}\n{"id":1}\n{"id":2}\n', {
+				onHeader: jest.fn(),
+				maxItems: 2,
+				verify: { itemCount: 2 },
+			});
+
+			expect(error).toBeUndefined();
+			expect(items).toEqual([{ id: 1 }, { id: 2 }]);
+		});
+
+		it('should validate the header separately from the items', async () => {
+			const onHeader = jest.fn();
+			const validate = jest.fn((value) => ({ row: value }));
+			const validateHeader = jest.fn(async (value) => ({ header: value }));
+
+			const { items } = await parse('{"version":2}\n{"id":1}\n', { onHeader, validate, validateHeader });
+
+			expect(onHeader).toHaveBeenCalledWith({ header: { version: 2 } });
+			expect(validate).toHaveBeenCalledTimes(1);
+			expect(items).toEqual([{ row: { id: 1 } }]);
+		});
+
+		it.each([
+			['malformed', 'not json\n{"id":1}\n', NdJsonParseError],
+			['invalid', '{"version":1}\n{"id":1}\n', NdJsonValidationError],
+		])('should fail on a %s header whatever the error policy', async (_kind, input, errorType) => {
+			const validateHeader = (value: { version: number }) => {
+				if (value.version < 2) throw new Error('unsupported version');
+				return value;
+			};
+
+			const { items, error } = await parse(input, { onHeader: jest.fn(), validateHeader, onError: 'skip' });
+
+			expect(items).toEqual([]);
+			expect(error).toBeInstanceOf(errorType);
+			expect(error.itemNumber).toBe(1);
+		});
+
+		it('should read the header of a body resent in full, but not of one resumed part-way', async () => {
+			const onHeader = jest.fn();
+
+			const resent = await parse('{"version":2}\n{"id":1}\n{"id":2}\n', {
+				onHeader,
+				resumeFrom: { itemNumber: 0, byteOffset: 0 },
+				skipThrough: 2,
+			});
+			expect(onHeader).toHaveBeenCalledWith({ version: 2 });
+			expect(resent.items).toEqual([{ id: 2 }]);
+
+			onHeader.mockClear();
+			const resumed = await parse('{"id":3}\n', { onHeader, resumeFrom: { itemNumber: 2, byteOffset: 23 } });
+			expect(onHeader).not.toHaveBeenCalled();
+			expect(resumed.items).toEqual([{ id: 3 }]);
+		});
+	});
+
+	describe('createParser with stats', () => {
+		it('should count bytes, blank lines and rejected lines into the given stats', async () => {
+			const stats = { bytesRead: 0, itemsYielded: 0, blankLines: 0, errors: 0, elapsedMs: 0 };
+			const parser = NdJsonStreamParser.createParser({ stats, onError: 'skip' });
+			const items: unknown[] = [];
+			parser.on('data', (item) => items.push(item));
+
+			parser.write('{"a":1}\n\n');
+			expect(stats).toMatchObject({ bytesRead: 9, blankLines: 1, errors: 0 });
+			parser.end('bad\n\n{"a":2}');
+			await finished(parser);
+
+			expect(items).toEqual([{ a: 1 }, { a: 2 }]);
+			expect(stats).toEqual({ bytesRead: 21, itemsYielded: 0, blankLines: 2, errors: 1, elapsedMs: 0 });
+		});
+	});
+
+	describe('createParser with verify', () => {
+		const body = '{"id":1}\n\n{"id":2}\n';
+		const sha256 = (text: string) => createHash('sha256').update(text).digest();
+		const parse = (chunks: string[], options: Parameters<typeof NdJsonStreamParser.createParser>[0]) =>
+			new Promise<{ items: unknown[]; error?: any }>((resolve) => {
+				const items: unknown[] = [];
+				const parser = NdJsonStreamParser.createParser(options);
+				parser.on('data', (item) => items.push(item));
+				parser.on('end', () => resolve({ items }));
+				parser.on('error', (error) => resolve({ items, error }));
+				for (const chunk of chunks) parser.write(chunk);
+				parser.end();
+			});
+
+		it('should end normally when the item count and digest match', async () => {
+			const { items, error } = await parse(['{"id":1}\n\n', '{"id":2}\n'], {
+				verify: { itemCount: 2, sha256: sha256(body) },
+			});
+
+			expect(error).toBeUndefined();
+			expect(items).toEqual([{ id: 1 }, { id: 2 }]);
+		});
+
+		it('should fail after the last item when the item count differs', async () => {
+			const { items, error } = await parse([body], { verify: { itemCount: 3 } });
+
+			expect(items).toEqual([{ id: 1 }, { id: 2 }]);
+			expect(error).toBeInstanceOf(NdJsonIntegrityError);
+			expect(error.message).toBe('NDJSON body has 2 items, expected 3');
+			expect(error).toMatchObject({ check: 'itemCount', expected: 3, actual: 2 });
+		});
+
+		it('should count items that are rejected or skipped', async () => {
+			const { error } = await parse(['{"id":1}\nnot json\n{"id":3}\n'], {
+				verify: { itemCount: 3 },
+				onError: 'skip',
+				resumeFrom: { itemNumber: 0, byteOffset: 0 },
+				skipThrough: 1,
+			});
+
+			expect(error).toBeUndefined();
+		});
+
+		it('should fail when the digest differs', async () => {
+			const { items, error } = await parse([body], { verify: { sha256: sha256('{"id":1}\n') } });
+
+			expect(items).toHaveLength(2);
+			expect(error).toMatchObject({
+				check: 'sha256',
+				expected: sha256('{"id":1}\n').toString('base64'),
+				actual: sha256(body).toString('base64'),
+			});
+		});
+
+		it('should read expectations from a function once the stream has ended', async () => {
+			const verify = jest.fn(() => ({ sha256: sha256(body) }));
+			const parser = NdJsonStreamParser.createParser({ verify });
 
-			parser.on('error', (err: Error) => {
-				expect(err).toBeInstanceOf(Error);
-				expect(err.message).toMatch(/Failed to parse NDJSON line \d+:/);
-				expect((err as any).line).toContain('�');
-				done();
+			parser.write(body);
+			expect(verify).not.toHaveBeenCalled();
+
+			const { error } = await new Promise<{ error?: Error }>((resolve) => {
+				parser.on('data', () => undefined);
+				parser.on('end', () => resolve({}));
+				parser.on('error', (error) => resolve({ error }));
+				parser.end();
 			});
+			expect(error).toBeUndefined();
+			expect(verify).toHaveBeenCalledTimes(1);
+		});
 
-			parser.write(partial);
-			parser.end();
+		it('should verify a JSON array body once it is complete', async () => {
+			const { error } = await parse(['[{"id":1},{"id":2}]'], { framing: 'json-array', verify: { itemCount: 1 } });
+
+			expect(error).toMatchObject({ check: 'itemCount', actual: 2 });
 		});
 	});
 
@@ -512,6 +1290,525 @@ describe('NdJsonStreamParser', () => {
 			expect((errs[0] as any).itemNumber).toBe(2);
 		});
 
+		it('should destroy the source when a size limit is exceeded', async () => {
+			const readable = new Readable({ read() { /* no-op */ } });
+
+			const consumer = (async () => {
+				for await (const _item of NdJsonStreamParser.parseStream(readable, { maxLineBytes: 8 })) {
+					// consume
+				}
+			})();
+
+			readable.push('{"a":"this line never ends');
+
+			await expect(consumer).rejects.toBeInstanceOf(NdJsonLimitExceededError);
+			expect(readable.destroyed).toBe(true);
+		});
+
+		it('should yield items parsed before a fatal line in the same chunk', async () => {
+			const readable = Readable.from(['{"id":1}\n{"id":2}\nnot json\n{"id":4}\n']);
+			const result: any[] = [];
+
+			const consume = async () => {
+				for await (const item of NdJsonStreamParser.parseStream(readable)) {
+					result.push(item);
+				}
+			};
+
+			await expect(consume()).rejects.toThrow('Failed to parse NDJSON line 3');
+			expect(result).toEqual([{ id: 1 }, { id: 2 }]);
+		});
+
+		it('should report the line number of each item as it is yielded', async () => {
+			const readable = Readable.from(['{"id":1}\n\n{"id":3}\n{"id":4}\n']);
+			const onItem = jest.fn();
+			const seen: [number, number][] = [];
+
+			for await (const item of NdJsonStreamParser.parseStream<{ id: number }>(readable, { onItem })) {
+				seen.push([item.id, onItem.mock.lastCall[0]]);
+			}
+
+			expect(seen).toEqual([[1, 1], [3, 3], [4, 4]]);
+		});
+
+		it.each([
+			['newline', '1\nnull\n2\n3\n'],
+			['json-seq', '\x1e1\n\x1enull\n\x1e2\n\x1e3\n'],
+			['json-array', '[1,null,2,3]'],
+		] as const)('should yield null items with %s framing', async (framing, body) => {
+			const items: unknown[] = [];
+			for await (const item of NdJsonStreamParser.parseStream(Readable.from([body]), { framing })) {
+				items.push(item);
+			}
+
+			expect(items).toEqual([1, null, 2, 3]);
+		});
+
+		describe('with an HTTP request source', () => {
+			it('should drain rather than destroy a fully received request', async () => {
+				const readable = Object.assign(new Readable({ read() { /* no-op */ } }), { complete: true });
+				const resume = jest.spyOn(readable, 'resume');
+
+				const consumer = (async () => {
+					for await (const _item of NdJsonStreamParser.parseStream(readable)) {
+						throw new Error('consumer-abort');
+					}
+				})();
+
+				readable.push('{"a":1}\n{"a":2}\n');
+
+				await expect(consumer).rejects.toThrow('consumer-abort');
+				expect(readable.destroyed).toBe(false);
+				expect(resume).toHaveBeenCalled();
+			});
+
+			it('should pause a partial request until the response has been written', async () => {
+				const readable = new Readable({ read() { /* no-op */ } });
+				const response = Object.assign(new EventEmitter(), {
+					writableEnded: false,
+					destroyed: false,
+					headersSent: false,
+					setHeader: jest.fn(),
+				});
+
+				const consumer = (async () => {
+					for await (const _item of NdJsonStreamParser.parseStream(readable, { response: response as any, maxItems: 1 })) {
+						// consume
+					}
+				})();
+
+				readable.push('{"a":1}\n{"a":2}\n');
+
+				await expect(consumer).rejects.toBeInstanceOf(NdJsonLimitExceededError);
+				expect(readable.destroyed).toBe(false);
+				expect(readable.isPaused()).toBe(true);
+				expect(response.setHeader).toHaveBeenCalledWith('Connection', 'close');
+
+				response.emit('close');
+				expect(readable.destroyed).toBe(true);
+			});
+
+			it('should destroy a partial request whose response has already ended', async () => {
+				const readable = new Readable({ read() { /* no-op */ } });
+				const response = Object.assign(new EventEmitter(), { writableEnded: true, writableFinished: true }) as any;
+
+				const consumer = (async () => {
+					for await (const _item of NdJsonStreamParser.parseStream(readable, { response })) {
+						break;
+					}
+				})();
+
+				readable.push('{"a":1}\n');
+
+				await consumer;
+				expect(readable.destroyed).toBe(true);
+			});
+		});
+
+		describe('with contentEncoding', () => {
+			const ndjson = '{"a":1}\n{"a":2}\n';
+
+			async function parse(body: Buffer, contentEncoding: string, options = {}): Promise<any[]> {
+				const out: any[] = [];
+				for await (const item of NdJsonStreamParser.parseStream(Readable.from([body]), { contentEncoding, ...options })) {
+					out.push(item);
+				}
+				return out;
+			}
+
+			it.each([
+				['gzip', gzipSync],
+				['deflate', deflateSync],
+				['br', brotliCompressSync],
+			])('should decompress %s bodies', async (encoding, compress) => {
+				await expect(parse(compress(Buffer.from(ndjson)), encoding)).resolves.toEqual([{ a: 1 }, { a: 2 }]);
+			});
+
+			it('should undo stacked codings in reverse order', async () => {
+				const body = brotliCompressSync(gzipSync(Buffer.from(ndjson)));
+				await expect(parse(body, 'gzip, br')).resolves.toEqual([{ a: 1 }, { a: 2 }]);
+			});
+
+			it('should fail with a 400 on a corrupt compressed body', async () => {
+				await expect(parse(Buffer.from(ndjson), 'gzip')).rejects.toThrow(BadRequestException);
+			});
+
+			it('should verify the digest of the body as sent rather than decoded', async () => {
+				const body = gzipSync(Buffer.from(ndjson));
+				const sha256 = (data: Buffer | string) => createHash('sha256').update(data).digest();
+
+				await expect(parse(body, 'gzip', { verify: { sha256: sha256(body) } })).resolves.toHaveLength(2);
+				await expect(parse(body, 'gzip', { verify: { sha256: sha256(ndjson) } })).rejects.toMatchObject({
+					check: 'sha256',
+					actual: sha256(body).toString('base64'),
+				});
+			});
+
+			it('should apply maxBodyBytes to the decompressed size', async () => {
+				const bomb = gzipSync(Buffer.from('{"a":1}\n'.repeat(10000)));
+				expect(bomb.length).toBeLessThan(1000);
+
+				await expect(parse(bomb, 'gzip', { maxBodyBytes: 1000 })).rejects.toBeInstanceOf(NdJsonLimitExceededError);
+			});
+
+			it('should limit how far a body may inflate by default', async () => {
+				const bomb = gzipSync(Buffer.from('{"a":1}\n'.repeat(2_000_000)));
+
+				const error = await parse(bomb, 'gzip').catch((e) => e);
+
+				expect(error).toBeInstanceOf(NdJsonLimitExceededError);
+				expect(error).toMatchObject({ limit: 'maxInflationRatio', max: NDJSON_STREAM_DEFAULT_LIMITS.maxInflationRatio });
+				expect(error.getStatus()).toBe(413);
+			});
+
+			it('should destroy the decompressor when the consumer breaks early', async () => {
+				const readable = new Readable({ read() { /* no-op */ } });
+				let decompressor: Transform | undefined;
+				const origPipe = readable.pipe.bind(readable);
+				jest.spyOn(readable, 'pipe').mockImplementation((dest: any, opts?: any) => {
+					decompressor = dest as Transform;
+					return origPipe(dest, opts);
+				});
+
+				const consumer = (async () => {
+					for await (const _item of NdJsonStreamParser.parseStream(readable, { contentEncoding: 'gzip' })) {
+						break;
+					}
+				})();
+
+				readable.push(gzipSync(Buffer.from(ndjson)));
+
+				await consumer;
+				expect(readable.destroyed).toBe(true);
+				expect(decompressor?.destroyed).toBe(true);
+			});
+		});
+
+		describe('with multipart', () => {
+			const boundary = 'form-boundary';
+			const body = [
+				`--${boundary}\r\nContent-Disposition: form-data; name="source"\r\n\r\nbrowser\r\n`,
+				`--${boundary}\r\nContent-Disposition: form-data; name="file"; filename="a.ndjson"\r\n\r\n`,
+				'{"a":1}\n{"a":2}\n',
+				`\r\n--${boundary}\r\nContent-Disposition: form-data; name="note"\r\n\r\nlast\r\n--${boundary}--\r\n`,
+			].join('');
+
+			it('should parse the named part and report the other fields', async () => {
+				const onField = jest.fn();
+				const out: any[] = [];
+				const stream = NdJsonStreamParser.parseStream(Readable.from([body]), {
+					multipart: { field: 'file', boundary, onField },
+				});
+				for await (const item of stream) out.push(item);
+
+				expect(out).toEqual([{ a: 1 }, { a: 2 }]);
+				expect(onField.mock.calls).toEqual([['source', 'browser'], ['note', 'last']]);
+			});
+
+			it('should decompress the body before splitting it', async () => {
+				const out: any[] = [];
+				const stream = NdJsonStreamParser.parseStream(Readable.from([gzipSync(Buffer.from(body))]), {
+					contentEncoding: 'gzip',
+					multipart: { field: 'file', boundary },
+				});
+				for await (const item of stream) out.push(item);
+
+				expect(out).toEqual([{ a: 1 }, { a: 2 }]);
+			});
+
+			it('should verify the digest of the whole form', async () => {
+				const verify = { sha256: createHash('sha256').update(body).digest() };
+				const out: any[] = [];
+				const stream = NdJsonStreamParser.parseStream(Readable.from([body]), { multipart: { field: 'file', boundary }, verify });
+				for await (const item of stream) out.push(item);
+
+				expect(out).toEqual([{ a: 1 }, { a: 2 }]);
+			});
+
+			it('should fail with the extractor error and tear it down', async () => {
+				const readable = Readable.from([body]);
+				const stream = NdJsonStreamParser.parseStream(readable, { multipart: { field: 'file', boundary, maxParts: 1 } });
+
+				await expect(stream.next()).rejects.toBeInstanceOf(NdJsonLimitExceededError);
+				expect(readable.destroyed).toBe(true);
+			});
+		});
+
+		describe('with timeouts and cancellation', () => {
+			const trickle = () => new Readable({ read() { /* pushed by the test */ } });
+
+			it('should fail a stream that goes idle and tear it down', async () => {
+				const readable = trickle();
+				const items = NdJsonStreamParser.parseStream(readable, { idleTimeoutMs: 50 });
+
+				readable.push('{"a":1}\n');
+				await expect(items.next()).resolves.toEqual({ done: false, value: { a: 1 } });
+				const error = await items.next().catch((e) => e);
+
+				expect(error).toBeInstanceOf(NdJsonTimeoutError);
+				expect(error.timeout).toBe('idleTimeoutMs');
+				expect(readable.destroyed).toBe(true);
+			});
+
+			it('should not time out while the consumer works on an item', async () => {
+				const readable = trickle();
+				const items = NdJsonStreamParser.parseStream(readable, { idleTimeoutMs: 50 });
+
+				readable.push('{"a":1}\n');
+				await items.next();
+				await new Promise((resolve) => setTimeout(resolve, 100));
+				readable.push('{"a":2}\n');
+				readable.push(null);
+
+				await expect(items.next()).resolves.toEqual({ done: false, value: { a: 2 } });
+				await expect(items.next()).resolves.toEqual({ done: true, value: undefined });
+			});
+
+			it('should fail a stream that runs past its deadline', async () => {
+				const readable = trickle();
+				const items = NdJsonStreamParser.parseStream(readable, { deadlineMs: 50 });
+				const timer = setInterval(() => readable.push('\n'), 10);
+
+				try {
+					await expect(items.next()).rejects.toMatchObject({ timeout: 'deadlineMs', ms: 50 });
+				} finally {
+					clearInterval(timer);
+				}
+				expect(readable.destroyed).toBe(true);
+			});
+
+			it('should fail with the reason once the signal is aborted', async () => {
+				const readable = trickle();
+				const controller = new AbortController();
+				const items = NdJsonStreamParser.parseStream(readable, { signal: controller.signal });
+
+				const next = items.next();
+				controller.abort(new Error('shutting down'));
+				const error = await next.catch((e) => e);
+
+				expect(error).toBeInstanceOf(NdJsonAbortedError);
+				expect(error.cause).toEqual(new Error('shutting down'));
+				expect(readable.destroyed).toBe(true);
+			});
+
+			it('should fail when the client disconnects', async () => {
+				const readable = trickle();
+				const response = Object.assign(new EventEmitter(), {
+					writableEnded: false,
+					writableFinished: false,
+					destroyed: false,
+					headersSent: false,
+					setHeader: jest.fn(),
+				});
+				const items = NdJsonStreamParser.parseStream(readable, { response: response as any });
+
+				const next = items.next();
+				await new Promise((resolve) => setImmediate(resolve));
+				response.destroyed = true;
+				response.emit('close');
+
+				await expect(next).rejects.toThrow('The client disconnected before the NDJSON stream ended');
+				expect(response.listenerCount('close')).toBe(0);
+				expect(readable.destroyed).toBe(true);
+			});
+		});
+
+		describe('with hooks and tracing', () => {
+			const createTracer = () => {
+				const span = { setAttributes: jest.fn(), recordException: jest.fn(), setStatus: jest.fn(), end: jest.fn() };
+				return { span, tracer: { startSpan: jest.fn(() => span) } };
+			};
+
+			it('should report live stats while parsing and a summary once done', async () => {
+				const onStart = jest.fn();
+				const onProgress = jest.fn();
+				const onComplete = jest.fn();
+				const input = '{"a":1}\n\nnot json\n{"a":2}\n\n{"a":3}\n';
+				const seen: number[] = [];
+
+				for await (const _item of NdJsonStreamParser.parseStream(Readable.from([input]), {
+					onError: 'skip',
+					hooks: { onStart, onProgress, onComplete, progressItems: 2 },
+				})) {
+					seen.push(onStart.mock.calls[0][0].itemsYielded);
+				}
+
+				expect(seen).toEqual([1, 2, 3]);
+				expect(onProgress).toHaveBeenCalledTimes(1);
+				expect(onProgress).toHaveBeenCalledWith(expect.objectContaining({ itemsYielded: 2 }));
+				expect(onComplete).toHaveBeenCalledWith(expect.objectContaining({
+					outcome: 'completed',
+					bytesRead: Buffer.byteLength(input),
+					itemsYielded: 3,
+					blankLines: 2,
+					errors: 1,
+				}));
+				expect(onComplete.mock.calls[0][0]).not.toHaveProperty('error');
+			});
+
+			it.each([
+				['failed', async (items: AsyncGenerator<unknown>) => {
+					await expect(items.next()).resolves.toEqual({ done: false, value: { a: 1 } });
+					await expect(items.next()).rejects.toThrow(NdJsonParseError);
+				}],
+				['aborted', async (items: AsyncGenerator<unknown>) => {
+					await items.next();
+					await items.return(undefined);
+				}],
+			])('should report a stream that %s', async (outcome, consume) => {
+				const onComplete = jest.fn();
+				const { span, tracer } = createTracer();
+
+				await consume(NdJsonStreamParser.parseStream(Readable.from(['{"a":1}\n{"a":\n{"a":3}\n']), {
+					hooks: { onComplete },
+					tracing: tracer,
+				}));
+
+				expect(onComplete).toHaveBeenCalledTimes(1);
+				expect(onComplete).toHaveBeenCalledWith(expect.objectContaining({ outcome, itemsYielded: 1 }));
+				expect(span.setAttributes).toHaveBeenCalledWith(expect.objectContaining({ 'ndjson.outcome': outcome }));
+				expect(span.end).toHaveBeenCalledTimes(1);
+				if (outcome === 'failed') {
+					expect(span.recordException).toHaveBeenCalledWith(expect.any(NdJsonParseError));
+					expect(span.setStatus).toHaveBeenCalledWith({ code: 2, message: expect.stringMatching(/^Failed to parse NDJSON line 2/) });
+				} else {
+					expect(span.recordException).not.toHaveBeenCalled();
+				}
+			});
+
+			it('should open a span describing the stream', async () => {
+				const { tracer } = createTracer();
+
+				for await (const _item of NdJsonStreamParser.parseStream(Readable.from([gzipSync('{"a":1}\n')]), {
+					contentEncoding: 'gzip',
+					tracing: tracer,
+				})) {
+					// Drain
+				}
+
+				expect(tracer.startSpan).toHaveBeenCalledWith('ndjson.parse', {
+					attributes: { 'ndjson.framing': 'newline', 'ndjson.content_encoding': 'gzip' },
+				});
+			});
+
+			it('should parse as usual with tracing on and OpenTelemetry not installed', async () => {
+				const items: unknown[] = [];
+				for await (const item of NdJsonStreamParser.parseStream(Readable.from(['{"a":1}\n']), { tracing: true })) {
+					items.push(item);
+				}
+
+				expect(items).toEqual([{ a: 1 }]);
+			});
+		});
+
+		describe('with archive', () => {
+			const ndjson = '{"a":1}\n{"a":2}\n';
+
+			const createSink = (options: { highWaterMark?: number; delayMs?: number } = {}) => {
+				const chunks: Buffer[] = [];
+				const sink = new Writable({
+					highWaterMark: options.highWaterMark,
+					write(chunk: Buffer, _encoding, callback) {
+						chunks.push(chunk);
+						setTimeout(callback, options.delayMs ?? 0);
+					},
+				});
+				return { sink, received: () => Buffer.concat(chunks) };
+			};
+
+			async function parse(source: Readable, options = {}): Promise<any[]> {
+				const out: any[] = [];
+				for await (const item of NdJsonStreamParser.parseStream(source, options)) {
+					out.push(item);
+				}
+				return out;
+			}
+
+			it('should copy the bytes as received and finish the sink before completing', async () => {
+				const body = gzipSync(Buffer.from(ndjson));
+				const { sink, received } = createSink({ delayMs: 5 });
+
+				const items = await parse(Readable.from([body]), { contentEncoding: 'gzip', archive: { sink: () => sink } });
+
+				expect(items).toEqual([{ a: 1 }, { a: 2 }]);
+				expect(sink.writableFinished).toBe(true);
+				expect(received()).toEqual(body);
+			});
+
+			it('should copy the decompressed body with decompressed', async () => {
+				const { sink, received } = createSink();
+
+				await parse(Readable.from([gzipSync(Buffer.from(ndjson))]), {
+					contentEncoding: 'gzip',
+					archive: { sink: async () => sink, decompressed: true },
+				});
+
+				expect(received().toString()).toBe(ndjson);
+			});
+
+			it('should read no faster than a slow sink accepts', async () => {
+				const chunks = Array.from({ length: 20 }, (_, i) => `{"a":${i}}\n`);
+				const { sink, received } = createSink({ highWaterMark: 1, delayMs: 2 });
+				const source = Readable.from(chunks, { objectMode: false, highWaterMark: 1 });
+				let receivedAtEnd = 0;
+				source.on('end', () => { receivedAtEnd = received().length; });
+
+				const items = await parse(source, { archive: { sink: () => sink } });
+
+				expect(items).toHaveLength(20);
+				expect(received().toString()).toBe(chunks.join(''));
+				// Read ahead of the sink, the source would end before the sink had written anything
+				expect(receivedAtEnd).toBeGreaterThan(chunks.slice(2).join('').length);
+			});
+
+			it('should destroy the sink with the error when parsing fails', async () => {
+				const { sink } = createSink();
+				const closed = new Promise((resolve) => sink.on('error', resolve));
+
+				await expect(parse(Readable.from(['{"a":1}\nnot json\n']), { archive: { sink: () => sink } }))
+					.rejects.toBeInstanceOf(NdJsonParseError);
+
+				expect(sink.destroyed).toBe(true);
+				expect(sink.writableFinished).toBe(false);
+				await expect(closed).resolves.toBeInstanceOf(NdJsonParseError);
+			});
+
+			it('should destroy the sink when the consumer stops early', async () => {
+				const { sink } = createSink();
+
+				for await (const _item of NdJsonStreamParser.parseStream(Readable.from([ndjson]), { archive: { sink: () => sink } })) {
+					break;
+				}
+
+				expect(sink.destroyed).toBe(true);
+				expect(sink.writableFinished).toBe(false);
+			});
+
+			it('should fail parsing when the sink fails', async () => {
+				const sink = new Writable({
+					write(_chunk, _encoding, callback) {
+						callback(new Error('disk full'));
+					},
+				});
+
+				await expect(parse(Readable.from([ndjson]), { archive: { sink: () => sink } })).rejects.toThrow('disk full');
+			});
+
+			it('should tear down the source when the sink cannot be opened', async () => {
+				const readable = new Readable({ read() { /* no-op */ } });
+				const hooks = { onStart: jest.fn() };
+
+				await expect(parse(readable, {
+					contentEncoding: 'gzip',
+					hooks,
+					archive: { sink: async () => { throw new Error('bucket not found'); } },
+				})).rejects.toThrow('bucket not found');
+
+				expect(readable.destroyed).toBe(true);
+				expect(hooks.onStart).not.toHaveBeenCalled();
+			});
+		});
+
 		it('should pipe stream to parser correctly', async () => {
 			const readable = new Readable({
 				read() {
@@ -541,6 +1838,146 @@ describe('NdJsonStreamParser', () => {
 		});
 	});
 
+	describe('batch', () => {
+		async function* fromArray<T>(items: T[]): AsyncGenerator<T> {
+			for (const item of items) yield item;
+		}
+
+		async function collect<T>(source: AsyncIterable<T>): Promise<T[]> {
+			const out: T[] = [];
+			for await (const item of source) out.push(item);
+			return out;
+		}
+
+		it('should group items into batches of the given size', async () => {
+			const batches = await collect(NdJsonStreamParser.batch(fromArray([1, 2, 3, 4, 5]), 2));
+			expect(batches).toEqual([[1, 2], [3, 4], [5]]);
+		});
+
+		it('should yield nothing for an empty source', async () => {
+			await expect(collect(NdJsonStreamParser.batch(fromArray([]), 3))).resolves.toEqual([]);
+		});
+
+		it('should reject a non-positive batch size', async () => {
+			await expect(collect(NdJsonStreamParser.batch(fromArray([1]), 0))).rejects.toThrow(RangeError);
+		});
+
+		it('should flush a partial batch when maxWaitMs elapses', async () => {
+			const readable = new Readable({ read() { /* no-op */ } });
+			const batches = NdJsonStreamParser.batch(NdJsonStreamParser.parseStream(readable), 10, { maxWaitMs: 20 });
+
+			readable.push('{"a":1}\n{"a":2}\n');
+			const first = await batches.next();
+			expect(first.value).toEqual([{ a: 1 }, { a: 2 }]);
+
+			readable.push('{"a":3}\n');
+			readable.push(null);
+			const second = await batches.next();
+			expect(second.value).toEqual([{ a: 3 }]);
+			await expect(batches.next()).resolves.toEqual({ done: true, value: undefined });
+		});
+
+		it('should propagate parse errors from the source', async () => {
+			const readable = new Readable({ read() { /* no-op */ } });
+			const consumer = collect(NdJsonStreamParser.batch(NdJsonStreamParser.parseStream(readable), 5));
+
+			readable.push('{"a":1}\nnot json\n');
+			readable.push(null);
+
+			await expect(consumer).rejects.toThrow('Failed to parse NDJSON line 2');
+		});
+
+		it('should fail with the error of the source after yielding the items before it', async () => {
+			const failure = new Error('socket hang up');
+			const readable = new Readable({ read() { /* no-op */ } });
+			const out: any[] = [];
+			const consumer = (async () => {
+				for await (const item of NdJsonStreamParser.parseStream(readable)) out.push(item);
+			})();
+
+			readable.push('{"a":1}\n');
+			await new Promise(setImmediate);
+			readable.destroy(failure);
+
+			await expect(consumer).rejects.toBe(failure);
+			expect(out).toEqual([{ a: 1 }]);
+		});
+
+		it('should tear down the source stream when the consumer breaks early', async () => {
+			const readable = new Readable({ read() { /* no-op */ } });
+
+			const consumer = (async () => {
+				for await (const _batch of NdJsonStreamParser.batch(NdJsonStreamParser.parseStream(readable), 2)) {
+					break;
+				}
+			})();
+
+			readable.push('{"a":1}\n{"a":2}\n{"a":3}\n');
+
+			await consumer;
+			expect(readable.destroyed).toBe(true);
+		});
+
+		it('should tear down the source stream when the consumer throws', async () => {
+			const readable = new Readable({ read() { /* no-op */ } });
+
+			const consumer = (async () => {
+				for await (const _batch of NdJsonStreamParser.batch(NdJsonStreamParser.parseStream(readable), 1)) {
+					throw new Error('consumer-abort');
+				}
+			})();
+
+			readable.push('{"a":1}\n{"a":2}\n');
+
+			await expect(consumer).rejects.toThrow('consumer-abort');
+			expect(readable.destroyed).toBe(true);
+		});
+
+		it('should tear down the source at once when the consumer breaks after a maxWaitMs flush', async () => {
+			const readable = new Readable({ read() { /* no-op */ } });
+			const hooks = { onComplete: jest.fn() };
+
+			readable.push('{"a":1}\n');
+			for await (const batch of NdJsonStreamParser.batch(NdJsonStreamParser.parseStream(readable, { hooks }), 10, { maxWaitMs: 5 })) {
+				expect(batch).toEqual([{ a: 1 }]);
+				break;
+			}
+			await new Promise(setImmediate);
+
+			expect(readable.destroyed).toBe(true);
+			expect(hooks.onComplete).toHaveBeenCalledWith(expect.objectContaining({ outcome: 'aborted' }));
+		});
+
+		it('should close the source once an in-flight read settles after the consumer exits', async () => {
+			const returned = jest.fn();
+			let release: () => void = () => undefined;
+			const source: AsyncIterable<number> = {
+				[Symbol.asyncIterator]: () => {
+					let calls = 0;
+					return {
+						next: () => {
+							calls++;
+							if (calls === 1) return Promise.resolve({ done: false, value: 1 });
+							return new Promise((resolve) => { release = () => resolve({ done: false, value: 2 }); });
+						},
+						return: () => {
+							returned();
+							return Promise.resolve({ done: true, value: undefined });
+						},
+					};
+				},
+			};
+
+			for await (const batch of NdJsonStreamParser.batch(source, 10, { maxWaitMs: 5 })) {
+				expect(batch).toEqual([1]);
+				break;
+			}
+
+			expect(returned).toHaveBeenCalledTimes(1);
+			release();
+		});
+	});
+
 	describe('Edge cases', () => {
 		it('should handle very large JSON objects', (done) => {
 			const parser = NdJsonStreamParser.createParser();
@@ -1,63 +1,347 @@
-import { Injectable } from '@nestjs/common';
-import { Transform } from 'stream';
+import { Inject, Injectable, Optional } from '@nestjs/common';
+import { ServerResponse } from 'http';
+import { Transform, TransformCallback, Writable } from 'stream';
+import { finished } from 'stream/promises';
+import { createHash, Hash } from 'node:crypto';
 import { StringDecoder } from 'node:string_decoder';
 
+import { NdJsonStreamModuleOptions } from '../decorators/ndjson-stream.decorator';
+import {
+	NdJsonAbortedError,
+	NdJsonIntegrityError,
+	NdJsonLimitExceededError,
+	NdJsonParseError,
+	NdJsonValidationError,
+} from '../errors/ndjson-stream.errors';
+import { NDJSON_STREAM_DEFAULT_BATCH_SIZE, NDJSON_STREAM_DEFAULT_LIMITS } from '../ndjson-stream.constants';
+import { NDJSON_STREAM_MODULE_OPTIONS } from '../ndjson-stream.module-definition';
+import {
+	NdJsonBatchOptions,
+	NdJsonCheckpoint,
+	NdJsonEnvelope,
+	NdJsonParserOptions,
+	NdJsonParseStreamOptions,
+	NdJsonSpanAttributes,
+} from '../types/ndjson-stream';
+import { createDecompressors } from '../utils/content-encoding';
+import { JsonArraySplitter } from '../utils/json-array-splitter';
+import { MultipartExtractor } from '../utils/multipart';
+import { createNdJsonDecoder, defaultLineDecoder } from '../utils/line-decoder';
+import { StreamCancellation, watchForCancellation } from '../utils/cancellation';
+import { setStopper, stopIterator } from '../utils/stop-iterator';
+import { getDefaultTracer, StreamMonitor } from '../utils/stream-monitor';
+
 /**
  * Class for parsing NDJSON (Newline Delimited JSON) streams.
  * Handles streaming JSON data where each line is a separate JSON object.
+ *
+ * The static methods use only the options they are given. An instance, as
+ * provided by `NdJsonStreamModule`, offers the same methods with the module's
+ * limits, timeouts, error policy, decoder and batch size applied as defaults,
+ * for parsing sources other than HTTP requests (files, sockets, queues).
  */
 @Injectable()
 export class NdJsonStreamParser {
+	constructor(@Optional() @Inject(NDJSON_STREAM_MODULE_OPTIONS) private readonly defaults: NdJsonStreamModuleOptions = {}) {}
+
+	/**
+	 * Creates a Transform stream that parses NDJSON data, with the module's
+	 * defaults applied under `options`.
+	 *
+	 * @see NdJsonStreamParser.createParser
+	 */
+	createParser<T>(options: NdJsonParserOptions = {}): Transform {
+		return NdJsonStreamParser.createParser<T>(withDefaults(options, this.defaults));
+	}
+
+	/**
+	 * Parses a readable stream as NDJSON, with the module's defaults applied
+	 * under `options`.
+	 *
+	 * @see NdJsonStreamParser.parseStream
+	 */
+	parseStream<T>(stream: NodeJS.ReadableStream, options: NdJsonParseStreamOptions = {}): AsyncGenerator<T> {
+		return NdJsonStreamParser.parseStream<T>(stream, withDefaults(options, this.defaults));
+	}
+
+	/**
+	 * Groups the items of an async iterable into arrays, by default of the
+	 * module's batch size.
+	 *
+	 * @see NdJsonStreamParser.batch
+	 */
+	batch<T>(source: AsyncIterable<T>, size?: number, options: NdJsonBatchOptions = {}): AsyncGenerator<T[]> {
+		const batchSize = size ?? this.defaults.batchSize ?? NDJSON_STREAM_DEFAULT_BATCH_SIZE;
+		return NdJsonStreamParser.batch(source, batchSize, options);
+	}
 
 	/**
-	 * Creates a Transform stream that parses NDJSON data
+	 * Creates a Transform stream that parses NDJSON data.
+	 *
+	 * Lines are decoded, validated and emitted strictly in order. By default
+	 * the first malformed or invalid line fails the stream; size limits are
+	 * always fatal. `NdJsonParserOptions` describes the error policies,
+	 * framings, headers, resumption and integrity checks. An object-mode stream
+	 * cannot carry `null`, so a `null` item is rejected like a malformed line
+	 * unless it is wrapped in an `envelope`; `parseStream()` yields it.
+	 *
 	 * @template T - The type of objects in the NDJSON stream
+	 * @param options - Optional parser behaviour
 	 * @returns A Transform stream that emits parsed objects
 	 */
-	static createParser<T>(): Transform {
+	static createParser<T>(options: NdJsonParserOptions = {}): Transform {
+		const { validate, onError = 'fail', maxErrors = Infinity, onReject, onItem, framing = 'newline', arrayPath, envelope } = options;
+		const { resumeFrom, skipThrough = 0, decoder: lineDecoder, verify, onHeader, validateHeader, stats } = options;
+		const boxed = (options as InternalParserOptions)[BOX_ITEMS] === true;
+		const sourceHash = (options as InternalParserOptions)[SOURCE_HASH];
+		const decode = typeof lineDecoder === 'function'
+			? lineDecoder
+			: lineDecoder ? createNdJsonDecoder(lineDecoder) : defaultLineDecoder;
+		const includeRaw = typeof envelope === 'object' && envelope.raw === true;
+		const trackOffsets = Boolean(envelope) || resumeFrom !== undefined;
+		const hash = sourceHash ?? (needsDigest(verify) ? createHash('sha256') : undefined);
+		const {
+			maxLineBytes = NDJSON_STREAM_DEFAULT_LIMITS.maxLineBytes,
+			maxItems = NDJSON_STREAM_DEFAULT_LIMITS.maxItems,
+			maxBodyBytes = NDJSON_STREAM_DEFAULT_LIMITS.maxBodyBytes,
+		} = options;
 		let buffer = '';
-		let itemCount = 0;
+		let itemCount = resumeFrom?.itemNumber ?? 0;
+		let errorCount = 0;
+		let parsedCount = 0;
+		let receivedCount = 0;
+		let headerRead = false;
+		let bodyBytes = 0;
+		let recordOffset = resumeFrom?.byteOffset ?? 0;
 		const decoder = new StringDecoder('utf8');
+		const separator = framing === 'json-seq' ? RECORD_SEPARATOR : '\n';
+		const splitter = framing === 'json-array' ? new JsonArraySplitter(arrayPath) : undefined;
+
+		// A UTF-16 code unit encodes to at most 3 UTF-8 bytes, so only measure
+		// lines that could actually be over the limit.
+		const exceedsLineLimit = (line: string): boolean =>
+			line.length * 3 > maxLineBytes && Buffer.byteLength(line) > maxLineBytes;
+
+		// Returns a promise only when the line needs async validation, so the
+		// common path stays synchronous.
+		const processLine = (stream: Transform, record: NdJsonRecord): Promise<void> | void => {
+			const { text: line, byteOffset } = record;
+			if (exceedsLineLimit(line)) throw new NdJsonLimitExceededError('maxLineBytes', maxLineBytes);
+			if (!line.trim()) {
+				if (stats) stats.blankLines++;
+				return;
+			}
+			// A body resumed part-way no longer starts with its header. The
+			// header is not an item, so it counts toward neither `maxItems` nor
+			// the expected item count.
+			const isHeader = onHeader !== undefined && !headerRead && !resumeFrom?.itemNumber;
+			if (isHeader) {
+				headerRead = true;
+			} else {
+				receivedCount++;
+				if (itemCount <= skipThrough) return;
+				if (++parsedCount > maxItems) throw new NdJsonLimitExceededError('maxItems', maxItems);
+			}
+
+			const itemNumber = itemCount;
+			let parsed: T;
+			try {
+				parsed = decode(line) as T;
+			} catch (error) {
+				const position = framing === 'json-array'
+					? `JSON array element ${itemNumber} at byte ${byteOffset}`
+					: `NDJSON line ${itemNumber}`;
+				return rejectLine(
+					new NdJsonParseError(`Failed to parse ${position}: ${(error as Error).message}`, { line, itemNumber, byteOffset }, error),
+					line,
+					itemNumber,
+					isHeader,
+				);
+			}
+
+			if (framing === 'json-seq' && isTruncatedRecord(line, parsed)) {
+				return rejectLine(
+					new NdJsonParseError(`Truncated JSON text sequence record ${itemNumber}`, { line, itemNumber, byteOffset }),
+					line,
+					itemNumber,
+					isHeader,
+				);
+			}
+
+			const check = isHeader ? validateHeader : validate;
+			const accept = (value: unknown): void => {
+				if (isHeader) return onHeader(value);
+				if (value === null && !boxed && !envelope) {
+					return rejectLine(
+						new NdJsonParseError(`Item ${itemNumber} is null, which a stream cannot emit`, { line, itemNumber, byteOffset }),
+						line,
+						itemNumber,
+					);
+				}
+				emit(stream, value, record, itemNumber);
+			};
+			if (!check) return accept(parsed);
+			return Promise.resolve()
+				.then(() => check(parsed))
+				.then(
+					accept,
+					(error) => rejectLine(new NdJsonValidationError(line, itemNumber, error), line, itemNumber, isHeader),
+				);
+		};
+
+		// An object-mode stream ends at a pushed null, so a boxed parser wraps
+		// every item and an unboxed one cannot emit null
+		const push = (stream: Transform, item: unknown): void => {
+			stream.push(boxed ? { value: item } : item);
+		};
+
+		const emit = (stream: Transform, value: unknown, record: NdJsonRecord, itemNumber: number): void => {
+			if (!trackOffsets) {
+				push(stream, value);
+				onItem?.(itemNumber);
+				return;
+			}
+
+			const { text } = record;
+			const byteOffset = record.byteOffset as number;
+			const byteLength = Buffer.byteLength(text);
+			if (envelope) {
+				const wrapped: NdJsonEnvelope = { value, lineNumber: itemNumber, byteOffset, byteLength };
+				if (includeRaw) wrapped.raw = text;
+				push(stream, wrapped);
+			} else {
+				push(stream, value);
+			}
+			// The rest of a newline-delimited stream starts after the newline; a
+			// text sequence continues with the next record separator.
+			const next = byteOffset + byteLength + (framing === 'newline' ? 1 : 0);
+			onItem?.(itemNumber, { itemNumber, byteOffset: next });
+		};
+
+		// Drops a bad line under a lenient policy, or throws to fail the stream.
+		// A bad header always fails it.
+		const rejectLine = (error: Error, line: string, itemNumber: number, fatal = false): void => {
+			errorCount++;
+			if (stats) stats.errors++;
+			if (fatal || onError === 'fail' || errorCount > maxErrors) throw error;
+			onReject?.({ line, itemNumber, cause: error });
+		};
+
+		// Compares the finished stream against what it was expected to contain.
+		const checkIntegrity = (): void => {
+			const expected = typeof verify === 'function' ? verify() : verify;
+			if (expected?.itemCount !== undefined && expected.itemCount !== receivedCount) {
+				throw new NdJsonIntegrityError('itemCount', expected.itemCount, receivedCount);
+			}
+			if (expected?.sha256 && hash) {
+				const actual = hash.digest();
+				if (!actual.equals(expected.sha256)) {
+					throw new NdJsonIntegrityError('sha256', expected.sha256.toString('base64'), actual.toString('base64'));
+				}
+			}
+		};
+
+		// Consecutive record separators do not delimit empty records (RFC 7464),
+		// so unlike blank lines they are not counted. Offsets are only tracked
+		// when needed, as measuring every line has a cost.
+		const frame = (lines: string[]): NdJsonRecord[] => {
+			const records: NdJsonRecord[] = [];
+			for (const text of lines) {
+				let byteOffset: number | undefined;
+				if (trackOffsets) {
+					byteOffset = recordOffset;
+					recordOffset += Buffer.byteLength(text) + 1;
+				}
+				if (framing !== 'json-seq' || text.trim()) records.push({ text, byteOffset });
+			}
+			return records;
+		};
+
+		const processLines = (stream: Transform, lines: NdJsonRecord[], callback: TransformCallback, start = 0): void => {
+			for (let i = start; i < lines.length; i++) {
+				itemCount++;
+				let pending: Promise<void> | void;
+				try {
+					pending = processLine(stream, lines[i]);
+				} catch (error) {
+					return callback(error as Error);
+				}
+				if (pending) {
+					pending.then(() => processLines(stream, lines, callback, i + 1), callback);
+					return;
+				}
+			}
+			callback();
+		};
 
 		return new Transform({
 			objectMode: true,
-			transform(chunk: Buffer, encoding, callback) {
-				buffer += decoder.write(chunk);
-				const lines = buffer.split('\n');
+			transform(chunk: Buffer | string, encoding, callback) {
+				if (!sourceHash) hash?.update(chunk);
+				bodyBytes += typeof chunk === 'string' ? Buffer.byteLength(chunk) : chunk.length;
+				if (stats) stats.bytesRead = bodyBytes;
+				if (bodyBytes > maxBodyBytes) {
+					return callback(new NdJsonLimitExceededError('maxBodyBytes', maxBodyBytes));
+				}
+
+				if (splitter) {
+					let elements: NdJsonRecord[];
+					try {
+						elements = splitter.write(decoder.write(chunk as Buffer));
+					} catch (error) {
+						return callback(error as Error);
+					}
+					if (exceedsLineLimit(splitter.pending)) {
+						return callback(new NdJsonLimitExceededError('maxLineBytes', maxLineBytes));
+					}
+					return processLines(this, elements, callback);
+				}
+
+				buffer += decoder.write(chunk as Buffer);
+				const lines = buffer.split(separator);
 
 				// Keep last incomplete line in buffer
 				buffer = lines.pop() || '';
-
-				for (const line of lines) {
-					itemCount++;
-					if (line.trim()) {
-						try {
-							const parsed = JSON.parse(line) as T;
-							this.push(parsed);
-						} catch (error) {
-							return callback(Object.assign(
-								new Error(`Failed to parse NDJSON line ${itemCount}: ${(error as Error).message}`),
-								{ line, itemNumber: itemCount, cause: error },
-							));
-						}
-					}
+				if (exceedsLineLimit(buffer)) {
+					return callback(new NdJsonLimitExceededError('maxLineBytes', maxLineBytes));
 				}
-				callback();
+
+				processLines(this, frame(lines), callback);
 			},
 
 			flush(callback) {
-				buffer += decoder.end();
-				if (buffer.trim()) {
+				const finish = (error?: Error | null): void => {
+					if (error) return callback(error);
 					try {
-						this.push(JSON.parse(buffer));
+						checkIntegrity();
+					} catch (integrityError) {
+						return callback(integrityError as Error);
+					}
+					callback();
+				};
+
+				if (splitter) {
+					let elements: NdJsonRecord[];
+					try {
+						elements = splitter.write(decoder.end());
 					} catch (error) {
-						return callback(Object.assign(
-							new Error(`Failed to parse NDJSON line ${itemCount}: ${(error as Error).message}`),
-							{ line: buffer, itemNumber: itemCount, cause: error },
-						));
+						return callback(error as Error);
 					}
+					// Check the document is complete only once its last elements are out.
+					return processLines(this, elements, (error) => {
+						if (error) return callback(error);
+						try {
+							splitter.end();
+						} catch (endError) {
+							return callback(endError as Error);
+						}
+						finish();
+					});
 				}
-				callback();
+
+				buffer += decoder.end();
+				if (!buffer.trim()) return finish();
+				processLines(this, frame([buffer]), finish);
 			}
 		});
 	}
@@ -65,28 +349,379 @@ export class NdJsonStreamParser {
 	/**
 	 * Parses a readable stream as NDJSON and yields parsed objects.
 	 *
+	 * The stream is decompressed, split and copied as `NdJsonParseStreamOptions`
+	 * describes. Items parsed before a fatal error are still yielded before the
+	 * error is thrown, and `onItem` is called just before each item is yielded.
+	 *
 	 * On any exit path (normal completion, consumer `break`, consumer `throw`,
-	 * or upstream error) the parser is unpiped from the source and both streams
-	 * are destroyed. Without this teardown, an aborted consumer would leave the
-	 * source stream piped with no drain, leaking the underlying socket and any
-	 * intermediate buffers (e.g. a gunzip PassThrough).
+	 * or upstream error) every stage is unpiped and destroyed, along with the
+	 * source, so an aborted consumer does not leak the socket. An HTTP request
+	 * is drained or paused instead while an error response can still be sent
+	 * (see `response`).
 	 *
 	 * @template T - The type of objects in the NDJSON stream
 	 * @param stream - The readable stream containing NDJSON data
+	 * @param options - Optional parser behaviour, passed to `createParser`
 	 * @returns An async generator that yields parsed objects
+	 * @throws NdJsonUnsupportedMediaTypeError on first iteration if
+	 *   `options.contentEncoding` names an unsupported coding
 	 */
-	static async* parseStream<T>(stream: NodeJS.ReadableStream): AsyncGenerator<T> {
-		const parser = this.createParser<T>();
-		stream.pipe(parser);
+	static parseStream<T>(stream: NodeJS.ReadableStream, options: NdJsonParseStreamOptions = {}): AsyncGenerator<T> {
+		const stop = new AbortController();
+		const items = parseItems<T>(stream, options, stop.signal);
+		setStopper(items, () => stop.abort());
+		return items;
+	}
+
+	/**
+	 * Groups the items of an async iterable into arrays of up to `size` items.
+	 *
+	 * When `maxWaitMs` is set, a partial batch is yielded once that many
+	 * milliseconds have passed since its first item arrived, so a slow producer
+	 * does not hold items back indefinitely. A trailing partial batch is always
+	 * yielded when the source completes.
+	 *
+	 * On any exit path the source iterator is closed, which for a generator
+	 * returned by `parseStream` runs its teardown. If the consumer exits while a
+	 * read is still in flight (possible only with `maxWaitMs`), a `parseStream`
+	 * generator, or a request body, is stopped at once; any other source is
+	 * closed as soon as that read settles.
+	 *
+	 * @template T - The type of items in the source
+	 * @param source - The async iterable to group, typically `parseStream` output
+	 * @param size - The maximum number of items per batch (a positive integer)
+	 * @param options - Optional batching behaviour
+	 * @returns An async generator that yields arrays of items
+	 */
+	static async* batch<T>(source: AsyncIterable<T>, size: number, options: NdJsonBatchOptions = {}): AsyncGenerator<T[]> {
+		if (!Number.isInteger(size) || size < 1) {
+			throw new RangeError(`Batch size must be a positive integer, received ${size}`);
+		}
+
+		const { maxWaitMs } = options;
+		const iterator = source[Symbol.asyncIterator]();
+		let pending: Promise<IteratorResult<T>> | undefined;
+		let batch: T[] = [];
+		let deadline = 0;
+
 		try {
-			for await (const item of parser) {
-				yield item as T;
+			while (true) {
+				pending ??= iterator.next();
+
+				let result: IteratorResult<T> | typeof BATCH_TIMEOUT;
+				try {
+					result = maxWaitMs === undefined || batch.length === 0
+						? await pending
+						: await raceTimeout(pending, deadline - Date.now());
+				} catch (error) {
+					pending = undefined;
+					throw error;
+				}
+
+				if (result === BATCH_TIMEOUT) {
+					const full = batch;
+					batch = [];
+					yield full;
+					continue;
+				}
+
+				pending = undefined;
+				if (result.done) break;
+
+				if (batch.length === 0) deadline = Date.now() + (maxWaitMs ?? 0);
+				batch.push(result.value);
+				if (batch.length >= size) {
+					const full = batch;
+					batch = [];
+					yield full;
+				}
 			}
+
+			if (batch.length > 0) yield batch;
 		} finally {
-			stream.unpipe(parser);
-			if (!parser.destroyed) parser.destroy();
-			const src = stream as NodeJS.ReadableStream & { destroyed?: boolean; destroy?: (err?: Error) => void };
-			if (typeof src.destroy === 'function' && !src.destroyed) src.destroy();
+			if (pending) {
+				// A generator cannot be returned while a next() is in flight; the
+				// return is queued behind it, so don't block the consumer on it,
+				// and stop a parse outright so it does not wait for more data.
+				pending.catch(() => undefined);
+				Promise.resolve(iterator.return?.()).catch(() => undefined);
+				stopIterator(iterator);
+			} else {
+				await iterator.return?.();
+			}
+		}
+	}
+}
+
+/**
+ * Fills in parser options not given with the app-wide module defaults.
+ */
+function withDefaults<O extends NdJsonParserOptions | NdJsonParseStreamOptions>(options: O, moduleDefaults: NdJsonStreamModuleOptions): O {
+	const { maxLineBytes, maxItems, maxBodyBytes, maxInflationRatio, onError, maxErrors, decoder, idleTimeoutMs, deadlineMs } = moduleDefaults;
+	const defaults: NdJsonParseStreamOptions = {
+		maxLineBytes, maxItems, maxBodyBytes, maxInflationRatio, onError, maxErrors, decoder, idleTimeoutMs, deadlineMs,
+	};
+	const merged = { ...options };
+	for (const [key, value] of Object.entries(defaults)) {
+		if (merged[key as keyof O] === undefined) (merged as Record<string, unknown>)[key] = value;
+	}
+	return merged;
+}
+
+/**
+ * The generator behind `NdJsonStreamParser.parseStream()`, which fails with an
+ * `NdJsonAbortedError` as soon as `stopped` is aborted, even while it waits for
+ * data, so its teardown runs at once. A stopped stream ended as aborted rather
+ * than failed.
+ */
+async function* parseItems<T>(stream: NodeJS.ReadableStream, options: NdJsonParseStreamOptions, stopped: AbortSignal): AsyncGenerator<T> {
+	const { contentEncoding, response, onItem, archive, hooks, tracing, idleTimeoutMs, deadlineMs, signal, multipart, ...parserOptions } = options;
+	// The parser may run ahead of the consumer, so queue the line numbers
+	// (and checkpoints) of emitted items and report each one as its item is
+	// yielded.
+	const positions: Array<[number, NdJsonCheckpoint | undefined]> = [];
+	// Every stage is torn down, in order, however far setting up got
+	const stages: Transform[] = [];
+	let parser: Transform | undefined;
+	let monitor: StreamMonitor | undefined;
+	let sink: Writable | undefined;
+	let tap = stream;
+	let cancellation: StreamCancellation | undefined;
+	let completed = false;
+	let failure: Error | undefined;
+	// pipe() does not forward errors, so the source's own, such as those of a
+	// failed message stream, must fail the parser explicitly
+	const onSourceError = (error: Error) => parser?.destroy(error);
+	const onStop = () => parser?.destroy(new NdJsonAbortedError('NDJSON stream was stopped by its consumer'));
+	// A digest covers the body as sent, before it is decompressed or its file
+	// part extracted, so it is computed over the source
+	const sourceHash = needsDigest(parserOptions.verify) ? createHash('sha256') : undefined;
+	const onSourceData = (chunk: Buffer | string) => sourceHash?.update(chunk);
+
+	try {
+		const decompressors = createDecompressors(
+			contentEncoding,
+			parserOptions.maxInflationRatio ?? NDJSON_STREAM_DEFAULT_LIMITS.maxInflationRatio,
+		);
+		const extractor = multipart ? new MultipartExtractor(multipart) : undefined;
+		stages.push(...decompressors, ...(extractor ? [extractor] : []));
+		sink = archive ? await archive.sink() : undefined;
+		monitor = new StreamMonitor(hooks, tracing === true ? await getDefaultTracer() : tracing || undefined);
+
+		parser = NdJsonStreamParser.createParser<T>({
+			...parserOptions,
+			stats: monitor.stats,
+			onItem: onItem && ((itemNumber, checkpoint) => positions.push([itemNumber, checkpoint])),
+			[BOX_ITEMS]: true,
+			[SOURCE_HASH]: sourceHash,
+		} as InternalParserOptions);
+		stages.push(parser);
+
+		// Pipe source -> decompressors -> extractor -> parser, and fail the
+		// parser explicitly on a corrupt compressed or multipart body
+		let upstream = stream;
+		for (const stage of stages) {
+			upstream.pipe(stage);
+			upstream = stage;
+		}
+		for (const decompressor of decompressors) {
+			decompressor.once('error', (error) => parser?.destroy(error instanceof NdJsonLimitExceededError ? error : new NdJsonParseError(
+				`Failed to decompress NDJSON body: ${error.message}`,
+				{},
+				error,
+			)));
+		}
+		extractor?.once('error', onSourceError);
+		stream.once('error', onSourceError);
+		if (sourceHash) stream.on('data', onSourceData);
+		stopped.addEventListener('abort', onStop);
+		if (stopped.aborted) onStop();
+
+		// Tee the body into the sink. A stream piped to several destinations
+		// pauses until all of them have drained, so the slower side sets the pace.
+		if (sink) {
+			tap = archive?.decompressed ? extractor ?? decompressors[decompressors.length - 1] ?? stream : stream;
+			tap.pipe(sink, { end: false });
+			sink.once('error', onSourceError);
+		}
+
+		monitor.start(spanAttributes(options));
+		cancellation = watchForCancellation(stream, (error) => parser?.destroy(error), {
+			idleTimeoutMs,
+			deadlineMs,
+			signal,
+			response,
+		});
+		cancellation.wait();
+		for await (const item of readItems(parser)) {
+			cancellation.hold();
+			if (onItem) onItem(...positions.shift() as [number, NdJsonCheckpoint | undefined]);
+			monitor.yielded();
+			yield item as T;
+			cancellation.wait();
+		}
+		if (sink) {
+			sink.end();
+			await finished(sink);
+		}
+		completed = true;
+	} catch (error) {
+		if (!stopped.aborted) failure = error as Error;
+		throw error;
+	} finally {
+		cancellation?.dispose();
+		stream.removeListener('error', onSourceError);
+		stream.removeListener('data', onSourceData);
+		stopped.removeEventListener('abort', onStop);
+		if (sink) tap.unpipe(sink);
+		let upstream = stream;
+		for (const stage of stages) {
+			upstream.unpipe(stage);
+			if (!stage.destroyed) stage.destroy();
+			upstream = stage;
+		}
+		releaseSource(stream, response);
+		if (sink && !completed && !sink.destroyed) sink.destroy(failure);
+		monitor?.end({ outcome: completed ? 'completed' : failure ? 'failed' : 'aborted', error: failure });
+	}
+}
+
+/**
+ * Describes a stream on its span.
+ */
+function spanAttributes(options: NdJsonParseStreamOptions): NdJsonSpanAttributes {
+	const attributes: NdJsonSpanAttributes = { 'ndjson.framing': options.framing ?? 'newline' };
+	if (options.contentEncoding) attributes['ndjson.content_encoding'] = options.contentEncoding;
+	if (options.resumeFrom) attributes['ndjson.resume_from'] = options.resumeFrom.itemNumber;
+	return attributes;
+}
+
+/**
+ * Stops a source stream once parsing is over.
+ *
+ * An HTTP request whose body has been fully received is drained rather than
+ * destroyed: destroying an `IncomingMessage` before it has emitted 'end'
+ * aborts it and closes the socket, which would also prevent an error response
+ * from being sent. For the same reason, a partially received request with a
+ * pending response is only paused, and destroyed once that response has been
+ * written. Any other source is destroyed so it stops reading promptly.
+ */
+function releaseSource(stream: NodeJS.ReadableStream, response?: ServerResponse): void {
+	const src = stream as NodeJS.ReadableStream & { complete?: boolean; destroyed?: boolean; destroy?: (err?: Error) => void };
+	const destroy = () => {
+		if (typeof src.destroy === 'function' && !src.destroyed) src.destroy();
+	};
+
+	if (src.complete) {
+		src.resume();
+	} else if (response && !response.writableEnded && !response.destroyed) {
+		src.pause();
+		if (!response.headersSent) response.setHeader('Connection', 'close');
+		response.once('close', destroy);
+	} else {
+		destroy();
+	}
+}
+
+/**
+ * One record of the stream: a line, a JSON text sequence record or an array
+ * element, with its byte offset in the body where that is tracked.
+ */
+interface NdJsonRecord {
+	text: string;
+	byteOffset?: number;
+}
+
+/**
+ * The character that starts each record of an RFC 7464 JSON text sequence.
+ */
+const RECORD_SEPARATOR = '\x1e';
+
+/**
+ * Whether a parsed JSON text sequence record may have been cut short.
+ * Per RFC 7464, a top-level number, `true`, `false` or `null` that is not
+ * followed by whitespace could be the prefix of a longer value, so it must be
+ * treated as truncated rather than yielded.
+ */
+function isTruncatedRecord(record: string, parsed: unknown): boolean {
+	const ambiguous = parsed === null || typeof parsed === 'number' || typeof parsed === 'bigint' || typeof parsed === 'boolean';
+	return ambiguous && !/\s$/.test(record);
+}
+
+/**
+ * Option key, kept off the public options, that makes `createParser()` wrap
+ * each item as `{ value }`, so that `null` items survive the stream.
+ */
+const BOX_ITEMS = Symbol('box-items');
+
+/**
+ * Option key, kept off the public options, that gives `createParser()` a hash
+ * its caller updates with the source's bytes, for a digest of the body as sent
+ * rather than of the bytes written to the parser.
+ */
+const SOURCE_HASH = Symbol('source-hash');
+
+/**
+ * Parser options that may ask for boxed items or carry a source hash.
+ */
+type InternalParserOptions = NdJsonParserOptions & { [BOX_ITEMS]?: true; [SOURCE_HASH]?: Hash };
+
+/**
+ * Whether the expectations to verify may include a digest. Those read at the
+ * end are not known in advance.
+ */
+function needsDigest(verify: NdJsonParserOptions['verify']): boolean {
+	return typeof verify === 'function' || Boolean(verify?.sha256);
+}
+
+/**
+ * Yields the items of an object-mode stream of boxed items until it ends,
+ * then throws the error it failed with, if any. Unlike the stream's own async
+ * iterator, items buffered before the failure are yielded first rather than
+ * discarded.
+ */
+async function* readItems(stream: Transform): AsyncGenerator<unknown> {
+	let ended = false;
+	let failure: { error: Error } | undefined;
+	let wake: (() => void) | undefined;
+	const notify = () => wake?.();
+	const onEnd = () => { ended = true; notify(); };
+	const onError = (error: Error) => { failure = { error }; notify(); };
+
+	stream.on('readable', notify);
+	stream.on('end', onEnd);
+	stream.on('close', onEnd);
+	stream.on('error', onError);
+	try {
+		while (true) {
+			let item: { value: unknown } | null;
+			while ((item = stream.read()) !== null) yield item.value;
+			if (failure) throw failure.error;
+			if (ended) return;
+			await new Promise<void>((resolve) => { wake = resolve; });
+			wake = undefined;
 		}
+	} finally {
+		stream.off('readable', notify);
+		stream.off('end', onEnd);
+		stream.off('close', onEnd);
+		stream.off('error', onError);
 	}
 }
+
+/**
+ * Sentinel resolved by `raceTimeout` when the timer wins.
+ */
+const BATCH_TIMEOUT = Symbol('batch-timeout');
+
+/**
+ * Resolves with the settled value of `promise`, or with `BATCH_TIMEOUT` if it
+ * has not settled within `ms` milliseconds.
+ */
+function raceTimeout<T>(promise: Promise<T>, ms: number): Promise<T | typeof BATCH_TIMEOUT> {
+	let timer: NodeJS.Timeout;
+	const timeout = new Promise<typeof BATCH_TIMEOUT>((resolve) => {
+		timer = setTimeout(() => resolve(BATCH_TIMEOUT), Math.max(ms, 0));
+	});
+	return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+}
@@ -0,0 +1,150 @@
+import { Controller, INestApplication, Post } from '@nestjs/common';
+import { ApiProperty, DocumentBuilder, OpenAPIObject, SwaggerModule } from '@nestjs/swagger';
+import { Test } from '@nestjs/testing';
+import { ApiNdJsonBody } from './api-ndjson-body.decorator';
+import { NdJsonStreamReq } from '../decorators/ndjson-stream.decorator';
+import { NdJsonStreamRequest } from '../types/ndjson-stream';
+
+class UserDto {
+	@ApiProperty({ type: Number })
+	id!: number;
+
+	@ApiProperty({ type: String })
+	email!: string;
+}
+
+class EventDto {
+	@ApiProperty({ type: String })
+	name!: string;
+}
+
+@Controller('import')
+class ImportController {
+	@Post('users')
+	@ApiNdJsonBody()
+	users(@NdJsonStreamReq({
+		type: UserDto,
+		contentTypes: ['application/x-ndjson', 'application/jsonl'],
+		maxItems: 1000,
+		maxLineBytes: 4096,
+	}) request: NdJsonStreamRequest<UserDto>) {
+		return request.batchSize;
+	}
+
+	@Post('events')
+	@ApiNdJsonBody({ type: EventDto, maxItems: 10, description: 'One event per line.' })
+	events(@NdJsonStreamReq({ maxItems: 500, maxBodyBytes: 2048 }) request: NdJsonStreamRequest<EventDto>) {
+		return request.batchSize;
+	}
+
+	@Post('array')
+	@ApiNdJsonBody()
+	array(@NdJsonStreamReq({
+		type: UserDto,
+		contentTypes: ['application/x-ndjson', 'application/json'],
+		arrayPath: '$.data.users',
+	}) request: NdJsonStreamRequest<UserDto>) {
+		return request.batchSize;
+	}
+
+	@Post('sequence')
+	@ApiNdJsonBody({ type: EventDto, contentTypes: ['application/json-seq'], maxLineBytes: 512 })
+	sequence(@NdJsonStreamReq() request: NdJsonStreamRequest<EventDto>) {
+		return request.batchSize;
+	}
+
+	@Post('anything')
+	@ApiNdJsonBody()
+	anything(@NdJsonStreamReq() request: NdJsonStreamRequest) {
+		return request.batchSize;
+	}
+}
+
+describe('ApiNdJsonBody', () => {
+	let app: INestApplication;
+	let document: OpenAPIObject;
+
+	beforeAll(async () => {
+		const module = await Test.createTestingModule({ controllers: [ImportController] }).compile();
+		app = module.createNestApplication({ logger: false });
+		await app.init();
+		document = SwaggerModule.createDocument(app, new DocumentBuilder().build());
+	});
+
+	afterAll(async () => {
+		await app.close();
+	});
+
+	const operation = (path: string) => document.paths[path].post as any;
+
+	it('should document the item schema for each accepted content type', () => {
+		const { requestBody } = operation('/import/users');
+
+		expect(requestBody.required).toBe(true);
+		expect(Object.keys(requestBody.content)).toEqual(['application/x-ndjson', 'application/jsonl']);
+		expect(requestBody.content['application/jsonl'].schema).toEqual({ $ref: '#/components/schemas/UserDto' });
+		expect(document.components?.schemas?.UserDto).toMatchObject({
+			properties: { id: { type: 'number' }, email: { type: 'string' } },
+		});
+	});
+
+	it('should state the route limits in the description and the x-ndjson extension', () => {
+		const { requestBody, 'x-ndjson': extension } = operation('/import/users');
+
+		expect(requestBody.description).toContain('each line is one `UserDto` object');
+		expect(requestBody.description).toContain('at most 1000 items, lines of at most 4096 bytes');
+		expect(extension).toEqual({ itemSchema: 'UserDto', limits: { maxItems: 1000, maxLineBytes: 4096 } });
+	});
+
+	it('should let decorator options take precedence over the route options', () => {
+		const { requestBody, 'x-ndjson': extension } = operation('/import/events');
+
+		expect(requestBody.description).toBe('One event per line.');
+		expect(requestBody.content['application/x-ndjson'].schema).toEqual({ $ref: '#/components/schemas/EventDto' });
+		expect(extension).toEqual({ itemSchema: 'EventDto', limits: { maxItems: 10, maxBodyBytes: 2048 } });
+	});
+
+	it('should fall back to a generic object schema and the default content type', () => {
+		const { requestBody, 'x-ndjson': extension } = operation('/import/anything');
+
+		expect(requestBody.content).toEqual({ 'application/x-ndjson': { schema: { type: 'object' } } });
+		expect(requestBody.description).toContain('each line is one JSON object');
+		expect(extension).toEqual({});
+	});
+
+	it('should document a JSON content type as an array of items nested at arrayPath', () => {
+		const { requestBody } = operation('/import/array');
+
+		expect(requestBody.content['application/x-ndjson'].schema).toEqual({ $ref: '#/components/schemas/UserDto' });
+		expect(requestBody.content['application/json'].schema).toEqual({
+			type: 'object',
+			required: ['data'],
+			properties: {
+				data: {
+					type: 'object',
+					required: ['users'],
+					properties: { users: { type: 'array', items: { $ref: '#/components/schemas/UserDto' } } },
+				},
+			},
+		});
+		expect(requestBody.description).toContain(
+			'Newline-delimited JSON (`application/x-ndjson`): each line is one `UserDto` object'
+		);
+		expect(requestBody.description).toContain(
+			'JSON (`application/json`): the array at `$.data.users` holds one `UserDto` object per element.'
+		);
+	});
+
+	it('should document a JSON text sequence one record at a time', () => {
+		const { requestBody } = operation('/import/sequence');
+
+		expect(requestBody.content).toEqual({
+			'application/json-seq': { schema: { $ref: '#/components/schemas/EventDto' } },
+		});
+		expect(requestBody.description).toContain(
+			'JSON text sequence (`application/json-seq`): each record is one `EventDto` object'
+		);
+		expect(requestBody.description).toContain('Limits: items of at most 512 bytes.');
+		expect(requestBody.description).not.toContain('Newline-delimited');
+	});
+});
@@ -0,0 +1,180 @@
+import { applyDecorators, Type } from '@nestjs/common';
+import {
+	ApiExtension,
+	ApiExtraModels,
+	DECORATORS,
+	getSchemaPath,
+	ReferenceObject,
+	RequestBodyObject,
+	SchemaObject,
+} from '@nestjs/swagger';
+
+import { NdJsonStreamOptions } from '../decorators/ndjson-stream.decorator';
+import { NDJSON_STREAM_DEFAULT_CONTENT_TYPES, NDJSON_STREAM_PARAM_METADATA } from '../ndjson-stream.constants';
+import { NdJsonFraming, NdJsonStreamLimits } from '../types/ndjson-stream';
+import { getFraming } from '../utils/framing';
+import { parseArrayPath } from '../utils/json-array-splitter';
+import { ROUTE_ARGS_METADATA } from '../utils/nest-metadata';
+
+/**
+ * Options for the `ApiNdJsonBody` decorator. Any option given here takes
+ * precedence over the same option on the route's `@NdJsonStreamReq()`.
+ */
+export interface ApiNdJsonBodyOptions extends Pick<NdJsonStreamOptions, 'type' | 'contentTypes' | 'arrayPath' | keyof NdJsonStreamLimits> {
+  /**
+   * Replaces the generated request body description.
+   */
+  description?: string;
+}
+
+/**
+ * The `x-ndjson` extension added to documented operations.
+ */
+export interface NdJsonOpenApiExtension {
+  /**
+   * Name of the schema each item conforms to, if known.
+   */
+  itemSchema?: string;
+
+  /**
+   * The size limits configured for the route.
+   */
+  limits?: NdJsonStreamLimits;
+}
+
+/**
+ * Documents an NDJSON request body for `@nestjs/swagger`.
+ *
+ * Each accepted content type is listed with a schema for its framing, derived
+ * from `type`: the item schema for newline-delimited JSON and JSON text
+ * sequences, and an array of items (nested at `arrayPath`) for JSON. Limits configured on the route are stated in the description
+ * and in an `x-ndjson` operation extension. Options not given here are read
+ * from the route's `@NdJsonStreamReq()`, so they need not be repeated. Module
+ * defaults set at runtime are not visible to it; pass them here if needed.
+ *
+ * @param options - Optional overrides for what is documented
+ * @returns A method decorator
+ */
+export function ApiNdJsonBody(options: ApiNdJsonBodyOptions = {}): MethodDecorator {
+	return (target, key, descriptor) => {
+		const { description, ...overrides } = options;
+		const merged: ApiNdJsonBodyOptions = { ...getRouteOptions(target, key), ...definedOnly(overrides) };
+		const { type, contentTypes = NDJSON_STREAM_DEFAULT_CONTENT_TYPES, arrayPath = '$' } = merged;
+		const limits = pickLimits(merged);
+
+		const itemSchema: SchemaObject | ReferenceObject = type ? { $ref: getSchemaPath(type) } : { type: 'object' };
+		const framings = new Map(contentTypes.map((contentType) => [contentType, getFraming(contentType.toLowerCase())]));
+		const extension: NdJsonOpenApiExtension = {
+			...(type ? { itemSchema: type.name } : {}),
+			...(Object.keys(limits).length > 0 ? { limits } : {}),
+		};
+
+		return applyDecorators(
+			...(type ? [ApiExtraModels(type)] : []),
+			ApiRequestBody({
+				required: true,
+				description: description ?? describeBody(type, limits, framings, arrayPath),
+				content: Object.fromEntries(
+					[...framings].map(([contentType, framing]) => [
+						contentType,
+						{ schema: bodySchema(framing, itemSchema, arrayPath) },
+					])
+				),
+			}),
+			ApiExtension('x-ndjson', extension),
+		)(target, key, descriptor);
+	};
+}
+
+/**
+ * Sets the operation's request body. `ApiBody()` gives every content type the
+ * same schema, which does not fit content types framed differently.
+ */
+function ApiRequestBody(requestBody: RequestBodyObject): MethodDecorator {
+	return (_target, _key, descriptor) => {
+		const operation = Reflect.getMetadata(DECORATORS.API_OPERATION, descriptor.value as object) ?? {};
+		Reflect.defineMetadata(DECORATORS.API_OPERATION, { ...operation, requestBody }, descriptor.value as object);
+		return descriptor;
+	};
+}
+
+/**
+ * Builds the body schema for one framing: a JSON body is an array of items,
+ * nested in objects along `arrayPath`; other framings are described one item
+ * at a time.
+ */
+function bodySchema(
+	framing: NdJsonFraming,
+	itemSchema: SchemaObject | ReferenceObject,
+	arrayPath: string
+): SchemaObject | ReferenceObject {
+	if (framing !== 'json-array') return itemSchema;
+	return parseArrayPath(arrayPath).reduceRight<SchemaObject>(
+		(schema, key) => ({ type: 'object', required: [key], properties: { [key]: schema } }),
+		{ type: 'array', items: itemSchema }
+	);
+}
+
+/**
+ * Reads the options passed to `@NdJsonStreamReq()` on the decorated method.
+ */
+function getRouteOptions(target: object, key: string | symbol): NdJsonStreamOptions {
+	const index: number | undefined = Reflect.getMetadata(NDJSON_STREAM_PARAM_METADATA, target.constructor, key);
+	if (index === undefined) return {};
+
+	const args: Record<string, { index: number; data?: unknown }> =
+		Reflect.getMetadata(ROUTE_ARGS_METADATA, target.constructor, key) ?? {};
+	const param = Object.values(args).find((arg) => arg.index === index);
+	return (param?.data as NdJsonStreamOptions | undefined) ?? {};
+}
+
+/**
+ * Drops keys whose value is `undefined`, so they don't mask route options.
+ */
+function definedOnly<O extends object>(options: O): Partial<O> {
+	return Object.fromEntries(Object.entries(options).filter(([, value]) => value !== undefined)) as Partial<O>;
+}
+
+/**
+ * Picks the finite size limits out of a set of options.
+ */
+function pickLimits(options: NdJsonStreamLimits): NdJsonStreamLimits {
+	const limits: NdJsonStreamLimits = {};
+	for (const limit of ['maxLineBytes', 'maxItems', 'maxBodyBytes'] as const) {
+		const value = options[limit];
+		if (value !== undefined && Number.isFinite(value)) limits[limit] = value;
+	}
+	return limits;
+}
+
+/**
+ * Builds the default request body description.
+ */
+function describeBody(
+	type: Type<any> | undefined,
+	limits: NdJsonStreamLimits,
+	framings: Map<string, NdJsonFraming>,
+	arrayPath: string
+): string {
+	const item = type ? `\`${type.name}\`` : 'JSON';
+	const sentences = [...new Set(framings.values())].map((framing) => {
+		const types = [...framings].filter(([, f]) => f === framing).map(([contentType]) => `\`${contentType}\``);
+		switch (framing) {
+		case 'json-seq':
+			return `JSON text sequence (${types.join(', ')}): each record is one ${item} object, and the schema describes a single record.`;
+		case 'json-array':
+			return `JSON (${types.join(', ')}): the array at \`${arrayPath}\` holds one ${item} object per element.`;
+		default:
+			return `Newline-delimited JSON (${types.join(', ')}): each line is one ${item} object, and the schema describes a single line.`;
+		}
+	});
+	const unit = [...framings.values()].every((framing) => framing === 'newline') ? 'lines' : 'items';
+	const stated = [
+		limits.maxItems !== undefined ? `at most ${limits.maxItems} items` : undefined,
+		limits.maxLineBytes !== undefined ? `${unit} of at most ${limits.maxLineBytes} bytes` : undefined,
+		limits.maxBodyBytes !== undefined ? `a body of at most ${limits.maxBodyBytes} bytes after decompression` : undefined,
+	].filter(Boolean);
+	if (stated.length > 0) sentences.push(`Limits: ${stated.join(', ')}.`);
+	sentences.push('The body may be compressed with gzip, deflate or br (`Content-Encoding`).');
+	return sentences.join(' ');
+}
@@ -0,0 +1,3 @@
+export * from './ndjson-test-body';
+export * from './ndjson-test-request';
+export * from './send-ndjson';
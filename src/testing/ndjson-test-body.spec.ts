@@ -0,0 +1,77 @@
+import { Readable } from 'stream';
+import { createNdJsonTestBody, rawLine, socketError } from './ndjson-test-body';
+
+const chunksOf = async (body: Readable): Promise<string[]> => {
+	const chunks: string[] = [];
+	for await (const chunk of body) chunks.push((chunk as Buffer).toString('latin1'));
+	return chunks;
+};
+
+describe('createNdJsonTestBody', () => {
+	it('should send each item as one line and chunk', async () => {
+		await expect(chunksOf(createNdJsonTestBody([{ id: 1 }, 'two', null]))).resolves.toEqual([
+			'{"id":1}\n', '"two"\n', 'null\n',
+		]);
+	});
+
+	it('should send text as it is', async () => {
+		await expect(chunksOf(createNdJsonTestBody('{"id":1}\n\n{"id"'))).resolves.toEqual(['{"id":1}\n\n{"id"']);
+	});
+
+	it('should serialize the items of a generator as they are read', async () => {
+		const read: number[] = [];
+		async function* items() {
+			for (let id = 1; id <= 3; id++) {
+				read.push(id);
+				yield { id };
+			}
+		}
+		const iterator = createNdJsonTestBody(items())[Symbol.asyncIterator]();
+
+		await iterator.next();
+		expect(read.length).toBeLessThan(3);
+		await iterator.return?.();
+	});
+
+	it('should split the body every chunkSize bytes', async () => {
+		await expect(chunksOf(createNdJsonTestBody([{ a: 1 }, { b: 2 }], { chunkSize: 4 }))).resolves.toEqual([
+			'{"a"', ':1}\n', '{"b"', ':2}\n',
+		]);
+	});
+
+	it('should split the body at the given offsets, even within a character', async () => {
+		// 'é' is the bytes 0xc3 0xa9, at offsets 12 and 13
+		const chunks = await chunksOf(createNdJsonTestBody([{ name: 'café' }], { splitAt: [13, 2] }));
+
+		expect(chunks).toEqual(['{"', 'name":"caf\xc3', '\xa9"}\n']);
+		expect(Buffer.from(chunks.join(''), 'latin1').toString('utf8')).toBe('{"name":"café"}\n');
+	});
+
+	it('should send raw lines in place of items', async () => {
+		await expect(chunksOf(createNdJsonTestBody([{ id: 1 }, rawLine('{"id":'), rawLine('')]))).resolves.toEqual([
+			'{"id":1}\n', '{"id":\n', '\n',
+		]);
+	});
+
+	it('should fail with a socket error after what came before it', async () => {
+		const chunks: string[] = [];
+		const body = createNdJsonTestBody([{ id: 1 }, { id: 2 }, socketError(), { id: 3 }], { chunkSize: 5 });
+
+		const error = await (async () => {
+			for await (const chunk of body) chunks.push(chunk.toString());
+		})().catch((e) => e);
+
+		expect(chunks.join('')).toBe('{"id":1}\n{"id":2}\n');
+		expect(error).toMatchObject({ message: 'aborted', code: 'ECONNRESET' });
+	});
+
+	it('should fail with the given error', async () => {
+		const failure = new Error('socket hang up');
+
+		await expect(chunksOf(createNdJsonTestBody([socketError(failure)]))).rejects.toBe(failure);
+	});
+
+	it('should reject a chunk size below 1', () => {
+		expect(() => createNdJsonTestBody([], { chunkSize: 0 })).toThrow(RangeError);
+	});
+});
@@ -0,0 +1,140 @@
+import { Readable } from 'stream';
+
+/**
+ * A line of a test body that is not an item, created with `rawLine()` or
+ * `socketError()`.
+ */
+export interface NdJsonTestLine {
+	readonly [NDJSON_TEST_LINE]: true;
+
+	/**
+	 * Text written as it is, followed by a line break.
+	 */
+	readonly text?: string;
+
+	/**
+	 * The error the body fails with, once the lines before it have been sent.
+	 */
+	readonly error?: Error;
+}
+
+/**
+ * What a test body is made of: NDJSON text, sent as it is, or items, each
+ * sent as one line, from an array, generator or other (async) iterable.
+ * Items may be interleaved with `rawLine()`s and `socketError()`s.
+ */
+export type NdJsonTestInput<T = unknown> = string | Iterable<T | NdJsonTestLine> | AsyncIterable<T | NdJsonTestLine>;
+
+/**
+ * How a test body is split into chunks. By default each line is one chunk.
+ */
+export interface NdJsonTestBodyOptions {
+	/**
+	 * Split the body into chunks of this many bytes, wherever they fall,
+	 * including within a line or a multi-byte UTF-8 character.
+	 */
+	chunkSize?: number;
+
+	/**
+	 * Split the body at these byte offsets, as well as every `chunkSize` bytes.
+	 */
+	splitAt?: number[];
+}
+
+/**
+ * A line sent in place of an item, as it is, such as a malformed one.
+ *
+ * @param text - The line, without its line break
+ * @returns A line to include in a test body's items
+ */
+export function rawLine(text: string): NdJsonTestLine {
+	return { [NDJSON_TEST_LINE]: true, text };
+}
+
+/**
+ * Fails the body at this point, as a request does when its client's
+ * connection is reset mid-upload.
+ *
+ * @param error - The error the body fails with (default: an `ECONNRESET` error, like Node's)
+ * @returns A line to include in a test body's items
+ */
+export function socketError(error: Error = Object.assign(new Error('aborted'), { code: 'ECONNRESET' })): NdJsonTestLine {
+	return { [NDJSON_TEST_LINE]: true, error };
+}
+
+/**
+ * Streams a test body, split into chunks as given.
+ *
+ * @template T - The type of items in the body
+ * @param input - The NDJSON text, or the items to send
+ * @param options - How the body is split into chunks
+ * @returns A stream of the body's bytes, which fails at any `socketError()`
+ */
+export function createNdJsonTestBody<T>(input: NdJsonTestInput<T>, options: NdJsonTestBodyOptions = {}): Readable {
+	const { chunkSize, splitAt = [] } = options;
+	if (chunkSize !== undefined && !(chunkSize >= 1)) {
+		throw new RangeError(`Chunk size must be at least 1, received ${chunkSize}`);
+	}
+	const lines = typeof input === 'string' ? [Buffer.from(input)] : serialize(input);
+	return Readable.from(split(lines, chunkSize, [...splitAt].sort((a, b) => a - b)));
+}
+
+/**
+ * Yields each item as a line, and throws the error of a `socketError()`.
+ */
+async function* serialize<T>(items: Iterable<T | NdJsonTestLine> | AsyncIterable<T | NdJsonTestLine>): AsyncGenerator<Buffer> {
+	for await (const item of items) {
+		if (!isTestLine(item)) {
+			yield Buffer.from(JSON.stringify(item) + '\n');
+		} else if (item.error) {
+			throw item.error;
+		} else {
+			yield Buffer.from(item.text + '\n');
+		}
+	}
+}
+
+/**
+ * Regroups the lines of a body into chunks that end at each multiple of
+ * `chunkSize` and each offset in `splitAt`, or, with neither, one per line.
+ * What was read before a failure is yielded before it is thrown.
+ */
+async function* split(lines: Iterable<Buffer> | AsyncIterable<Buffer>, chunkSize: number | undefined, splitAt: number[]): AsyncGenerator<Buffer> {
+	if (chunkSize === undefined && splitAt.length === 0) {
+		yield* lines;
+		return;
+	}
+
+	let offset = 0;
+	let pending = Buffer.alloc(0);
+	const nextCut = () => {
+		const bySize = chunkSize === undefined ? Infinity : (Math.floor(offset / chunkSize) + 1) * chunkSize;
+		return Math.min(bySize, splitAt.find((at) => at > offset) ?? Infinity);
+	};
+	try {
+		for await (const line of lines) {
+			pending = Buffer.concat([pending, line]);
+			for (let cut = nextCut(); cut - offset <= pending.length; cut = nextCut()) {
+				yield pending.subarray(0, cut - offset);
+				pending = pending.subarray(cut - offset);
+				offset = cut;
+			}
+		}
+	} catch (error) {
+		if (pending.length > 0) yield pending;
+		throw error;
+	}
+	if (pending.length > 0) yield pending;
+}
+
+/**
+ * Whether an item is a `rawLine()` or `socketError()`.
+ */
+function isTestLine(item: unknown): item is NdJsonTestLine {
+	return typeof item === 'object' && item !== null && NDJSON_TEST_LINE in item;
+}
+
+/**
+ * Marks the lines created by `rawLine()` and `socketError()`.
+ */
+const NDJSON_TEST_LINE: unique symbol = Symbol('NdJsonTestLine');
@@ -0,0 +1,111 @@
+import { IsInt } from 'class-validator';
+import { Readable } from 'stream';
+import {
+	NdJsonLimitExceededError,
+	NdJsonParseError,
+	NdJsonUnsupportedMediaTypeError,
+	NdJsonValidationError,
+} from '../errors/ndjson-stream.errors';
+import { NdJsonStreamRequest } from '../types/ndjson-stream';
+import { rawLine, socketError } from './ndjson-test-body';
+import { createNdJsonTestRequest } from './ndjson-test-request';
+
+class ItemDto {
+	@IsInt()
+	id!: number;
+}
+
+const collect = async (request: NdJsonStreamRequest) => {
+	const items: any[] = [];
+	for await (const item of request.body) items.push(item);
+	return items;
+};
+
+describe('createNdJsonTestRequest', () => {
+	it('should build a stream request from an array', async () => {
+		const request = await createNdJsonTestRequest([{ id: 1 }, { id: 2 }]);
+
+		expect(request.batchSize).toBe(25);
+		expect(request.headers['content-type']).toBe('application/x-ndjson');
+		await expect(collect(request)).resolves.toEqual([{ id: 1 }, { id: 2 }]);
+		expect(request.itemNumber).toBe(2);
+	});
+
+	it('should build a stream request from text split within a character', async () => {
+		const text = '{"name":"café"}\n{"name":"naïve"}\n';
+		for (let at = 1; at < Buffer.byteLength(text); at++) {
+			const request = await createNdJsonTestRequest(text, { splitAt: [at] });
+
+			await expect(collect(request)).resolves.toEqual([{ name: 'café' }, { name: 'naïve' }]);
+		}
+	});
+
+	it('should build a stream request from a generator', async () => {
+		function* items() {
+			for (let id = 1; id <= 100; id++) yield { id };
+		}
+		const request = await createNdJsonTestRequest(items(), { chunkSize: 7, route: { batchSize: 40 } });
+
+		const batches: number[] = [];
+		for await (const batch of request.batches()) batches.push(batch.length);
+		expect(batches).toEqual([40, 40, 20]);
+	});
+
+	it('should stop parsing at once when batches() gives up during a read', async () => {
+		async function* items() {
+			yield { id: 1 };
+			await new Promise(() => undefined);
+		}
+		const request = await createNdJsonTestRequest(items());
+
+		for await (const batch of request.batches({ maxWaitMs: 5 })) {
+			expect(batch).toEqual([{ id: 1 }]);
+			break;
+		}
+		await new Promise(setImmediate);
+
+		expect((request as unknown as Readable).destroyed).toBe(true);
+	});
+
+	it('should apply the route options', async () => {
+		const request = await createNdJsonTestRequest([{ id: 1 }, { id: 'two' }], { route: { type: ItemDto } });
+
+		await expect(collect(request)).rejects.toBeInstanceOf(NdJsonValidationError);
+	});
+
+	it('should read the header line before resolving', async () => {
+		const request = await createNdJsonTestRequest([{ tenant: 'acme' }, { id: 1 }], { route: { header: true } });
+
+		expect(request.header).toEqual({ tenant: 'acme' });
+	});
+
+	it('should fail on an injected malformed line', async () => {
+		const request = await createNdJsonTestRequest([{ id: 1 }, rawLine('{"id":'), { id: 3 }], { route: { onError: 'collect' } });
+
+		await expect(collect(request)).resolves.toEqual([{ id: 1 }, { id: 3 }]);
+		expect(request.rejected).toEqual([expect.objectContaining({ itemNumber: 2, line: '{"id":' })]);
+	});
+
+	it('should fail with an injected socket error after the items before it', async () => {
+		const items: unknown[] = [];
+		const request = await createNdJsonTestRequest([{ id: 1 }, socketError(), { id: 2 }]);
+
+		const error = await (async () => {
+			for await (const item of request.body) items.push(item);
+		})().catch((e) => e);
+
+		expect(items).toEqual([{ id: 1 }]);
+		expect(error).toMatchObject({ code: 'ECONNRESET' });
+	});
+
+	it('should enforce limits across chunks', async () => {
+		const request = await createNdJsonTestRequest([{ text: 'x'.repeat(100) }], { chunkSize: 10, route: { maxLineBytes: 50 } });
+
+		await expect(collect(request)).rejects.toBeInstanceOf(NdJsonLimitExceededError);
+	});
+
+	it('should reject what the route does', async () => {
+		await expect(createNdJsonTestRequest('', { headers: { 'content-type': 'text/plain' } })).rejects.toBeInstanceOf(NdJsonUnsupportedMediaTypeError);
+		await expect(createNdJsonTestRequest('{', { route: { header: true } })).rejects.toBeInstanceOf(NdJsonParseError);
+	});
+});
@@ -0,0 +1,88 @@
+import { ExecutionContext } from '@nestjs/common';
+
+import { NdJsonStreamOptions, NdJsonStreamReq } from '../decorators/ndjson-stream.decorator';
+import { NdJsonHttpRequest, NdJsonStreamRequest } from '../types/ndjson-stream';
+import { ROUTE_ARGS_METADATA } from '../utils/nest-metadata';
+import { createNdJsonTestBody, NdJsonTestBodyOptions, NdJsonTestInput } from './ndjson-test-body';
+
+/**
+ * Options for `createNdJsonTestRequest()`.
+ */
+export interface NdJsonTestRequestOptions extends NdJsonTestBodyOptions {
+	/**
+	 * The options of the route's `@NdJsonStreamReq()`.
+	 */
+	route?: NdJsonStreamOptions;
+
+	/**
+	 * Request headers, by lower-case name. `content-type` defaults to
+	 * `application/x-ndjson`.
+	 */
+	headers?: Record<string, string>;
+}
+
+/**
+ * Builds the `NdJsonStreamRequest` a handler would receive for a request
+ * with the given body, by running it through `@NdJsonStreamReq()` exactly as
+ * Nest does, so a controller method can be called directly in a unit test.
+ *
+ * ```typescript
+ * const request = await createNdJsonTestRequest([{ id: 1 }, rawLine('{oops')], { chunkSize: 3 });
+ * await expect(controller.import(request)).rejects.toThrow(NdJsonParseError);
+ * ```
+ *
+ * @template T - The type of items in the body
+ * @template H - The type of the header line, with the `header` route option
+ * @param input - The NDJSON text, or the items to send
+ * @param options - The route's options, the request headers and how the body is chunked
+ * @returns The stream request, once any header line has been read
+ * @throws The decorator's error, such as a `BadRequestException` for a
+ *   content type the route does not accept
+ */
+export async function createNdJsonTestRequest<T = any, H = any>(
+	input: NdJsonTestInput<T>,
+	options: NdJsonTestRequestOptions = {},
+): Promise<NdJsonStreamRequest<T, H>> {
+	const { route, headers, ...bodyOptions } = options;
+	const request: NdJsonHttpRequest = Object.assign(createNdJsonTestBody(input, bodyOptions), {
+		headers: { 'content-type': 'application/x-ndjson', ...headers },
+	});
+	const context = {
+		getType: () => 'http',
+		switchToHttp: () => ({
+			getRequest: () => request,
+			getResponse: () => undefined,
+			getNext: () => undefined,
+		}),
+	} as unknown as ExecutionContext;
+	return getDecoratorFactory()(route, context);
+}
+
+/**
+ * The function `@NdJsonStreamReq()` runs for each request, which Nest keeps
+ * in the route's parameter metadata.
+ */
+type DecoratorFactory = <T, H>(
+	data: NdJsonStreamOptions | undefined,
+	ctx: ExecutionContext,
+) => NdJsonStreamRequest<T, H> | Promise<NdJsonStreamRequest<T, H>>;
+
+/**
+ * Reads the decorator's factory from the metadata of a method it is applied to.
+ */
+function getDecoratorFactory(): DecoratorFactory {
+	if (!decoratorFactory) {
+		class Host {
+			handle(): void { /* decorated below */ }
+		}
+		NdJsonStreamReq()(Host.prototype, 'handle', 0);
+		const [{ factory }] = Object.values(Reflect.getMetadata(ROUTE_ARGS_METADATA, Host, 'handle')) as Array<{ factory: DecoratorFactory }>;
+		decoratorFactory = factory;
+	}
+	return decoratorFactory;
+}
+
+/**
+ * The decorator's factory, once read.
+ */
+let decoratorFactory: DecoratorFactory | undefined;
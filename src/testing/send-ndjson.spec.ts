@@ -0,0 +1,80 @@
+import { Controller, INestApplication, Post } from '@nestjs/common';
+import { Test } from '@nestjs/testing';
+import * as request from 'supertest';
+import { NdJsonStreamReq } from '../decorators/ndjson-stream.decorator';
+import { NdJsonStreamRequest } from '../types/ndjson-stream';
+import { rawLine, socketError } from './ndjson-test-body';
+import { sendNdJson } from './send-ndjson';
+
+const stopped: Error[] = [];
+
+@Controller('import')
+class ImportController {
+	@Post()
+	async import(@NdJsonStreamReq({ contentTypes: ['application/x-ndjson', 'application/jsonl'] }) request: NdJsonStreamRequest<{ id: number }>) {
+		const ids: number[] = [];
+		try {
+			for await (const item of request.body) {
+				ids.push(item.id);
+			}
+		} catch (error) {
+			stopped.push(error as Error);
+			throw error;
+		}
+		return { ids, transferEncoding: request.headers['transfer-encoding'], contentType: request.headers['content-type'] };
+	}
+}
+
+describe('sendNdJson', () => {
+	let app: INestApplication;
+
+	beforeAll(async () => {
+		const module = await Test.createTestingModule({ controllers: [ImportController] }).compile();
+		app = module.createNestApplication({ logger: false });
+		await app.init();
+	});
+
+	afterAll(async () => {
+		await app.close();
+	});
+
+	beforeEach(() => {
+		stopped.length = 0;
+	});
+
+	it('should stream the items as a chunked NDJSON request', async () => {
+		async function* items() {
+			for (let id = 1; id <= 50; id++) yield { id };
+		}
+
+		const response = await sendNdJson(request(app.getHttpServer()).post('/import'), items(), { chunkSize: 5 }).expect(201);
+
+		expect(response.body).toEqual({
+			ids: Array.from({ length: 50 }, (_, index) => index + 1),
+			transferEncoding: 'chunked',
+			contentType: 'application/x-ndjson',
+		});
+	});
+
+	it('should send the given content type', async () => {
+		const response = await sendNdJson(request(app.getHttpServer()).post('/import'), '{"id":1}\n', { contentType: 'application/jsonl' });
+
+		expect(response.body).toMatchObject({ ids: [1], contentType: 'application/jsonl' });
+	});
+
+	it('should let the server answer a malformed line', async () => {
+		await sendNdJson(request(app.getHttpServer()).post('/import'), [{ id: 1 }, rawLine('{"id":')])
+			.expect(400)
+			.expect(({ body }) => expect(body.message).toMatch(/^Failed to parse NDJSON line 2/));
+	});
+
+	it('should reset the connection at a socket error', async () => {
+		const failure = new Error('connection reset by test');
+
+		const error = await sendNdJson(request(app.getHttpServer()).post('/import'), [{ id: 1 }, socketError(failure)]).catch((e) => e);
+
+		expect(error).toBe(failure);
+		await new Promise((resolve) => setTimeout(resolve, 50));
+		expect(stopped).toHaveLength(1);
+	});
+});
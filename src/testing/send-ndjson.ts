@@ -0,0 +1,82 @@
+import { once } from 'events';
+import { ClientRequest } from 'http';
+import { Readable } from 'stream';
+
+import { createNdJsonTestBody, NdJsonTestBodyOptions, NdJsonTestInput } from './ndjson-test-body';
+
+/**
+ * The part of a supertest `Test` (a superagent request) used to stream a
+ * body. Declared structurally so the library does not depend on `supertest`.
+ */
+export interface NdJsonSupertestRequest {
+	set(field: string, value: string): unknown;
+	once(event: 'request', listener: (request: { req: ClientRequest }) => void): unknown;
+}
+
+/**
+ * Options for `sendNdJson()`.
+ */
+export interface NdJsonSendOptions extends NdJsonTestBodyOptions {
+	/**
+	 * The `Content-Type` sent. Defaults to `application/x-ndjson`.
+	 */
+	contentType?: string;
+}
+
+/**
+ * Streams a body as the chunked request of a supertest `Test`, one chunk at
+ * a time as the server reads them, rather than sending it in one piece.
+ * Chain assertions as usual:
+ *
+ * ```typescript
+ * await sendNdJson(request(app.getHttpServer()).post('/import'), generateRows(), { chunkSize: 64 })
+ *   .expect(201);
+ * ```
+ *
+ * At a `socketError()`, the connection is destroyed, so the server sees the
+ * client disconnect mid-upload and the test fails with that error.
+ *
+ * @template R - The type of the supertest `Test`
+ * @param test - The request to send, before it is awaited or ended
+ * @param input - The NDJSON text, or the items to send
+ * @param options - The content type and how the body is chunked
+ * @returns The same `Test`
+ */
+export function sendNdJson<R extends NdJsonSupertestRequest>(test: R, input: NdJsonTestInput, options: NdJsonSendOptions = {}): R {
+	const { contentType = 'application/x-ndjson', ...bodyOptions } = options;
+	test.set('Content-Type', contentType);
+
+	// superagent ends the request straight after emitting 'request', which
+	// would send an empty body; stream the body into it instead
+	test.once('request', ({ req }) => {
+		const body = createNdJsonTestBody(input, bodyOptions);
+		const end = req.end;
+		req.end = (() => {
+			req.end = end;
+			void upload(body, req);
+			return req;
+		}) as ClientRequest['end'];
+	});
+	return test;
+}
+
+/**
+ * Writes a body to a request as the server reads it, then ends the request,
+ * or destroys it if the body fails. The chunks written before a failure are
+ * flushed to the socket first, as they would be before a real reset.
+ */
+async function upload(body: Readable, req: ClientRequest): Promise<void> {
+	let flushed = Promise.resolve();
+	try {
+		for await (const chunk of body) {
+			// The server may answer and close the connection before the body ends
+			if (req.destroyed) return;
+			flushed = new Promise((resolve) => req.write(chunk, () => resolve()));
+			if (req.writableNeedDrain) await once(req, 'drain');
+		}
+		req.end();
+	} catch (error) {
+		await flushed;
+		req.destroy(error as Error);
+	}
+}
@@ -1,12 +1,714 @@
-import { Request } from 'express';
+import { IncomingHttpHeaders, IncomingMessage, ServerResponse } from 'http';
+import { Writable } from 'stream';
+
+/**
+ * Validates and optionally transforms a single parsed NDJSON line.
+ * Throw (or reject) to fail the line; the returned value replaces the parsed one.
+ */
+export type NdJsonItemValidator = (value: unknown) => unknown | Promise<unknown>;
+
+/**
+ * Decodes the text of one line into a value. Throw to reject the line as
+ * malformed.
+ */
+export type NdJsonLineDecoder = (line: string) => unknown;
+
+/**
+ * Built-in decoding behaviour, as an alternative to a custom `NdJsonLineDecoder`.
+ */
+export interface NdJsonDecoderOptions {
+  /**
+   * Applied to every decoded value, as the second argument to `JSON.parse`.
+   */
+  reviver?: (this: any, key: string, value: any) => any;
+
+  /**
+   * Decode integers outside `Number`'s safe range without losing precision,
+   * as a `bigint` or as a string of their digits. Other numbers are decoded
+   * as usual.
+   */
+  bigInt?: 'bigint' | 'string';
+
+  /**
+   * Strip (`'remove'`) or reject as malformed (`'error'`) lines with
+   * `__proto__` keys, or `constructor` keys holding a `prototype`, so decoded
+   * items are safe to merge into other objects.
+   */
+  protoPoisoning?: 'remove' | 'error';
+}
+
+/**
+ * How malformed or invalid lines are handled.
+ * - `fail` - the first bad line aborts the stream (default)
+ * - `skip` - bad lines are dropped
+ * - `collect` - bad lines are dropped and recorded on the request
+ */
+export type NdJsonErrorPolicy = 'fail' | 'skip' | 'collect';
+
+/**
+ * How records are delimited in the stream.
+ * - `newline` - one JSON text per line (NDJSON, JSON Lines) (default)
+ * - `json-seq` - RFC 7464 JSON text sequences: each JSON text is preceded by
+ *   a record separator (`0x1E`) and may span several lines
+ * - `json-array` - a single JSON document; each element of one array within
+ *   it is a record
+ */
+export type NdJsonFraming = 'newline' | 'json-seq' | 'json-array';
+
+/**
+ * A line dropped under a lenient error policy.
+ */
+export interface NdJsonRejectedLine {
+  /**
+   * The raw text of the rejected line.
+   */
+  line: string;
+
+  /**
+   * 1-based position of the line in the stream.
+   */
+  itemNumber: number;
+
+  /**
+   * The parse or validation error that rejected the line.
+   */
+  cause: Error;
+}
+
+/**
+ * An item together with where it came from in the body, yielded instead of
+ * the bare item when `envelope` is set.
+ *
+ * @template T - The type of the item
+ */
+export interface NdJsonEnvelope<T = unknown> {
+  /**
+   * The parsed (and validated) item.
+   */
+  value: T;
+
+  /**
+   * 1-based position of the item's line (or record or array element) in the
+   * stream, the same number reported as `itemNumber` elsewhere.
+   */
+  lineNumber: number;
+
+  /**
+   * Offset in bytes of the start of the line within the (decompressed) body.
+   */
+  byteOffset: number;
+
+  /**
+   * Length of the line in bytes, excluding the newline. For a JSON text
+   * sequence this is the record after its separator; for a JSON array, the
+   * element without surrounding whitespace.
+   */
+  byteLength: number;
+
+  /**
+   * The raw text of the line. Only present with `envelope: { raw: true }`.
+   */
+  raw?: string;
+}
+
+/**
+ * A position in a stream up to which items have been handled: the last item
+ * and the byte offset the rest of the stream starts at.
+ */
+export interface NdJsonCheckpoint {
+  /**
+   * 1-based number of the last item before the position (0 for the start).
+   */
+  itemNumber: number;
+
+  /**
+   * Offset in bytes, within the (decompressed) body, at which the items after
+   * `itemNumber` begin.
+   */
+  byteOffset: number;
+}
+
+/**
+ * Persists the committed position of resumable uploads, keyed by upload ID.
+ * Implement it over a shared store (Redis, a database) when uploads may
+ * resume on another instance.
+ */
+export interface NdJsonCheckpointStore {
+  /**
+   * Returns the committed position of an upload, if any has been saved.
+   */
+  get(uploadId: string): NdJsonCheckpoint | undefined | Promise<NdJsonCheckpoint | undefined>;
+
+  /**
+   * Saves the committed position of an upload.
+   */
+  set(uploadId: string, checkpoint: NdJsonCheckpoint): void | Promise<void>;
+
+  /**
+   * Forgets an upload, e.g. once it has been fully processed.
+   */
+  delete(uploadId: string): void | Promise<void>;
+}
+
+/**
+ * What a stream is expected to contain, verified once it has ended.
+ */
+export interface NdJsonIntegrity {
+  /**
+   * The number of items in the body, not counting blank lines or a header line.
+   */
+  itemCount?: number;
+
+  /**
+   * The SHA-256 digest of the body as sent: the bytes written to
+   * `createParser()`, or those read from the source of `parseStream()` before
+   * any `contentEncoding` is decoded or multipart file extracted.
+   */
+  sha256?: Buffer;
+}
+
+/**
+ * Where to copy the body of a stream as it is parsed.
+ */
+export interface NdJsonArchive {
+  /**
+   * Opens the stream the body is copied to, such as a file. Called on the
+   * first iteration, before any of the body is read.
+   */
+  sink: () => Writable | Promise<Writable>;
+
+  /**
+   * Copy the body after its `Content-Encoding` is decoded, and just the
+   * NDJSON part of a multipart body, rather than the bytes as received.
+   * Defaults to `false`.
+   */
+  decompressed?: boolean;
+}
+
+/**
+ * Where `@NdJsonStreamReq()` copies each request body as it is parsed.
+ */
+export interface NdJsonArchiveOptions extends Omit<NdJsonArchive, 'sink'> {
+  /**
+   * Opens the stream the request's body is copied to, such as a file named
+   * after a request header.
+   */
+  sink: (request: NdJsonHttpRequest) => Writable | Promise<Writable>;
+}
+
+/**
+ * Limits on the rest of a `multipart/form-data` body while its NDJSON part is
+ * found. Exceeding either fails the stream with an `NdJsonLimitExceededError`.
+ */
+export interface NdJsonMultipartLimits {
+  /**
+   * Maximum number of parts in the body, including the NDJSON part.
+   */
+  maxParts?: number;
+
+  /**
+   * Maximum size of a single text field in bytes.
+   */
+  maxFieldBytes?: number;
+}
+
+/**
+ * Which part of a `multipart/form-data` request `@NdJsonStreamReq()` streams.
+ */
+export interface NdJsonMultipartOptions extends NdJsonMultipartLimits {
+  /**
+   * Name of the form field holding the NDJSON file.
+   */
+  field: string;
+}
+
+/**
+ * How to find the NDJSON part of a `multipart/form-data` stream.
+ */
+export interface NdJsonMultipart extends NdJsonMultipartOptions {
+  /**
+   * The boundary given in the stream's content type.
+   */
+  boundary: string;
+
+  /**
+   * Called with each text field, as soon as it is complete.
+   */
+  onField?: (name: string, value: string) => void;
+}
+
+/**
+ * Options for yielding items as `NdJsonEnvelope`s.
+ */
+export interface NdJsonEnvelopeOptions {
+  /**
+   * Whether each envelope includes the raw text of its line. Defaults to `false`.
+   */
+  raw?: boolean;
+}
+
+/**
+ * Live counters for a stream being parsed.
+ */
+export interface NdJsonStreamStats {
+  /**
+   * Bytes of the body parsed so far, after any `Content-Encoding` is decoded.
+   */
+  bytesRead: number;
+
+  /**
+   * Items yielded so far, including any read ahead with `peek()`.
+   */
+  itemsYielded: number;
+
+  /**
+   * Blank lines skipped so far.
+   */
+  blankLines: number;
+
+  /**
+   * Lines rejected so far as malformed or invalid, whether dropped or fatal.
+   */
+  errors: number;
+
+  /**
+   * Milliseconds since parsing started, fixed once it has ended. 0 before
+   * it starts.
+   */
+  readonly elapsedMs: number;
+}
+
+/**
+ * How a stream's parsing ended.
+ * - `completed` - every item was yielded
+ * - `failed` - parsing failed, or the consumer threw
+ * - `aborted` - the consumer stopped iterating early
+ */
+export type NdJsonStreamOutcome = 'completed' | 'failed' | 'aborted';
+
+/**
+ * The final counters of a stream, passed to `onComplete`.
+ */
+export interface NdJsonStreamSummary extends NdJsonStreamStats {
+  outcome: NdJsonStreamOutcome;
+
+  /**
+   * The error the stream failed with, when `outcome` is `'failed'`.
+   */
+  error?: Error;
+}
+
+/**
+ * Callbacks reporting the progress of a stream. They run inline with
+ * parsing, so keep them quick; an error they throw fails the stream.
+ */
+export interface NdJsonStreamHooks {
+  /**
+   * Called when parsing starts, with the stats object that is updated as it
+   * goes.
+   */
+  onStart?: (stats: NdJsonStreamStats) => void;
+
+  /**
+   * Called with a snapshot of the stats as items are yielded, once
+   * `progressItems` items have been yielded or `progressIntervalMs`
+   * milliseconds have passed since the last call.
+   */
+  onProgress?: (stats: NdJsonStreamStats) => void;
+
+  /**
+   * How many items are yielded between calls to `onProgress`. Defaults to
+   * 1000 unless `progressIntervalMs` is given.
+   */
+  progressItems?: number;
+
+  /**
+   * Minimum milliseconds between calls to `onProgress`, checked as items are
+   * yielded.
+   */
+  progressIntervalMs?: number;
+
+  /**
+   * Called once parsing has ended, however it ended.
+   */
+  onComplete?: (summary: NdJsonStreamSummary) => void;
+}
+
+/**
+ * Attribute values recorded on an `NdJsonSpan`.
+ */
+export type NdJsonSpanAttributes = Record<string, string | number | boolean>;
+
+/**
+ * The part of an OpenTelemetry `Span` the parser uses.
+ */
+export interface NdJsonSpan {
+  setAttributes(attributes: NdJsonSpanAttributes): unknown;
+  recordException(exception: Error): unknown;
+  setStatus(status: { code: number; message?: string }): unknown;
+  end(): void;
+}
+
+/**
+ * The part of an OpenTelemetry `Tracer` the parser uses, so a tracer from
+ * `@opentelemetry/api` can be passed as is.
+ */
+export interface NdJsonTracer {
+  startSpan(name: string, options?: { attributes?: NdJsonSpanAttributes }): NdJsonSpan;
+}
+
+/**
+ * Size limits enforced while a stream is parsed. Exceeding any of them fails
+ * the stream with an `NdJsonLimitExceededError`.
+ */
+export interface NdJsonStreamLimits {
+  /**
+   * Maximum size of a single line in bytes, excluding the newline.
+   */
+  maxLineBytes?: number;
+
+  /**
+   * Maximum number of non-blank lines in the stream.
+   */
+  maxItems?: number;
+
+  /**
+   * Maximum size of the whole body in bytes.
+   */
+  maxBodyBytes?: number;
+
+  /**
+   * Maximum ratio of decompressed to compressed bytes for a body sent with a
+   * `Content-Encoding`, checked once it has inflated past 1 MiB. Guards
+   * against zip bombs without capping the size of legitimate uploads.
+   */
+  maxInflationRatio?: number;
+}
+
+/**
+ * Time limits enforced while a stream is parsed. Exceeding either of them
+ * fails the stream with an `NdJsonTimeoutError`.
+ */
+export interface NdJsonStreamTimeouts {
+  /**
+   * Maximum milliseconds without any of the body arriving while the consumer
+   * waits for the next item. Time the consumer spends on an item, or the
+   * body spends paused while a slow archive sink catches up, is not counted.
+   */
+  idleTimeoutMs?: number;
+
+  /**
+   * Maximum milliseconds for the whole stream, from the first iteration
+   * until the last item.
+   */
+  deadlineMs?: number;
+}
+
+/**
+ * Options for `NdJsonStreamParser.createParser` and `parseStream`.
+ * Limits not given fall back to `NDJSON_STREAM_DEFAULT_LIMITS`.
+ */
+export interface NdJsonParserOptions extends NdJsonStreamLimits {
+  /**
+   * How records are delimited. Defaults to `'newline'`. With `'json-seq'`,
+   * the stream is split into RFC 7464 records on the record separator, so a
+   * record may span lines, and a record that may have been truncated is
+   * rejected like a malformed line. With `'json-array'`, the stream is a
+   * single JSON document whose array elements are emitted, holding no more
+   * than one in memory; a document that is not well-formed around them fails
+   * the stream with an `NdJsonParseError` giving the byte offset. Either way
+   * `maxLineBytes` limits the size of a record or element, and item numbers
+   * count them rather than lines.
+   */
+  framing?: NdJsonFraming;
+
+  /**
+   * With `framing: 'json-array'`, the array whose elements are emitted: `'$'`
+   * for the top-level array (default), or a dotted path of object keys such
+   * as `'$.items'` or `'$.data.rows'`.
+   */
+  arrayPath?: string;
+
+  /**
+   * How each line is decoded: a custom decoder, or options for the built-in
+   * one (see `createNdJsonDecoder`). Defaults to plain `JSON.parse`. A line
+   * the decoder throws on is malformed, and is reported as an
+   * `NdJsonParseError` carrying its text and line number.
+   */
+  decoder?: NdJsonLineDecoder | NdJsonDecoderOptions;
+
+  /**
+   * Applied to every parsed line before it is emitted, in order. The value it
+   * returns is emitted in place of the parsed JSON; a line it rejects fails
+   * the stream with an `NdJsonValidationError`.
+   */
+  validate?: NdJsonItemValidator;
+
+  /**
+   * Emit each item wrapped in an `NdJsonEnvelope` recording its line number
+   * and byte range, and optionally its raw text. Defaults to `false`.
+   */
+  envelope?: boolean | NdJsonEnvelopeOptions;
+
+  /**
+   * How malformed or invalid lines are handled. Defaults to `'fail'`, which
+   * fails the stream on the first one. `'skip'` and `'collect'` drop them
+   * and report them to `onReject` instead.
+   */
+  onError?: NdJsonErrorPolicy;
+
+  /**
+   * How many lines may be rejected under `'skip'` or `'collect'` before the
+   * line that crosses the threshold fails the stream. Unlimited if not
+   * specified.
+   */
+  maxErrors?: number;
+
+  /**
+   * Called for every line dropped under `'skip'` or `'collect'`.
+   */
+  onReject?: (rejected: NdJsonRejectedLine) => void;
+
+  /**
+   * Treat the first line as a header describing the rest of the stream, and
+   * pass it to this callback instead of emitting it. A malformed or invalid
+   * header fails the stream whatever the error policy. A stream resuming from
+   * an item other than the first has no header.
+   */
+  onHeader?: (header: unknown) => void;
+
+  /**
+   * Validates and transforms the header, like `validate` does for items.
+   */
+  validateHeader?: NdJsonItemValidator;
+
+  /**
+   * Called with the 1-based line number of each item that is emitted. When
+   * byte offsets are tracked (with `envelope` or `resumeFrom` set), it also
+   * receives the checkpoint just after the item.
+   */
+  onItem?: (itemNumber: number, checkpoint?: NdJsonCheckpoint) => void;
+
+  /**
+   * Where in an earlier stream this one carries on: item numbers and byte
+   * offsets continue from this position rather than from the start. Only
+   * newline-delimited and JSON text sequence framing can resume part-way.
+   */
+  resumeFrom?: NdJsonCheckpoint;
+
+  /**
+   * Items numbered up to and including this one are counted but skipped
+   * without being parsed, because they were already handled.
+   */
+  skipThrough?: number;
+
+  /**
+   * What the stream must contain, checked when it ends: if the item count or
+   * SHA-256 digest differs, the stream fails with an `NdJsonIntegrityError`
+   * after its last item. A function is called only then, so it can read
+   * values sent as HTTP trailers.
+   */
+  verify?: NdJsonIntegrity | (() => NdJsonIntegrity | undefined);
+
+  /**
+   * Counters the parser updates as it goes: `bytesRead`, `blankLines` and
+   * `errors`.
+   */
+  stats?: NdJsonStreamStats;
+}
+
+/**
+ * Options for `NdJsonStreamParser.parseStream`.
+ */
+export interface NdJsonParseStreamOptions extends Omit<NdJsonParserOptions, 'stats'>, NdJsonStreamTimeouts {
+  /**
+   * The `Content-Encoding` the stream was sent with. Supported codings are
+   * `gzip`, `x-gzip`, `deflate`, `br` and `identity`. The stream is
+   * decompressed before it is parsed, so size limits apply to the
+   * decompressed bytes and `maxBodyBytes` also caps how far it may inflate.
+   */
+  contentEncoding?: string;
+
+  /**
+   * The response to the HTTP request being parsed, if any. When parsing stops
+   * before the request body has fully arrived, the request is paused rather
+   * than destroyed until this response has been written, so the client
+   * receives the error response instead of a reset connection. If the
+   * response closes before it has been written, because the client went
+   * away, the stream fails with an `NdJsonAbortedError`.
+   */
+  response?: ServerResponse;
+
+  /**
+   * Stops the stream when aborted, failing it with an `NdJsonAbortedError`
+   * whose `cause` is the signal's reason.
+   */
+  signal?: AbortSignal;
+
+  /**
+   * Parse only the content of one part of a `multipart/form-data` stream,
+   * which is split into parts as it arrives rather than buffered. Size limits
+   * apply to that part alone; the other text fields go to `onField`.
+   */
+  multipart?: NdJsonMultipart;
+
+  /**
+   * Copy the body to a sink while it is parsed. The body flows only as fast
+   * as the slower of the sink and the parser. The sink is ended once parsing
+   * succeeds, and destroyed, with the error if there is one, once it fails
+   * or the consumer stops early. A failing sink fails the parse.
+   */
+  archive?: NdJsonArchive;
+
+  /**
+   * Callbacks reporting the stream's progress and how it ended.
+   */
+  hooks?: NdJsonStreamHooks;
+
+  /**
+   * Record the stream as an `ndjson.parse` span, with the error if it fails:
+   * with the given tracer, or with `true` the global tracer of
+   * `@opentelemetry/api`, if it is installed. Defaults to `false`.
+   */
+  tracing?: boolean | NdJsonTracer;
+}
+
+/**
+ * Options for iterating an NDJSON stream in batches.
+ */
+export interface NdJsonBatchOptions {
+  /**
+   * Maximum time in milliseconds to wait for a batch to fill, measured from
+   * its first item. When it elapses, the partial batch is yielded.
+   * Waits indefinitely if not specified.
+   */
+  maxWaitMs?: number;
+}
+
 /**
- * Extended Express Request type for NDJSON streaming endpoints.
- * Replaces the standard body property with an AsyncGenerator that yields
- * parsed NDJSON objects of type T.
+ * The result of handling one item, correlated with the input line it came from.
+ *
+ * @template R - The type of result returned by the handler
+ */
+export interface NdJsonAck<R = unknown> {
+  /**
+   * 1-based line number of the input item the result belongs to.
+   */
+  itemNumber: number;
+
+  /**
+   * The value returned by the handler for the item.
+   */
+  result: R;
+}
+
+/**
+ * Handles one item of an NDJSON stream and returns its result.
+ */
+export type NdJsonItemHandler<T, R> = (item: T, itemNumber: number) => R | Promise<R>;
+
+/**
+ * Options for acknowledging items as they are consumed.
+ */
+export interface NdJsonAckOptions {
+  /**
+   * How many acknowledgements may wait for the client to read them before
+   * consumption of the request body pauses. Clients that only read the
+   * response once their upload has finished (half-duplex clients) need this
+   * to be at least the number of items they send. Defaults to 1000.
+   */
+  bufferSize?: number;
+}
+
+/**
+ * Options for processing items concurrently.
+ *
+ * @template R - The type of result returned by the handler
+ */
+export interface NdJsonProcessOptions<R = unknown> {
+  /**
+   * Maximum number of items handled at once. Defaults to 1.
+   */
+  concurrency?: number;
+
+  /**
+   * Whether `onResult` receives results in input order rather than in the
+   * order items finish. Results held back behind an earlier item count
+   * against `concurrency` until delivered. Defaults to `false`.
+   */
+  ordered?: boolean;
+
+  /**
+   * Called with the result of each successfully handled item.
+   */
+  onResult?: (result: R, itemNumber: number) => void | Promise<void>;
+}
+
+/**
+ * Summary of a completed `process()` run.
+ */
+export interface NdJsonProcessResult {
+  /**
+   * Number of items the handler completed successfully.
+   */
+  processed: number;
+
+  /**
+   * Number of lines dropped under `onError: 'collect'`. Always 0 under other
+   * policies.
+   */
+  rejected: number;
+}
+
+/**
+ * The part of an HTTP request the library relies on. Express requests are
+ * themselves the body stream; Fastify requests expose it as `raw`.
+ */
+export interface NdJsonHttpRequest {
+  headers: IncomingHttpHeaders;
+  raw?: IncomingMessage;
+}
+
+/**
+ * The stand-in request of a WebSocket or microservice message, which has no
+ * headers of its own.
+ */
+export interface NdJsonMessageRequest {
+  headers: IncomingHttpHeaders;
+
+  /**
+   * The gateway's client socket, for a WebSocket message.
+   */
+  client?: unknown;
+
+  /**
+   * The microservice's context, for a microservice message.
+   */
+  context?: unknown;
+}
+
+/**
+ * Platform-neutral request type for NDJSON streaming endpoints.
+ * The request object provided by the underlying platform, typed as `R`
+ * (such as Express's `Request` or Fastify's `FastifyRequest`), with the
+ * standard body property replaced by an AsyncGenerator that yields parsed
+ * NDJSON objects of type T. For a WebSocket or microservice message, pass
+ * `NdJsonMessageRequest` as `R`.
+ *
+ * @template T - The type of objects yielded by the NDJSON stream
+ * @template H - The type of the header line, on routes that read one
+ * @template R - The type of the platform request
+ */
+export type NdJsonStreamRequest<T = any, H = any, R = IncomingMessage> =
+  Omit<R, keyof NdJsonStreamMembers<T, H>> & NdJsonHttpRequest & NdJsonStreamMembers<T, H>;
+
+/**
+ * What `@NdJsonStreamReq()` adds to the platform request.
  *
  * @template T - The type of objects yielded by the NDJSON stream
+ * @template H - The type of the header line, on routes that read one
  */
-export interface NdJsonStreamRequest<T = any> extends Request {
+export interface NdJsonStreamMembers<T = any, H = any> {
   /**
    * AsyncGenerator that yields parsed NDJSON objects.
    * Each iteration returns the next parsed object from the stream.
@@ -18,4 +720,103 @@ export interface NdJsonStreamRequest<T = any> extends Request {
    * This value is set by the decorator based on the provided options.
    */
   batchSize: number;
+
+  /**
+   * The header line of the body, on a route with `header` set. `undefined`
+   * if the body is empty, or resumes after its first item.
+   */
+  header?: H;
+
+  /**
+   * Reads ahead to inspect the next `count` items without consuming them:
+   * `body` still yields them, in order. `itemNumber` and `commit()` are
+   * unaffected until it does. Rejects if the stream fails before `count`
+   * items are read.
+   *
+   * @param count - How many items to inspect
+   * @returns The next `count` items, or fewer if the stream ends first
+   */
+  peek(count: number): Promise<T[]>;
+
+  /**
+   * Line number of the item most recently yielded by `body`, or 0 before the
+   * first item. Read it inside a `for await` loop to correlate an item with
+   * its input line.
+   */
+  itemNumber: number;
+
+  /**
+   * Lines dropped while iterating with `onError: 'collect'`, in stream order.
+   * Complete once iteration of `body` has finished; empty under other policies.
+   */
+  rejected: NdJsonRejectedLine[];
+
+  /**
+   * The text fields of a `multipart/form-data` request, on a route with
+   * `multipart` set. Fields sent before the NDJSON part are here when the
+   * handler runs; those sent after it are added once `body` has been read.
+   * A repeated field holds its last value.
+   */
+  fields?: Record<string, string>;
+
+  /**
+   * Counters for the body, updated as it is parsed: bytes read, items
+   * yielded, blank lines, errors and elapsed time.
+   */
+  stats: NdJsonStreamStats;
+
+  /**
+   * The `NdJson-Upload-Id` the request was sent with, on a `resumable` route.
+   */
+  uploadId?: string;
+
+  /**
+   * The committed position of the upload: as loaded from the checkpoint
+   * store once iteration starts, then as updated by `commit()`.
+   */
+  checkpoint?: NdJsonCheckpoint;
+
+  /**
+   * Records every item up to the one most recently yielded by `body` as
+   * handled, saving the position in the checkpoint store. An interrupted
+   * upload then resumes after it. Does nothing without an `uploadId` or
+   * before the first item.
+   *
+   * @returns The committed position
+   */
+  commit(): Promise<NdJsonCheckpoint | undefined>;
+
+  /**
+   * Iterates the stream in arrays of up to `batchSize` objects.
+   * Consumes `body`, so use either this or `body` directly, not both.
+   *
+   * @param options - Optional batching behaviour
+   * @returns An AsyncGenerator that yields batches of parsed objects
+   */
+  batches(options?: NdJsonBatchOptions): AsyncGenerator<T[]>;
+
+  /**
+   * Runs `handler` over each item in turn and yields its result as an
+   * `NdJsonAck` correlated with the item's line number. Return the generator
+   * from a handler decorated with `@NdJsonStreamRes()` to stream the
+   * acknowledgements back while the upload is still arriving.
+   * Consumes `body`, so use either this or `body` directly, not both.
+   *
+   * @param handler - Called with each item and its line number
+   * @param options - Optional buffering behaviour
+   * @returns An AsyncGenerator that yields one acknowledgement per item
+   */
+  acknowledge<R>(handler: NdJsonItemHandler<T, R>, options?: NdJsonAckOptions): AsyncGenerator<NdJsonAck<R>>;
+
+  /**
+   * Runs `handler` over the items with up to `concurrency` in flight, reading
+   * the body only while a slot is free. The first failure stops reading,
+   * waits for in-flight items to settle and rejects with that failure.
+   * Consumes `body`, so use either this or `body` directly, not both.
+   *
+   * @param handler - Called with each item and its line number
+   * @param options - Optional concurrency and result handling
+   * @returns A promise resolving to a summary once every item is handled
+   */
+  process<R>(handler: NdJsonItemHandler<T, R>, options?: NdJsonProcessOptions<R>): Promise<NdJsonProcessResult>;
 }
@@ -0,0 +1,120 @@
+import { acknowledge } from './acknowledge';
+import { createRequest } from './item-request.spec-fixture';
+
+const settle = () => new Promise((resolve) => setImmediate(resolve));
+
+describe('acknowledge', () => {
+	it('should yield each result with the line number of its item', async () => {
+		const { request } = createRequest(3);
+		const acks = [];
+
+		for await (const ack of acknowledge(request, (item, itemNumber) => ({ id: item.id, itemNumber }))) {
+			acks.push(ack);
+		}
+
+		expect(acks).toEqual([
+			{ itemNumber: 1, result: { id: 1, itemNumber: 1 } },
+			{ itemNumber: 3, result: { id: 2, itemNumber: 3 } },
+			{ itemNumber: 5, result: { id: 3, itemNumber: 5 } },
+		]);
+	});
+
+	it('should handle items one at a time, in order', async () => {
+		const { request } = createRequest(3);
+		const order: string[] = [];
+		let active = 0;
+
+		const handler = async (item: { id: number }) => {
+			active++;
+			expect(active).toBe(1);
+			order.push(`start ${item.id}`);
+			await new Promise((resolve) => setTimeout(resolve, 4 - item.id));
+			order.push(`end ${item.id}`);
+			active--;
+			return item.id;
+		};
+
+		for await (const _ack of acknowledge(request, handler)) {
+			// consume
+		}
+
+		expect(order).toEqual(['start 1', 'end 1', 'start 2', 'end 2', 'start 3', 'end 3']);
+	});
+
+	it('should yield the acknowledgements produced before a handler failure, then throw', async () => {
+		const { request, state } = createRequest(5);
+		const acks: number[] = [];
+
+		const consume = async () => {
+			for await (const ack of acknowledge(request, (item) => {
+				if (item.id === 3) throw new Error('handler failed');
+				return item.id;
+			})) {
+				acks.push(ack.result);
+			}
+		};
+
+		await expect(consume()).rejects.toThrow('handler failed');
+		expect(acks).toEqual([1, 2]);
+		expect(state.closed).toBe(true);
+	});
+
+	it('should throw errors from the body after the preceding acknowledgements', async () => {
+		const { request } = createRequest(5, 2);
+		const acks: number[] = [];
+
+		const consume = async () => {
+			for await (const ack of acknowledge(request, (item) => item.id)) {
+				acks.push(ack.result);
+			}
+		};
+
+		await expect(consume()).rejects.toThrow('body failed at 3');
+		expect(acks).toEqual([1, 2]);
+	});
+
+	it('should keep consuming the body while acknowledgements wait to be read', async () => {
+		const { request, state } = createRequest(10);
+		const acks = acknowledge(request, (item) => item.id);
+
+		const first = await acks.next();
+		await settle();
+
+		// A half-duplex client reads nothing until its upload is complete
+		expect(first.value).toEqual({ itemNumber: 1, result: 1 });
+		expect(state.pulled).toBe(10);
+		await acks.return(undefined);
+	});
+
+	it('should stop consuming the body once bufferSize acknowledgements are waiting', async () => {
+		const { request, state } = createRequest(10);
+		const acks = acknowledge(request, (item) => item.id, { bufferSize: 2 });
+
+		await acks.next();
+		await settle();
+		expect(state.pulled).toBe(3);
+
+		await acks.next();
+		await settle();
+		expect(state.pulled).toBe(4);
+		await acks.return(undefined);
+	});
+
+	it('should close the body when the consumer stops early', async () => {
+		const { request, state } = createRequest(10);
+
+		for await (const _ack of acknowledge(request, (item) => item.id, { bufferSize: 1 })) {
+			break;
+		}
+		await settle();
+
+		expect(state.closed).toBe(true);
+		expect(state.pulled).toBeLessThan(10);
+	});
+
+	it('should reject a bufferSize below 1', async () => {
+		const { request } = createRequest(1);
+
+		await expect(acknowledge(request, (item) => item, { bufferSize: 0 }).next()).rejects.toThrow(RangeError);
+	});
+});
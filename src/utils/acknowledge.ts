@@ -0,0 +1,96 @@
+import { NdJsonAck, NdJsonAckOptions, NdJsonItemHandler, NdJsonStreamRequest } from '../types/ndjson-stream';
+
+/**
+ * Default number of acknowledgements buffered while the client is not reading.
+ */
+const DEFAULT_ACK_BUFFER_SIZE = 1000;
+
+/**
+ * Runs `handler` over each item of a stream request and yields the results,
+ * each correlated with the line number of the item it belongs to.
+ *
+ * The request body is consumed independently of the returned generator:
+ * items keep being handled while up to `bufferSize` acknowledgements wait to
+ * be read, so a client that is slow to read the response (or, with a large
+ * enough buffer, one that only reads it after uploading everything) does not
+ * stall its own upload. Once the buffer is full, the body is no longer pulled,
+ * which in turn applies backpressure to the upload.
+ *
+ * Items are handled one at a time, in order. If the handler or the body
+ * fails, the acknowledgements produced before the failure are yielded first
+ * and then the error is thrown. Closing the returned generator stops
+ * consumption and closes the body.
+ *
+ * @template T - The type of items in the stream
+ * @template R - The type of result returned by the handler
+ * @param request - The stream request whose body is consumed
+ * @param handler - Called with each item and its line number
+ * @param options - Optional buffering behaviour
+ * @returns An async generator that yields one acknowledgement per item
+ */
+export async function* acknowledge<T, R>(
+	request: NdJsonStreamRequest<T>,
+	handler: NdJsonItemHandler<T, R>,
+	options: NdJsonAckOptions = {},
+): AsyncGenerator<NdJsonAck<R>> {
+	const { bufferSize = DEFAULT_ACK_BUFFER_SIZE } = options;
+	if (!(bufferSize >= 1)) {
+		throw new RangeError(`Acknowledgement buffer size must be at least 1, received ${bufferSize}`);
+	}
+
+	const acks: NdJsonAck<R>[] = [];
+	let finished = false;
+	let stopped = false;
+	let failure: { error: unknown } | undefined;
+	let wakeConsumer: (() => void) | undefined;
+	let wakeProducer: (() => void) | undefined;
+
+	const produce = async (): Promise<void> => {
+		const iterator = request.body[Symbol.asyncIterator]();
+		try {
+			while (!stopped) {
+				const next = await iterator.next();
+				if (next.done) break;
+
+				const itemNumber = request.itemNumber;
+				acks.push({ itemNumber, result: await handler(next.value, itemNumber) });
+				wakeConsumer?.();
+
+				while (acks.length >= bufferSize && !stopped) {
+					await new Promise<void>((resolve) => { wakeProducer = resolve; });
+					wakeProducer = undefined;
+				}
+			}
+		} catch (error) {
+			failure = { error };
+		} finally {
+			finished = true;
+			wakeConsumer?.();
+			await iterator.return(undefined);
+		}
+	};
+	const producing = produce();
+
+	try {
+		while (true) {
+			if (acks.length > 0) {
+				const ack = acks.shift() as NdJsonAck<R>;
+				wakeProducer?.();
+				yield ack;
+			} else if (failure) {
+				throw failure.error;
+			} else if (finished) {
+				return;
+			} else {
+				await new Promise<void>((resolve) => { wakeConsumer = resolve; });
+				wakeConsumer = undefined;
+			}
+		}
+	} finally {
+		stopped = true;
+		wakeProducer?.();
+		// The producer may be waiting on the body; it closes the body itself as
+		// soon as that read settles, so don't block the consumer on it.
+		producing.catch(() => undefined);
+	}
+}
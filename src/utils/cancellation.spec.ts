@@ -0,0 +1,135 @@
+import { EventEmitter } from 'events';
+import { PassThrough } from 'stream';
+import { NdJsonAbortedError, NdJsonTimeoutError } from '../errors/ndjson-stream.errors';
+import { watchForCancellation } from './cancellation';
+
+describe('watchForCancellation', () => {
+	let source: PassThrough;
+	let cancel: jest.Mock;
+
+	beforeEach(() => {
+		jest.useFakeTimers();
+		source = new PassThrough();
+		cancel = jest.fn();
+	});
+
+	afterEach(() => {
+		jest.useRealTimers();
+	});
+
+	it('should cancel once the deadline has passed', () => {
+		watchForCancellation(source, cancel, { deadlineMs: 1000 });
+
+		jest.advanceTimersByTime(999);
+		expect(cancel).not.toHaveBeenCalled();
+		jest.advanceTimersByTime(1);
+
+		const [error] = cancel.mock.calls[0];
+		expect(error).toBeInstanceOf(NdJsonTimeoutError);
+		expect(error).toMatchObject({ timeout: 'deadlineMs', ms: 1000, message: 'NDJSON stream did not complete within 1000 ms' });
+	});
+
+	it('should cancel when no data arrives while waiting for an item', () => {
+		const cancellation = watchForCancellation(source, cancel, { idleTimeoutMs: 100 });
+
+		cancellation.wait();
+		jest.advanceTimersByTime(60);
+		source.write('{"a":');
+		jest.advanceTimersByTime(60);
+		expect(cancel).not.toHaveBeenCalled();
+		jest.advanceTimersByTime(40);
+
+		expect(cancel).toHaveBeenCalledWith(expect.any(NdJsonTimeoutError));
+		expect(cancel.mock.calls[0][0]).toMatchObject({ timeout: 'idleTimeoutMs', ms: 100 });
+	});
+
+	it('should not count the time the consumer holds an item', () => {
+		const cancellation = watchForCancellation(source, cancel, { idleTimeoutMs: 100 });
+
+		cancellation.wait();
+		jest.advanceTimersByTime(90);
+		cancellation.hold();
+		jest.advanceTimersByTime(1000);
+		cancellation.wait();
+		jest.advanceTimersByTime(90);
+
+		expect(cancel).not.toHaveBeenCalled();
+	});
+
+	it('should not count the time the source is paused for backpressure', async () => {
+		const cancellation = watchForCancellation(source, cancel, { idleTimeoutMs: 100 });
+
+		cancellation.wait();
+		jest.advanceTimersByTime(90);
+		source.pause();
+		jest.advanceTimersByTime(1000);
+		expect(cancel).not.toHaveBeenCalled();
+
+		const resumed = new Promise((resolve) => source.once('resume', resolve));
+		source.resume();
+		await resumed;
+		jest.advanceTimersByTime(99);
+		expect(cancel).not.toHaveBeenCalled();
+		jest.advanceTimersByTime(1);
+		expect(cancel).toHaveBeenCalledWith(expect.any(NdJsonTimeoutError));
+	});
+
+	it('should cancel with the reason when the signal is aborted', () => {
+		const controller = new AbortController();
+		watchForCancellation(source, cancel, { signal: controller.signal });
+
+		controller.abort('shutting down');
+
+		const [error] = cancel.mock.calls[0];
+		expect(error).toBeInstanceOf(NdJsonAbortedError);
+		expect(error.message).toBe('NDJSON stream was aborted');
+		expect(error.cause).toBe('shutting down');
+	});
+
+	it('should cancel straight away with an already aborted signal', () => {
+		watchForCancellation(source, cancel, { signal: AbortSignal.abort() });
+
+		expect(cancel).toHaveBeenCalledWith(expect.any(NdJsonAbortedError));
+	});
+
+	it('should cancel when the response closes before it was written', () => {
+		const response = Object.assign(new EventEmitter(), { writableFinished: false, destroyed: false });
+		watchForCancellation(source, cancel, { response: response as any });
+
+		response.emit('close');
+
+		expect(cancel).toHaveBeenCalledWith(expect.objectContaining({
+			message: 'The client disconnected before the NDJSON stream ended',
+		}));
+	});
+
+	it('should not cancel when the response closes after it was written', () => {
+		const response = Object.assign(new EventEmitter(), { writableFinished: true, destroyed: false });
+		watchForCancellation(source, cancel, { response: response as any });
+
+		response.emit('close');
+
+		expect(cancel).not.toHaveBeenCalled();
+	});
+
+	it('should stop watching once disposed', () => {
+		const controller = new AbortController();
+		const response = Object.assign(new EventEmitter(), { writableFinished: false, destroyed: false });
+		const cancellation = watchForCancellation(source, cancel, {
+			idleTimeoutMs: 100,
+			deadlineMs: 200,
+			signal: controller.signal,
+			response: response as any,
+		});
+
+		cancellation.wait();
+		cancellation.dispose();
+		controller.abort();
+		response.emit('close');
+		jest.advanceTimersByTime(1000);
+
+		expect(cancel).not.toHaveBeenCalled();
+		expect(source.listenerCount('data')).toBe(0);
+		expect(response.listenerCount('close')).toBe(0);
+	});
+});
@@ -0,0 +1,106 @@
+import { ServerResponse } from 'http';
+
+import { NdJsonAbortedError, NdJsonTimeoutError } from '../errors/ndjson-stream.errors';
+import { NdJsonStreamTimeouts } from '../types/ndjson-stream';
+
+/**
+ * What can stop a stream before it ends.
+ */
+export interface CancellationOptions extends NdJsonStreamTimeouts {
+	signal?: AbortSignal;
+	response?: ServerResponse;
+}
+
+/**
+ * Tells the idle timer when the consumer is waiting for an item, and stops
+ * watching once the stream is over.
+ */
+export interface StreamCancellation {
+	/**
+	 * The consumer is waiting for the next item: the idle timer runs.
+	 */
+	wait(): void;
+
+	/**
+	 * The consumer has an item: the idle timer stops.
+	 */
+	hold(): void;
+
+	/**
+	 * Clears every timer and listener.
+	 */
+	dispose(): void;
+}
+
+/**
+ * Watches a stream for its deadline, for going idle while the consumer waits
+ * for an item, for its abort signal and for its response closing before it
+ * was written, and calls `cancel` with the matching error on the first of
+ * them. The deadline runs from this call. The idle timer does not run while
+ * the source is paused, as it is when another destination such as an
+ * archive sink applies backpressure, since the client is not to blame then.
+ *
+ * @param source - The stream whose data resets the idle timer
+ * @param cancel - Stops the stream with the given error
+ * @param options - The timeouts, signal and response to watch
+ * @returns Controls for the idle timer, and a way to stop watching
+ */
+export function watchForCancellation(
+	source: NodeJS.ReadableStream,
+	cancel: (error: Error) => void,
+	options: CancellationOptions,
+): StreamCancellation {
+	const { idleTimeoutMs, deadlineMs, signal, response } = options;
+	let idleTimer: NodeJS.Timeout | undefined;
+	let waiting = false;
+
+	const deadlineTimer = deadlineMs === undefined
+		? undefined
+		: setTimeout(() => cancel(new NdJsonTimeoutError('deadlineMs', deadlineMs)), deadlineMs);
+
+	const startIdle = (): void => {
+		clearTimeout(idleTimer);
+		if (source.isPaused()) return;
+		idleTimer = setTimeout(() => cancel(new NdJsonTimeoutError('idleTimeoutMs', idleTimeoutMs as number)), idleTimeoutMs);
+	};
+	const onData = (): void => {
+		if (waiting) startIdle();
+	};
+	const onPause = (): void => clearTimeout(idleTimer);
+	if (idleTimeoutMs !== undefined) {
+		source.on('data', onData);
+		source.on('pause', onPause);
+		source.on('resume', onData);
+	}
+
+	const onAbort = (): void => cancel(new NdJsonAbortedError('NDJSON stream was aborted', signal?.reason));
+	const onClose = (): void => {
+		if (!response?.writableFinished) cancel(new NdJsonAbortedError('The client disconnected before the NDJSON stream ended'));
+	};
+	signal?.addEventListener('abort', onAbort);
+	response?.on('close', onClose);
+
+	// Already stopped before the stream started
+	if (signal?.aborted) onAbort();
+	else if (response?.destroyed) onClose();
+
+	return {
+		wait() {
+			waiting = true;
+			if (idleTimeoutMs !== undefined) startIdle();
+		},
+		hold() {
+			waiting = false;
+			clearTimeout(idleTimer);
+		},
+		dispose() {
+			clearTimeout(idleTimer);
+			clearTimeout(deadlineTimer);
+			source.removeListener('data', onData);
+			source.removeListener('pause', onPause);
+			source.removeListener('resume', onData);
+			signal?.removeEventListener('abort', onAbort);
+			response?.removeListener('close', onClose);
+		},
+	};
+}
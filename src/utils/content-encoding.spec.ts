@@ -0,0 +1,82 @@
+import { Readable, Transform, Writable } from 'stream';
+import { pipeline } from 'stream/promises';
+import { gzipSync } from 'node:zlib';
+import { createDecompressors, parseContentEncoding } from './content-encoding';
+import { NdJsonLimitExceededError, NdJsonUnsupportedMediaTypeError } from '../errors/ndjson-stream.errors';
+
+/**
+ * Decompresses a body through the given stages, resolving to its inflated size.
+ */
+async function inflate(body: Buffer, stages: Transform[]): Promise<number> {
+	let inflated = 0;
+	const counter = new Writable({
+		write(chunk: Buffer, _encoding, callback) {
+			inflated += chunk.length;
+			callback();
+		},
+	});
+	await pipeline([Readable.from([body]), ...stages, counter]);
+	return inflated;
+}
+
+describe('content-encoding', () => {
+	describe('parseContentEncoding', () => {
+		it('should return no codings for a missing header', () => {
+			expect(parseContentEncoding(undefined)).toEqual([]);
+			expect(parseContentEncoding('')).toEqual([]);
+		});
+
+		it('should drop identity', () => {
+			expect(parseContentEncoding('identity')).toEqual([]);
+		});
+
+		it('should normalise case and whitespace', () => {
+			expect(parseContentEncoding(' GZip ,  br')).toEqual(['gzip', 'br']);
+		});
+
+		it('should reject unsupported codings with a 415', () => {
+			expect(() => parseContentEncoding('gzip, compress')).toThrow(NdJsonUnsupportedMediaTypeError);
+			try {
+				parseContentEncoding('zstd');
+			} catch (error) {
+				expect((error as NdJsonUnsupportedMediaTypeError).getStatus()).toBe(415);
+				expect((error as Error).message).toContain('Unsupported content-encoding: zstd');
+			}
+		});
+	});
+
+	describe('createDecompressors', () => {
+		it('should create one decompressor per coding', () => {
+			const decompressors = createDecompressors('deflate, gzip');
+
+			expect(decompressors).toHaveLength(2);
+			decompressors.forEach((d) => {
+				expect(d).toBeInstanceOf(Transform);
+				d.destroy();
+			});
+		});
+
+		it('should create none for an uncompressed body', () => {
+			expect(createDecompressors('identity')).toEqual([]);
+		});
+
+		it('should fail once a body inflates past the maximum ratio', async () => {
+			const bomb = gzipSync(Buffer.alloc(10 * 1024 * 1024));
+			const inflating = inflate(bomb, createDecompressors('gzip', 100));
+
+			await expect(inflating).rejects.toBeInstanceOf(NdJsonLimitExceededError);
+			await expect(inflating).rejects.toMatchObject({ limit: 'maxInflationRatio', max: 100 });
+		});
+
+		it('should let small or moderately compressed bodies through', async () => {
+			const text = Array.from({ length: 50_000 }, (_, id) => `{"id":${id},"name":"user ${Math.random()}"}\n`).join('');
+
+			await expect(inflate(gzipSync(Buffer.alloc(512 * 1024)), createDecompressors('gzip', 100))).resolves.toBe(512 * 1024);
+			await expect(inflate(gzipSync(text), createDecompressors('gzip', 100))).resolves.toBe(Buffer.byteLength(text));
+		});
+
+		it('should not limit inflation by default', async () => {
+			await expect(inflate(gzipSync(Buffer.alloc(4 * 1024 * 1024)), createDecompressors('gzip'))).resolves.toBe(4 * 1024 * 1024);
+		});
+	});
+});
@@ -0,0 +1,92 @@
+import { Transform, TransformCallback } from 'stream';
+import { createBrotliDecompress, createGunzip, createInflate } from 'node:zlib';
+
+import { NdJsonLimitExceededError, NdJsonUnsupportedMediaTypeError } from '../errors/ndjson-stream.errors';
+
+/**
+ * Decompressor factories for the content codings accepted on NDJSON requests.
+ */
+const DECOMPRESSORS: Record<string, () => Transform> = {
+	gzip: createGunzip,
+	'x-gzip': createGunzip,
+	deflate: createInflate,
+	br: createBrotliDecompress,
+};
+
+/**
+ * Parses a `Content-Encoding` header into its codings, in the order they were
+ * applied. `identity` is dropped, so an uncompressed body yields an empty list.
+ *
+ * @param header - The raw `Content-Encoding` header value
+ * @returns The lower-cased content codings
+ * @throws NdJsonUnsupportedMediaTypeError if any coding is not supported
+ */
+export function parseContentEncoding(header: string | undefined): string[] {
+	if (!header) return [];
+
+	const codings = header
+		.split(',')
+		.map((coding) => coding.trim().toLowerCase())
+		.filter((coding) => coding && coding !== 'identity');
+
+	for (const coding of codings) {
+		if (!DECOMPRESSORS[coding]) {
+			throw new NdJsonUnsupportedMediaTypeError(
+				`Unsupported content-encoding: ${coding}. Expected one of ${Object.keys(DECOMPRESSORS).join(', ')}`
+			);
+		}
+	}
+	return codings;
+}
+
+/**
+ * Creates the decompressors for a `Content-Encoding` header, in the order the
+ * body must be piped through them (the reverse of the order applied). When
+ * the body is encoded and `maxInflationRatio` is finite, they are followed by
+ * a stage that fails with an `NdJsonLimitExceededError` once the body has
+ * inflated past 1 MiB and more than that many times its compressed size.
+ *
+ * @param header - The raw `Content-Encoding` header value
+ * @param maxInflationRatio - The most the body may inflate, as a ratio of decompressed to compressed bytes
+ * @returns One decompressor per content coding, then any inflation limit; empty if the body is not encoded
+ * @throws NdJsonUnsupportedMediaTypeError if any coding is not supported
+ */
+export function createDecompressors(header: string | undefined, maxInflationRatio = Infinity): Transform[] {
+	const decompressors = parseContentEncoding(header)
+		.reverse()
+		.map((coding) => DECOMPRESSORS[coding]());
+	if (decompressors.length > 0 && Number.isFinite(maxInflationRatio)) {
+		decompressors.push(new InflationLimit(decompressors[0] as Transform & { bytesWritten: number }, maxInflationRatio));
+	}
+	return decompressors;
+}
+
+/**
+ * Passes decompressed bytes through, failing once there are more than
+ * `maxRatio` times the compressed bytes the first decompressor has consumed.
+ * Small bodies are let through whatever their ratio, as the ratio of a short
+ * repetitive body says little about whether it is an attack.
+ */
+class InflationLimit extends Transform {
+	private inflated = 0;
+
+	constructor(
+		private readonly compressed: { readonly bytesWritten: number },
+		private readonly maxRatio: number,
+	) {
+		super();
+	}
+
+	_transform(chunk: Buffer, _encoding: BufferEncoding, callback: TransformCallback): void {
+		this.inflated += chunk.length;
+		if (this.inflated > INFLATION_GRACE_BYTES && this.inflated > this.compressed.bytesWritten * this.maxRatio) {
+			return callback(new NdJsonLimitExceededError('maxInflationRatio', this.maxRatio));
+		}
+		callback(null, chunk);
+	}
+}
+
+/**
+ * Bytes a body may inflate to before its inflation ratio is checked.
+ */
+const INFLATION_GRACE_BYTES = 1024 * 1024;
@@ -0,0 +1,39 @@
+import { NDJSON_STREAM_DEFAULT_CONTENT_TYPES } from '../ndjson-stream.constants';
+
+/**
+ * The part of a Fastify instance used to register content-type parsers.
+ * Declared structurally so the library does not depend on `fastify`.
+ */
+export interface NdJsonFastifyInstance {
+	addContentTypeParser(
+		contentType: string | string[],
+		parser: (request: any, payload: any, done: (error: Error | null, body?: unknown) => void) => void,
+	): unknown;
+	hasContentTypeParser?(contentType: string): boolean;
+	removeContentTypeParser?(contentType: string): unknown;
+}
+
+/**
+ * Registers a passthrough content-type parser for NDJSON on a Fastify instance.
+ *
+ * Fastify rejects content types it has no parser for, and its built-in parsers
+ * consume the body. The passthrough parser leaves the raw request stream
+ * untouched so `@NdJsonStreamReq()` can read it from `request.raw`.
+ *
+ * A built-in parser already registered for one of the types, such as the one
+ * for `application/json`, is replaced. Every route then receives such bodies
+ * unparsed, so only include `application/json` when JSON array bodies are to
+ * be streamed app-wide.
+ *
+ * @param fastify - The Fastify instance, e.g. `app.getHttpAdapter().getInstance()`
+ * @param contentTypes - The media types to register (default: `application/x-ndjson`)
+ */
+export function registerNdJsonContentTypeParser(
+	fastify: NdJsonFastifyInstance,
+	contentTypes: readonly string[] = NDJSON_STREAM_DEFAULT_CONTENT_TYPES,
+): void {
+	for (const contentType of contentTypes) {
+		if (fastify.hasContentTypeParser?.(contentType)) fastify.removeContentTypeParser?.(contentType);
+	}
+	fastify.addContentTypeParser([...contentTypes], (_request, _payload, done) => done(null));
+}
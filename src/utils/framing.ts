@@ -0,0 +1,16 @@
+import { NdJsonFraming } from '../types/ndjson-stream';
+
+/**
+ * Chooses how records are delimited from the request's media type:
+ * `application/json-seq` and `+json-seq` types are RFC 7464 JSON text
+ * sequences, `application/json` and `+json` types are JSON documents holding
+ * an array, and anything else is newline-delimited.
+ *
+ * @param mediaType - The lower-cased media type, without parameters
+ * @returns The framing of bodies sent with that media type
+ */
+export function getFraming(mediaType: string): NdJsonFraming {
+	if (mediaType === 'application/json-seq' || mediaType.endsWith('+json-seq')) return 'json-seq';
+	if (mediaType === 'application/json' || mediaType.endsWith('+json')) return 'json-array';
+	return 'newline';
+}
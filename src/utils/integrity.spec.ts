@@ -0,0 +1,65 @@
+import { createHash } from 'node:crypto';
+import { getIntegrityCheck, parseIntegrityHeaders } from './integrity';
+import { NdJsonHeaderError } from '../errors/ndjson-stream.errors';
+
+const digest = createHash('sha256').update('{"id":1}\n').digest();
+const base64 = digest.toString('base64');
+
+describe('integrity', () => {
+	describe('parseIntegrityHeaders', () => {
+		it('should return nothing without integrity headers', () => {
+			expect(parseIntegrityHeaders({ 'content-type': 'application/x-ndjson' })).toBeUndefined();
+		});
+
+		it('should read the item count', () => {
+			expect(parseIntegrityHeaders({ 'ndjson-item-count': '1000' })).toEqual({ itemCount: 1000 });
+		});
+
+		it('should read a sha-256 Content-Digest among other algorithms', () => {
+			expect(parseIntegrityHeaders({ 'content-digest': `md5=:AAAA:, SHA-256=:${base64}:` })).toEqual({ sha256: digest });
+		});
+
+		it('should read a sha-256 Digest, preferring Content-Digest', () => {
+			expect(parseIntegrityHeaders({ digest: `sha-256=${base64}` })).toEqual({ sha256: digest });
+			expect(parseIntegrityHeaders({
+				'content-digest': `sha-256=:${base64}:`,
+				digest: `sha-256=${Buffer.alloc(32).toString('base64')}`,
+			})).toEqual({ sha256: digest });
+		});
+
+		it('should ignore digests in other algorithms', () => {
+			expect(parseIntegrityHeaders({ 'content-digest': 'sha-512=:AAAA:' })).toBeUndefined();
+		});
+
+		it.each([
+			[{ 'ndjson-item-count': 'ten' }, 'Invalid NdJson-Item-Count: ten'],
+			[{ 'ndjson-item-count': '-1' }, 'Invalid NdJson-Item-Count: -1'],
+			[{ 'content-digest': `sha-256=${base64}` }, 'Invalid sha-256 value in Content-Digest'],
+			[{ digest: 'sha-256=AAAA' }, 'Invalid sha-256 value in Digest: AAAA'],
+		])('should reject %p', (headers, message) => {
+			expect(() => parseIntegrityHeaders(headers)).toThrow(NdJsonHeaderError);
+			expect(() => parseIntegrityHeaders(headers)).toThrow(message);
+		});
+	});
+
+	describe('getIntegrityCheck', () => {
+		it('should return the header values when no trailers are announced', () => {
+			expect(getIntegrityCheck({ 'ndjson-item-count': '2' }, {})).toEqual({ itemCount: 2 });
+			expect(getIntegrityCheck({ trailer: 'expires' }, {})).toBeUndefined();
+		});
+
+		it('should read announced trailers once they have arrived', () => {
+			const message: { trailers?: NodeJS.Dict<string> } = {};
+			const verify = getIntegrityCheck({ 'ndjson-item-count': '2', trailer: 'Content-Digest' }, message);
+
+			message.trailers = { 'content-digest': `sha-256=:${base64}:` };
+
+			expect(typeof verify).toBe('function');
+			expect((verify as () => unknown)()).toEqual({ itemCount: 2, sha256: digest });
+		});
+
+		it('should reject malformed headers straight away', () => {
+			expect(() => getIntegrityCheck({ 'ndjson-item-count': 'x', trailer: 'content-digest' }, {})).toThrow(NdJsonHeaderError);
+		});
+	});
+});
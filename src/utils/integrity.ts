@@ -0,0 +1,83 @@
+import { IncomingHttpHeaders } from 'http';
+
+import { NdJsonHeaderError } from '../errors/ndjson-stream.errors';
+import { NDJSON_ITEM_COUNT_HEADER } from '../ndjson-stream.constants';
+import { NdJsonIntegrity, NdJsonParserOptions } from '../types/ndjson-stream';
+
+/**
+ * Reads the expected item count from `NdJson-Item-Count`, and the expected
+ * SHA-256 digest from `Content-Digest` (RFC 9530) or the older `Digest`
+ * (RFC 3230). Digests in other algorithms are ignored.
+ *
+ * @returns What the body should contain, or `undefined` if nothing is given
+ * @throws NdJsonHeaderError if a value is malformed
+ */
+export function parseIntegrityHeaders(headers: IncomingHttpHeaders): NdJsonIntegrity | undefined {
+	const integrity: NdJsonIntegrity = {};
+
+	const itemCount = headers[NDJSON_ITEM_COUNT_HEADER] as string | undefined;
+	if (itemCount !== undefined) {
+		if (!/^\s*\d+\s*$/.test(itemCount)) throw new NdJsonHeaderError(NDJSON_ITEM_COUNT_HEADER, `Invalid NdJson-Item-Count: ${itemCount}`);
+		integrity.itemCount = Number(itemCount);
+	}
+
+	const sha256 = readDigest(headers['content-digest'] as string | undefined, 'Content-Digest', CONTENT_DIGEST_VALUE)
+		?? readDigest(headers['digest'] as string | undefined, 'Digest', DIGEST_VALUE);
+	if (sha256) integrity.sha256 = sha256;
+
+	return integrity.itemCount !== undefined || integrity.sha256 ? integrity : undefined;
+}
+
+/**
+ * Builds the `verify` option for a request. Malformed headers are rejected
+ * straight away. When the request announces integrity trailers, the
+ * expectations are read only once the body has ended, from the headers and
+ * trailers together.
+ *
+ * @param headers - The request headers
+ * @param message - The incoming message, whose `trailers` are set once the body has ended
+ * @returns The expectations to verify, or `undefined` if the request gives none
+ * @throws NdJsonHeaderError if a header is malformed
+ */
+export function getIntegrityCheck(
+	headers: IncomingHttpHeaders,
+	message: { trailers?: NodeJS.Dict<string> },
+): NdJsonParserOptions['verify'] {
+	const fromHeaders = parseIntegrityHeaders(headers);
+	const announced = String(headers['trailer'] ?? '').toLowerCase().split(',').map((name) => name.trim());
+	if (!announced.some((name) => INTEGRITY_FIELDS.includes(name))) return fromHeaders;
+	return () => parseIntegrityHeaders({ ...headers, ...message.trailers });
+}
+
+/**
+ * The fields that can carry integrity expectations.
+ */
+const INTEGRITY_FIELDS = [NDJSON_ITEM_COUNT_HEADER, 'content-digest', 'digest'];
+
+/**
+ * A `Content-Digest` value: a structured-field byte sequence, `:base64:`.
+ */
+const CONTENT_DIGEST_VALUE = /^:([A-Za-z0-9+/]+={0,2}):$/;
+
+/**
+ * A `Digest` value: plain base64.
+ */
+const DIGEST_VALUE = /^([A-Za-z0-9+/]+={0,2})$/;
+
+/**
+ * Extracts the `sha-256` entry of a digest field, if it has one.
+ */
+function readDigest(field: string | undefined, name: string, valueFormat: RegExp): Buffer | undefined {
+	if (!field) return undefined;
+	for (const entry of field.split(',')) {
+		const separator = entry.indexOf('=');
+		if (separator < 0 || entry.slice(0, separator).trim().toLowerCase() !== 'sha-256') continue;
+
+		const value = entry.slice(separator + 1).trim();
+		const match = valueFormat.exec(value);
+		const digest = match ? Buffer.from(match[1], 'base64') : undefined;
+		if (digest?.length !== 32) throw new NdJsonHeaderError(name.toLowerCase(), `Invalid sha-256 value in ${name}: ${value}`);
+		return digest;
+	}
+	return undefined;
+}
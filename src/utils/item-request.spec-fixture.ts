@@ -0,0 +1,33 @@
+import { NdJsonStreamRequest } from '../types/ndjson-stream';
+
+/**
+ * A request built by `createRequest()`, with what its body has done so far.
+ */
+export interface ItemRequestFixture {
+	request: NdJsonStreamRequest<{ id: number }>;
+	state: { pulled: number; closed: boolean };
+}
+
+/**
+ * Builds a request whose body yields `count` items on odd line numbers, as if
+ * separated by blank lines, optionally failing after `failAfter` items. Used
+ * by the specs of the helpers that consume `request.body`. Spec-only, so it is
+ * left out of the build.
+ */
+export function createRequest(count: number, failAfter = Infinity): ItemRequestFixture {
+	const state = { pulled: 0, closed: false };
+	const request = { itemNumber: 0, rejected: [] } as unknown as NdJsonStreamRequest<{ id: number }>;
+	request.body = (async function* () {
+		try {
+			for (let id = 1; id <= count; id++) {
+				if (id > failAfter) throw new Error(`body failed at ${id}`);
+				state.pulled = id;
+				request.itemNumber = id * 2 - 1;
+				yield { id };
+			}
+		} finally {
+			state.closed = true;
+		}
+	})();
+	return { request, state };
+}
@@ -0,0 +1,97 @@
+import { BadRequestException } from '@nestjs/common';
+import { JsonArrayElement, JsonArraySplitter, parseArrayPath } from './json-array-splitter';
+
+const split = (chunks: string[], path?: string): JsonArrayElement[] => {
+	const splitter = new JsonArraySplitter(path);
+	const elements = chunks.flatMap((chunk) => splitter.write(chunk));
+	splitter.end();
+	return elements;
+};
+
+const texts = (elements: JsonArrayElement[]) => elements.map((element) => element.text);
+
+describe('json-array-splitter', () => {
+	describe('parseArrayPath', () => {
+		it('should parse the root and dotted paths', () => {
+			expect(parseArrayPath('$')).toEqual([]);
+			expect(parseArrayPath('$.items')).toEqual(['items']);
+			expect(parseArrayPath('$.data.rows')).toEqual(['data', 'rows']);
+		});
+
+		it.each(['', 'items', '$.', '$..items', '$.items.'])('should reject %p', (path) => {
+			expect(() => parseArrayPath(path)).toThrow('Invalid arrayPath');
+		});
+	});
+
+	describe('JsonArraySplitter', () => {
+		it('should split the elements of a top-level array', () => {
+			expect(texts(split(['[{"id":1}, {"id":2},\n  "three", 4, true, null, [5, 6]]']))).toEqual([
+				'{"id":1}', '{"id":2}', '"three"', '4', 'true', 'null', '[5, 6]',
+			]);
+		});
+
+		it('should split identically however the body is chunked', () => {
+			const body = '{"meta":{"items":[0]},"items":[{"s":"a,]}\\"[{"}, [1, [2]], -3.5e2, "\\u00e9"],"after":[{}]}';
+			const expected = texts(split([body], '$.items'));
+
+			expect(expected).toEqual(['{"s":"a,]}\\"[{"}', '[1, [2]]', '-3.5e2', '"\\u00e9"']);
+			for (let i = 1; i < body.length; i++) {
+				expect(texts(split([body.slice(0, i), body.slice(i)], '$.items'))).toEqual(expected);
+			}
+			expect(texts(split([...body], '$.items'))).toEqual(expected);
+		});
+
+		it('should follow a path of object keys and skip everything else', () => {
+			const body = '{"items":"not this","data":{"items":[1],"rows":[{"id":1},{"id":2}]},"rows":[3]}';
+
+			expect(texts(split([body], '$.data.rows'))).toEqual(['{"id":1}', '{"id":2}']);
+		});
+
+		it('should match escaped keys by their value', () => {
+			expect(texts(split(['{"it\\u0065ms":[1,2]}'], '$.items'))).toEqual(['1', '2']);
+		});
+
+		it('should yield nothing for an empty array', () => {
+			expect(split([' [ ] '])).toEqual([]);
+		});
+
+		it('should report the byte offset of each element', () => {
+			const elements = split(['["é", ', '{"a":"€"}, 3]']);
+
+			expect(elements.map((element) => element.byteOffset)).toEqual([1, 7, 20]);
+		});
+
+		it('should hold only the element being scanned', () => {
+			const splitter = new JsonArraySplitter('$.items');
+
+			expect(splitter.write('{"skipped":"xxxxxxxxxx","items":[1,{"a":')).toEqual([
+				{ text: '1', byteOffset: 33 },
+			]);
+			expect(splitter.pending).toBe('{"a":');
+		});
+
+		it.each([
+			['{"id":1}', 'Invalid JSON array body at byte 0: expected an array at $'],
+			['"text"', 'Invalid JSON array body at byte 0: expected an array at $'],
+			['[1,2] [3]', "Invalid JSON array body at byte 6: unexpected '[' after the end of the document"],
+			['[1,2,]', "Invalid JSON array body at byte 5: unexpected ']'"],
+			['[1 2]', "Invalid JSON array body at byte 3: unexpected '2' in array"],
+			['[{"a" 1}]', "Invalid JSON array body at byte 6: unexpected '1' in object"],
+			['[1, [2', 'Invalid JSON array body at byte 6: unexpected end of input'],
+			['["abc', 'Invalid JSON array body at byte 5: unexpected end of input'],
+		])('should reject %p', (body, message) => {
+			expect(() => split([body])).toThrow(new BadRequestException(message));
+		});
+
+		it('should reject a body whose path leads somewhere other than an array', () => {
+			expect(() => split(['[1]'], '$.items')).toThrow('Invalid JSON array body at byte 0: expected an object at $');
+			expect(() => split(['{"items":{}}'], '$.items')).toThrow('Invalid JSON array body at byte 9: expected an array at $.items');
+			expect(() => split(['{"data":[]}'], '$.data.items')).toThrow('Invalid JSON array body at byte 8: expected an object at $.data');
+		});
+
+		it('should reject a body without an array at the path', () => {
+			expect(() => split(['{"other":[1]}'], '$.items')).toThrow('Invalid JSON array body: no array found at $.items');
+			expect(() => split(['  '])).toThrow('Invalid JSON array body: no array found at $');
+		});
+	});
+});
@@ -0,0 +1,248 @@
+import { NdJsonParseError } from '../errors/ndjson-stream.errors';
+
+/**
+ * The raw text of one array element and where it starts in the body.
+ */
+export interface JsonArrayElement {
+	text: string;
+	byteOffset: number;
+}
+
+/**
+ * A container being scanned, with what it expects next.
+ */
+interface Frame {
+	type: '{' | '[';
+	state: 'start' | 'key' | 'colon' | 'value' | 'comma';
+	/** Position in the path of this container's value, if it lies on the path */
+	pathIndex?: number;
+	/** The key of the member currently being scanned (objects on the path only) */
+	key?: string;
+	/** Whether this is the array whose elements are emitted */
+	target: boolean;
+}
+
+/**
+ * Parses an `arrayPath` such as `$` or `$.data.items` into its keys.
+ */
+export function parseArrayPath(path: string): string[] {
+	if (path === '$') return [];
+	const keys = path.startsWith('$.') ? path.slice(2).split('.') : [];
+	if (keys.length === 0 || keys.some((key) => !key)) {
+		throw new Error(`Invalid arrayPath: ${path}. Expected '$' or a dotted path such as '$.data.items'`);
+	}
+	return keys;
+}
+
+/**
+ * Incrementally splits a JSON document into the raw text of the elements of
+ * one array within it: the top-level array, or the array reached by a path of
+ * object keys.
+ *
+ * Only the element currently being scanned is held in memory; everything
+ * outside the target array is scanned for structure and discarded. Elements
+ * are not parsed here, so the caller can handle malformed elements the same
+ * way as malformed lines. Structural errors, after which the document cannot
+ * be split any further, throw an `NdJsonParseError` naming the byte offset.
+ */
+export class JsonArraySplitter {
+	private readonly keys: string[];
+	private readonly stack: Frame[] = [];
+	private byteOffset = 0;
+	private rootStarted = false;
+	private found = false;
+
+	private inString = false;
+	private escaped = false;
+	private inScalar = false;
+	private readingKey = false;
+	private keyText = '';
+	private element: string | undefined;
+	private elementOffset = 0;
+
+	constructor(private readonly path = '$') {
+		this.keys = parseArrayPath(path);
+	}
+
+	/**
+	 * Text of the element currently being scanned, for enforcing size limits.
+	 */
+	get pending(): string {
+		return this.element ?? '';
+	}
+
+	/**
+	 * Scans the next chunk of the document.
+	 *
+	 * @returns The elements completed within the chunk
+	 */
+	write(chunk: string): JsonArrayElement[] {
+		const elements: JsonArrayElement[] = [];
+		let captureFrom = 0;
+		let keyFrom = 0;
+
+		// Completes the element being captured if it ends before index `end`
+		// and its container is the target array.
+		const finishElement = (end: number): void => {
+			if (this.element === undefined || !this.top()?.target) return;
+			elements.push({ text: (this.element + chunk.slice(captureFrom, end)).trim(), byteOffset: this.elementOffset });
+			this.element = undefined;
+		};
+
+		for (let i = 0; i < chunk.length; i++) {
+			const code = chunk.charCodeAt(i);
+			const offset = this.byteOffset;
+			this.byteOffset += code < 0x80 ? 1 : code < 0x800 ? 2 : code >= 0xd800 && code <= 0xdfff ? 2 : 3;
+
+			if (this.inString) {
+				if (this.escaped) {
+					this.escaped = false;
+				} else if (code === 0x5c) {
+					this.escaped = true;
+				} else if (code === 0x22) {
+					this.inString = false;
+					if (this.readingKey) {
+						this.readingKey = false;
+						this.top()!.key = JSON.parse(`"${this.keyText}${chunk.slice(keyFrom, i)}"`);
+						this.keyText = '';
+					} else {
+						finishElement(i + 1);
+					}
+				}
+				continue;
+			}
+
+			const char = chunk[i];
+			if (this.inScalar) {
+				if (!isDelimiter(char)) continue;
+				this.inScalar = false;
+			}
+			if (isWhitespace(char)) continue;
+
+			const frame = this.stack[this.stack.length - 1];
+			if (!frame) {
+				if (this.rootStarted) throw this.syntaxError(offset, `unexpected '${char}' after the end of the document`);
+				this.rootStarted = true;
+				this.startValue(char, offset, 0);
+				continue;
+			}
+
+			// Only a number or literal is still open here; anything else finished
+			// as it closed
+			if (char === ',' || char === ']') finishElement(i);
+
+			if (frame.type === '{') {
+				if ((frame.state === 'start' || frame.state === 'key') && char === '"') {
+					frame.state = 'colon';
+					this.inString = true;
+					if (frame.pathIndex !== undefined) {
+						this.readingKey = true;
+						keyFrom = i + 1;
+					}
+				} else if (frame.state === 'colon' && char === ':') {
+					frame.state = 'value';
+				} else if (frame.state === 'value') {
+					frame.state = 'comma';
+					this.startValue(char, offset, this.childPathIndex(frame));
+				} else if (frame.state === 'comma' && char === ',') {
+					frame.state = 'key';
+					frame.key = undefined;
+				} else if ((frame.state === 'start' || frame.state === 'comma') && char === '}') {
+					this.stack.pop();
+					finishElement(i + 1);
+				} else {
+					throw this.syntaxError(offset, `unexpected '${char}' in object`);
+				}
+			} else if ((frame.state === 'start' || frame.state === 'comma') && char === ']') {
+				this.stack.pop();
+				finishElement(i + 1);
+			} else if (frame.state === 'comma' && char === ',') {
+				frame.state = 'value';
+			} else if (frame.state === 'start' || frame.state === 'value') {
+				frame.state = 'comma';
+				const isElement = frame.target;
+				this.startValue(char, offset, undefined);
+				if (isElement) {
+					this.element = '';
+					this.elementOffset = offset;
+					captureFrom = i;
+				}
+			} else {
+				throw this.syntaxError(offset, `unexpected '${char}' in array`);
+			}
+		}
+
+		if (this.element !== undefined) this.element += chunk.slice(captureFrom);
+		if (this.readingKey) this.keyText += chunk.slice(keyFrom);
+		return elements;
+	}
+
+	/**
+	 * Checks that the document is complete and contained the target array.
+	 */
+	end(): void {
+		if (this.inString || this.stack.length > 0) {
+			throw this.syntaxError(this.byteOffset, 'unexpected end of input');
+		}
+		if (!this.found) {
+			throw new NdJsonParseError(`Invalid JSON array body: no array found at ${this.path}`);
+		}
+	}
+
+	/**
+	 * Begins a value whose first character is `char`. `pathIndex` is the
+	 * value's position along the path, if it lies on it.
+	 */
+	private startValue(char: string, offset: number, pathIndex: number | undefined): void {
+		const onPath = pathIndex !== undefined;
+		const isTarget = onPath && pathIndex === this.keys.length;
+
+		if (char === '{' || char === '[') {
+			if (isTarget && char !== '[') throw this.syntaxError(offset, `expected an array at ${this.path}`);
+			if (onPath && !isTarget && char !== '{') throw this.syntaxError(offset, `expected an object at ${this.pathTo(pathIndex)}`);
+			if (isTarget) this.found = true;
+			this.stack.push({ type: char, state: 'start', pathIndex: isTarget ? undefined : pathIndex, target: isTarget });
+			return;
+		}
+
+		if (onPath) {
+			throw this.syntaxError(offset, `expected ${isTarget ? 'an array' : 'an object'} at ${this.pathTo(pathIndex)}`);
+		}
+		if (char === '"') {
+			this.inString = true;
+		} else if (char === ',' || char === ':' || char === ']' || char === '}') {
+			throw this.syntaxError(offset, `unexpected '${char}'`);
+		} else {
+			this.inScalar = true;
+		}
+	}
+
+	/**
+	 * Position along the path of the value of the member currently being
+	 * scanned in `frame`, or `undefined` if that value is off the path.
+	 */
+	private childPathIndex(frame: Frame): number | undefined {
+		if (frame.pathIndex === undefined || frame.key !== this.keys[frame.pathIndex]) return undefined;
+		return frame.pathIndex + 1;
+	}
+
+	private top(): Frame | undefined {
+		return this.stack[this.stack.length - 1];
+	}
+
+	private pathTo(pathIndex: number): string {
+		return ['$', ...this.keys.slice(0, pathIndex)].join('.');
+	}
+
+	private syntaxError(offset: number, reason: string): NdJsonParseError {
+		return new NdJsonParseError(`Invalid JSON array body at byte ${offset}: ${reason}`, { byteOffset: offset });
+	}
+}
+
+function isWhitespace(char: string): boolean {
+	return char === ' ' || char === '\n' || char === '\r' || char === '\t';
+}
+
+function isDelimiter(char: string): boolean {
+	return isWhitespace(char) || char === ',' || char === ']' || char === '}';
+}
@@ -0,0 +1,108 @@
+import { createNdJsonDecoder, defaultLineDecoder } from './line-decoder';
+
+describe('line-decoder', () => {
+	it('should decode with JSON.parse by default', () => {
+		expect(defaultLineDecoder('{"id":1}')).toEqual({ id: 1 });
+		expect(() => defaultLineDecoder('{')).toThrow(SyntaxError);
+	});
+
+	describe('createNdJsonDecoder', () => {
+		it('should behave like JSON.parse without options', () => {
+			const decode = createNdJsonDecoder();
+
+			expect(decode('{"id":9007199254740993,"__proto__":{}}')).toEqual(JSON.parse('{"id":9007199254740993,"__proto__":{}}'));
+		});
+
+		it('should apply a reviver', () => {
+			const decode = createNdJsonDecoder({
+				reviver: (key, value) => (key === 'at' ? new Date(value) : value),
+			});
+
+			expect(decode('{"at":"2024-01-02T03:04:05.000Z"}')).toEqual({ at: new Date('2024-01-02T03:04:05.000Z') });
+		});
+
+		describe('with bigInt', () => {
+			it('should decode unsafe integers as bigints and leave other numbers alone', () => {
+				const decode = createNdJsonDecoder({ bigInt: 'bigint' });
+
+				expect(decode('{"id":9007199254740993,"small":9007199254740991,"neg":-18446744073709551615,"f":1.5e3}')).toEqual({
+					id: 9007199254740993n,
+					small: 9007199254740991,
+					neg: -18446744073709551615n,
+					f: 1500,
+				});
+				expect(decode('[12345678901234567890]')).toEqual([12345678901234567890n]);
+				expect(decode('12345678901234567890')).toBe(12345678901234567890n);
+			});
+
+			it('should decode unsafe integers as strings', () => {
+				const decode = createNdJsonDecoder({ bigInt: 'string' });
+
+				expect(decode('{"id":9007199254740993}')).toEqual({ id: '9007199254740993' });
+			});
+
+			it('should not touch digits inside strings or decimals', () => {
+				const decode = createNdJsonDecoder({ bigInt: 'bigint' });
+
+				expect(decode('{"s":"9007199254740993 \\" 9007199254740993","d":90071992547409931.5}')).toEqual({
+					s: '9007199254740993 " 9007199254740993',
+					d: 90071992547409931.5,
+				});
+			});
+
+			it('should not turn client strings into bigints', () => {
+				const decode = createNdJsonDecoder({ bigInt: 'bigint' });
+
+				expect(decode('{"id":9007199254740993,"s":"\\u0000:1"}')).toEqual({ id: 9007199254740993n, s: '\u0000:1' });
+			});
+
+			it('should compose with a reviver, which sees the exact value', () => {
+				const reviver = jest.fn((key, value) => value);
+				const decode = createNdJsonDecoder({ bigInt: 'bigint', reviver });
+
+				decode('{"id":9007199254740993}');
+
+				expect(reviver).toHaveBeenCalledWith('id', 9007199254740993n);
+			});
+		});
+
+		describe('with protoPoisoning', () => {
+			it.each([
+				'{"a":1,"__proto__":{"admin":true}}',
+				'{"a":1,"\\u005f_proto__":{"admin":true}}',
+				'{"a":1,"constructor":{"prototype":{"admin":true}}}',
+				'{"a":1,"\\u0063onstructor":{"prototype":{"admin":true}}}',
+			])('should strip dangerous keys from %s', (line) => {
+				const decode = createNdJsonDecoder({ protoPoisoning: 'remove' });
+
+				const value = decode(line) as object;
+
+				expect(value).toEqual({ a: 1 });
+				expect(Object.keys(value)).toEqual(['a']);
+				expect(Object.assign({}, value)).not.toHaveProperty('admin');
+			});
+
+			it('should strip dangerous keys from nested objects', () => {
+				const decode = createNdJsonDecoder({ protoPoisoning: 'remove' });
+
+				expect(decode('{"user":{"name":"a","__proto__":{"admin":true}}}')).toEqual({ user: { name: 'a' } });
+			});
+
+			it('should reject lines with dangerous keys', () => {
+				const decode = createNdJsonDecoder({ protoPoisoning: 'error' });
+
+				expect(() => decode('{"__proto__":{"admin":true}}')).toThrow('Forbidden key "__proto__" (prototype poisoning)');
+				expect(() => decode('{"constructor":{"prototype":{}}}')).toThrow('Forbidden key "constructor"');
+			});
+
+			it('should allow a constructor key without a prototype', () => {
+				const decode = createNdJsonDecoder({ protoPoisoning: 'error' });
+
+				expect(decode('{"constructor":"Ford","nested":{"constructor":{"name":"x"}}}')).toEqual({
+					constructor: 'Ford',
+					nested: { constructor: { name: 'x' } },
+				});
+			});
+		});
+	});
+});
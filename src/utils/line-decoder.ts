@@ -0,0 +1,116 @@
+import { randomUUID } from 'node:crypto';
+
+import { NdJsonDecoderOptions, NdJsonLineDecoder } from '../types/ndjson-stream';
+
+/**
+ * Decodes lines with `JSON.parse`, as when no decoder is configured.
+ */
+export const defaultLineDecoder: NdJsonLineDecoder = (line) => JSON.parse(line);
+
+/**
+ * Builds a line decoder from the built-in decoding options.
+ *
+ * - `bigInt` keeps integers outside `Number`'s safe range exact, as a
+ *   `bigint` or as a decimal string, instead of rounding them.
+ * - `protoPoisoning` strips (`'remove'`) or rejects (`'error'`) `__proto__`
+ *   keys and `constructor` keys holding a `prototype`, however they are
+ *   escaped, so parsed items are safe to merge into other objects.
+ * - `reviver` is applied as by `JSON.parse`, after the above.
+ *
+ * Lines that need none of these are parsed by plain `JSON.parse`, so the
+ * options cost little on ordinary input.
+ *
+ * @param options - The decoding behaviour
+ * @returns A decoder for `NdJsonParserOptions.decoder`
+ */
+export function createNdJsonDecoder(options: NdJsonDecoderOptions = {}): NdJsonLineDecoder {
+	const { reviver, bigInt, protoPoisoning } = options;
+	// Unsafe integers are quoted with a prefix no client can predict, then
+	// converted back by the reviver
+	const marker = `\u0000${randomUUID()}:`;
+	const quotedMarker = JSON.stringify(marker).slice(1, -1);
+
+	const revive = function (this: unknown, key: string, value: unknown): unknown {
+		if (bigInt && typeof value === 'string' && value.startsWith(marker)) {
+			const digits = value.slice(marker.length);
+			value = bigInt === 'string' ? digits : BigInt(digits);
+		}
+		if (protoPoisoning && isPoisonedKey(key, value)) {
+			if (protoPoisoning === 'error') throw new SyntaxError(`Forbidden key "${key}" (prototype poisoning)`);
+			return undefined;
+		}
+		return reviver ? reviver.call(this, key, value) : value;
+	};
+
+	return (line) => {
+		const text = bigInt && UNSAFE_INTEGER_CANDIDATE.test(line) ? quoteUnsafeIntegers(line, quotedMarker) : line;
+		const needsReviver = reviver !== undefined
+			|| text !== line
+			|| (protoPoisoning !== undefined && POISONING_CANDIDATE.test(line));
+		return needsReviver ? JSON.parse(text, revive) : JSON.parse(text);
+	};
+}
+
+/**
+ * A run of digits long enough that it may not be a safe integer.
+ */
+const UNSAFE_INTEGER_CANDIDATE = /\d{16}/;
+
+/**
+ * Text that may spell a dangerous key, directly or through escapes.
+ */
+const POISONING_CANDIDATE = /__proto__|constructor|\\u/;
+
+/**
+ * Whether a key of a parsed object could poison a prototype once merged.
+ */
+function isPoisonedKey(key: string, value: unknown): boolean {
+	if (key === '__proto__') return true;
+	return key === 'constructor' && typeof value === 'object' && value !== null
+		&& Object.prototype.hasOwnProperty.call(value, 'prototype');
+}
+
+/**
+ * Replaces integer literals outside the safe range, outside of strings, with
+ * strings of their digits prefixed by `marker` (already escaped for JSON).
+ */
+function quoteUnsafeIntegers(line: string, marker: string): string {
+	let result = '';
+	let copied = 0;
+	let inString = false;
+
+	for (let i = 0; i < line.length; i++) {
+		const code = line.charCodeAt(i);
+		if (inString) {
+			if (code === 0x5c) i++;
+			else if (code === 0x22) inString = false;
+			continue;
+		}
+		if (code === 0x22) {
+			inString = true;
+			continue;
+		}
+		if (code !== 0x2d && (code < 0x30 || code > 0x39)) continue;
+
+		let end = i + 1;
+		while (end < line.length && NUMBER_CHARS.test(line[end])) end++;
+		const token = line.slice(i, end);
+		if (INTEGER.test(token) && !Number.isSafeInteger(Number(token))) {
+			result += `${line.slice(copied, i)}"${marker}${token}"`;
+			copied = end;
+		}
+		i = end - 1;
+	}
+
+	return copied === 0 ? line : result + line.slice(copied);
+}
+
+/**
+ * Characters that may continue a number literal.
+ */
+const NUMBER_CHARS = /[0-9.eE+-]/;
+
+/**
+ * A number literal without a fraction or exponent.
+ */
+const INTEGER = /^-?\d+$/;
@@ -0,0 +1,95 @@
+import { BadRequestException } from '@nestjs/common';
+import { Observable, Subject } from 'rxjs';
+import { Readable } from 'stream';
+import { createMessageSource } from './message-source';
+
+const read = async (stream: Readable): Promise<string> => {
+	const chunks: Buffer[] = [];
+	for await (const chunk of stream) chunks.push(chunk);
+	return Buffer.concat(chunks).toString('utf8');
+};
+
+describe('createMessageSource', () => {
+	const ndjson = '{"name":"café"}\n{"id":2}\n';
+	const bytes = Buffer.from(ndjson);
+
+	it.each([
+		['a string', ndjson],
+		['a Buffer', bytes],
+		['a Uint8Array', new Uint8Array(bytes)],
+		['an ArrayBuffer', new Uint8Array(bytes).buffer],
+		['a Buffer serialized to JSON', JSON.parse(JSON.stringify(bytes))],
+	])('should stream %s', async (_name, payload) => {
+		await expect(read(createMessageSource(payload))).resolves.toBe(ndjson);
+	});
+
+	it('should assemble chunks split within a character', async () => {
+		// 'é' is two bytes in UTF-8; split between them
+		const split = bytes.indexOf(0xa9);
+		const chunks = [bytes.subarray(0, split), bytes.subarray(split)];
+
+		await expect(read(createMessageSource(chunks))).resolves.toBe(ndjson);
+	});
+
+	it('should assemble the chunks of an async iterable', async () => {
+		async function* frames() {
+			yield '{"name":';
+			yield Buffer.from('"café"}\n{"id"');
+			yield ':2}\n';
+		}
+
+		await expect(read(createMessageSource(frames()))).resolves.toBe(ndjson);
+	});
+
+	it('should assemble the chunks of a Readable', async () => {
+		await expect(read(createMessageSource(Readable.from([bytes.subarray(0, 5), bytes.subarray(5)])))).resolves.toBe(ndjson);
+	});
+
+	it('should assemble the values of an Observable', async () => {
+		const frames = new Subject<string>();
+		const stream = createMessageSource(frames);
+		const text = read(stream);
+
+		frames.next('{"name":"café"}\n');
+		frames.next('{"id":2}\n');
+		frames.complete();
+
+		await expect(text).resolves.toBe(ndjson);
+	});
+
+	it('should fail with the error of a failed Observable', async () => {
+		const failure = new Error('connection lost');
+		const stream = createMessageSource(new Observable((subscriber) => {
+			subscriber.next('{"id":1}\n');
+			subscriber.error(failure);
+		}));
+
+		await expect(read(stream)).rejects.toBe(failure);
+	});
+
+	it('should unsubscribe from the Observable when destroyed', async () => {
+		const frames = new Subject<string>();
+		const stream = createMessageSource(frames);
+		const iterator = stream[Symbol.asyncIterator]();
+
+		const first = iterator.next();
+		frames.next('{"id":1}\n');
+		await first;
+		await iterator.return?.();
+
+		expect(frames.observed).toBe(false);
+	});
+
+	it('should reject payloads that are not NDJSON', () => {
+		expect(() => createMessageSource({ id: 1 })).toThrow(BadRequestException);
+		expect(() => createMessageSource(42)).toThrow(
+			'Expected an NDJSON message payload as a string, binary data, or a sequence of them, received number',
+		);
+	});
+
+	it('should fail on chunks that are not NDJSON', async () => {
+		await expect(read(createMessageSource(['{"id":1}\n', { id: 2 }]))).rejects.toThrow(
+			'Expected NDJSON message chunks as strings or binary data, received Object',
+		);
+	});
+});
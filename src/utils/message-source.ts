@@ -0,0 +1,158 @@
+import { BadRequestException } from '@nestjs/common';
+import { Readable } from 'stream';
+
+/**
+ * Something with a `subscribe()` method, such as an RxJS `Observable`.
+ * Declared structurally so any Observable implementation is accepted.
+ */
+interface Subscribable {
+	subscribe(observer: {
+		next: (value: unknown) => void;
+		error: (error: unknown) => void;
+		complete: () => void;
+	}): { unsubscribe(): void };
+}
+
+/**
+ * Turns the payload of a WebSocket or microservice message into a stream of
+ * the NDJSON bytes it carries, so it can be parsed like a request body.
+ *
+ * The payload may be the NDJSON itself, as a string or binary data such as a
+ * `Buffer`, including a `Buffer` serialized to JSON as
+ * `{ type: 'Buffer', data: [...] }` by transports such as TCP, or a sequence of such chunks split at any point, even within a
+ * line or character: an array, an iterable or async iterable, a `Readable`
+ * or an Observable. Chunks are read only as the stream is, except that an
+ * Observable, subscribed to when the stream is first read, has its values
+ * buffered until they are. Closing the stream closes the iterable or
+ * unsubscribes from the Observable, and a sequence that fails fails the
+ * stream with its error.
+ *
+ * Each payload is a complete body: NDJSON split across several messages is
+ * not reassembled, so a line cut off at the end of a message is parsed, and
+ * fails, on its own.
+ *
+ * @param payload - The message payload
+ * @returns A stream of the payload's bytes
+ * @throws BadRequestException if the payload is none of these, or, from the
+ *   stream, if a chunk is not a string or binary data
+ */
+export function createMessageSource(payload: unknown): Readable {
+	if (isChunk(payload)) return Readable.from([toBuffer(payload)]);
+	if (isSubscribable(payload)) return fromSubscribable(payload);
+	if (isIterable(payload)) return Readable.from(toBuffers(payload));
+	throw new BadRequestException(
+		`Expected an NDJSON message payload as a string, binary data, or a sequence of them, received ${typeName(payload)}`,
+	);
+}
+
+/**
+ * Yields each chunk of a sequence as a `Buffer`.
+ */
+async function* toBuffers(chunks: AsyncIterable<unknown> | Iterable<unknown>): AsyncGenerator<Buffer> {
+	for await (const chunk of chunks) {
+		if (!isChunk(chunk)) throw invalidChunk(chunk);
+		yield toBuffer(chunk);
+	}
+}
+
+/**
+ * Streams the values of a subscribable, buffering those not read yet.
+ * Destroying the stream unsubscribes.
+ */
+function fromSubscribable(source: Subscribable): Readable {
+	let subscribed = false;
+	let subscription: { unsubscribe(): void } | undefined;
+	return new Readable({
+		// Subscribe on the first read, so nothing, not even an error, arrives
+		// before the stream is consumed
+		read() {
+			if (subscribed) return;
+			subscribed = true;
+			subscription = source.subscribe({
+				next: (value) => {
+					if (this.destroyed) return;
+					if (isChunk(value)) this.push(toBuffer(value));
+					else this.destroy(invalidChunk(value));
+				},
+				error: (error) => this.destroy(error as Error),
+				complete: () => this.push(null),
+			});
+			// Destroyed while subscribing, by a value emitted synchronously
+			if (this.destroyed) subscription.unsubscribe();
+		},
+		destroy(error, callback) {
+			subscription?.unsubscribe();
+			callback(error);
+		},
+	});
+}
+
+/**
+ * The error for a chunk that is not text or binary data.
+ */
+function invalidChunk(chunk: unknown): BadRequestException {
+	return new BadRequestException(`Expected NDJSON message chunks as strings or binary data, received ${typeName(chunk)}`);
+}
+
+/**
+ * A `Buffer` as serialized by `JSON.stringify()`.
+ */
+interface SerializedBuffer {
+	type: 'Buffer';
+	data: number[];
+}
+
+/**
+ * A chunk of NDJSON: text, or binary data such as a `Buffer` or `ArrayBuffer`.
+ */
+type Chunk = string | ArrayBuffer | ArrayBufferView | SerializedBuffer;
+
+/**
+ * Whether a value is a chunk of NDJSON.
+ */
+function isChunk(value: unknown): value is Chunk {
+	return typeof value === 'string' || value instanceof ArrayBuffer || ArrayBuffer.isView(value) || isSerializedBuffer(value);
+}
+
+/**
+ * Whether a value is a `Buffer` serialized to JSON.
+ */
+function isSerializedBuffer(value: unknown): value is SerializedBuffer {
+	const candidate = value as Partial<SerializedBuffer> | null | undefined;
+	return candidate?.type === 'Buffer' && Array.isArray(candidate.data);
+}
+
+/**
+ * Copies or wraps a chunk as a `Buffer`, without copying binary data.
+ */
+function toBuffer(chunk: Chunk): Buffer {
+	if (typeof chunk === 'string') return Buffer.from(chunk, 'utf8');
+	if (chunk instanceof ArrayBuffer) return Buffer.from(chunk);
+	if (isSerializedBuffer(chunk)) return Buffer.from(chunk.data);
+	return Buffer.from(chunk.buffer, chunk.byteOffset, chunk.byteLength);
+}
+
+/**
+ * Whether a value can be subscribed to like an Observable.
+ */
+function isSubscribable(value: unknown): value is Subscribable {
+	return typeof (value as Subscribable | null)?.subscribe === 'function';
+}
+
+/**
+ * Whether a value is an iterable or async iterable, which includes arrays
+ * and `Readable` streams.
+ */
+function isIterable(value: unknown): value is AsyncIterable<unknown> | Iterable<unknown> {
+	const candidate = value as Partial<AsyncIterable<unknown> & Iterable<unknown>> | null | undefined;
+	return typeof candidate?.[Symbol.asyncIterator] === 'function' || typeof candidate?.[Symbol.iterator] === 'function';
+}
+
+/**
+ * Names the type of an unexpected value for an error message.
+ */
+function typeName(value: unknown): string {
+	if (value === null) return 'null';
+	if (typeof value === 'object') return value.constructor?.name ?? 'object';
+	return typeof value;
+}
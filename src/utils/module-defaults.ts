@@ -0,0 +1,33 @@
+import { AsyncLocalStorage } from 'async_hooks';
+
+import { NdJsonStreamModuleOptions } from '../decorators/ndjson-stream.decorator';
+
+/**
+ * App-wide defaults set by `NdJsonStreamModule.forRoot()` / `forRootAsync()`,
+ * scoped to the handling of each request or message. Parameter decorators
+ * cannot inject providers, so each application's interceptor makes its own
+ * defaults available to the handler it wraps.
+ */
+const storage = new AsyncLocalStorage<Readonly<NdJsonStreamModuleOptions>>();
+
+/**
+ * The defaults outside of any application with `NdJsonStreamModule`.
+ */
+const NO_DEFAULTS: Readonly<NdJsonStreamModuleOptions> = Object.freeze({});
+
+/**
+ * Returns the defaults of the application handling the current request or
+ * message. An application returns the same object every time, so it can be
+ * used as a cache key.
+ */
+export function getNdJsonStreamDefaults(): Readonly<NdJsonStreamModuleOptions> {
+	return storage.getStore() ?? NO_DEFAULTS;
+}
+
+/**
+ * Runs `callback` with the given app-wide defaults, which apply to everything
+ * it starts, synchronously or not.
+ */
+export function runWithNdJsonStreamDefaults<R>(defaults: Readonly<NdJsonStreamModuleOptions>, callback: () => R): R {
+	return storage.run(defaults, callback);
+}
@@ -0,0 +1,136 @@
+import { NdJsonHeaderError, NdJsonLimitExceededError, NdJsonParseError } from '../errors/ndjson-stream.errors';
+import { NdJsonMultipart } from '../types/ndjson-stream';
+import { MultipartExtractor, parseMultipartBoundary } from './multipart';
+
+const BOUNDARY = '----form1234';
+
+const part = (headers: string, content: string) => `--${BOUNDARY}\r\n${headers}\r\n\r\n${content}\r\n`;
+const field = (name: string, value: string) => part(`Content-Disposition: form-data; name="${name}"`, value);
+const file = (name: string, content: string, filename = 'items.ndjson') => part(
+	`Content-Disposition: form-data; name="${name}"; filename="${filename}"\r\nContent-Type: application/x-ndjson`,
+	content,
+);
+const closing = `--${BOUNDARY}--\r\n`;
+
+/**
+ * Runs chunks through an extractor, collecting what it passes through and the
+ * fields it reports.
+ */
+const extract = async (chunks: string[], options: Partial<NdJsonMultipart> = {}) => {
+	const fields: Array<[string, string]> = [];
+	const extractor = new MultipartExtractor({
+		field: 'file',
+		boundary: BOUNDARY,
+		onField: (name, value) => fields.push([name, value]),
+		...options,
+	});
+	const output: Buffer[] = [];
+	extractor.on('data', (chunk: Buffer) => output.push(chunk));
+	const done = new Promise<void>((resolve, reject) => {
+		extractor.once('end', resolve);
+		extractor.once('error', reject);
+	});
+	for (const chunk of chunks) extractor.write(chunk);
+	extractor.end();
+	await done;
+	return { content: Buffer.concat(output).toString('utf8'), fields };
+};
+
+describe('multipart', () => {
+	describe('parseMultipartBoundary', () => {
+		it('should read plain and quoted boundaries', () => {
+			expect(parseMultipartBoundary('multipart/form-data; boundary=abc123')).toBe('abc123');
+			expect(parseMultipartBoundary('multipart/form-data; charset=utf-8; Boundary="a b:c"')).toBe('a b:c');
+		});
+
+		it.each([
+			'multipart/form-data',
+			'multipart/form-data; boundary=',
+			`multipart/form-data; boundary=${'x'.repeat(71)}`,
+			'multipart/form-data; boundary="ends with space "',
+		])('should reject %p', (contentType) => {
+			expect(() => parseMultipartBoundary(contentType)).toThrow(NdJsonHeaderError);
+		});
+	});
+
+	describe('MultipartExtractor', () => {
+		it('should pass through the named part and report the text fields', async () => {
+			const body = field('source', 'browser') + file('file', '{"id":1}\n{"id":2}\n') + field('note', 'a\r\nb') + closing;
+
+			await expect(extract([body])).resolves.toEqual({
+				content: '{"id":1}\n{"id":2}\n',
+				fields: [['source', 'browser'], ['note', 'a\r\nb']],
+			});
+		});
+
+		it('should extract identically however the body is chunked', async () => {
+			const body = `preamble\r\n${field('a', '1')}${file('file', '{"s":"--x\\r\\n"}\n{"id":2}')}${closing}epilogue`;
+			const expected = await extract([body]);
+
+			expect(expected.content).toBe('{"s":"--x\\r\\n"}\n{"id":2}');
+			for (let i = 1; i < body.length; i++) {
+				await expect(extract([body.slice(0, i), body.slice(i)])).resolves.toEqual(expected);
+			}
+			await expect(extract([...body])).resolves.toEqual(expected);
+		});
+
+		it('should discard other file parts and parts without a name', async () => {
+			const body = file('other', '{"skip":true}', 'other.ndjson') + part('Content-Type: text/plain', 'anonymous')
+				+ file('file', '{"id":1}') + closing;
+
+			await expect(extract([body])).resolves.toEqual({ content: '{"id":1}', fields: [] });
+		});
+
+		it('should only stream the first part with the name', async () => {
+			const body = file('file', '{"id":1}') + file('file', '{"id":2}') + closing;
+
+			await expect(extract([body])).resolves.toMatchObject({ content: '{"id":1}' });
+		});
+
+		it('should accept transport padding after a boundary', async () => {
+			const body = `--${BOUNDARY} \t\r\nContent-Disposition: form-data; name="file"\r\n\r\n{"id":1}\r\n--${BOUNDARY}--`;
+
+			await expect(extract([body])).resolves.toMatchObject({ content: '{"id":1}' });
+		});
+
+		it('should fail when the body has no part with the name', async () => {
+			await expect(extract([field('source', 'browser') + closing])).rejects.toThrow(
+				new NdJsonParseError('Multipart body has no "file" part'),
+			);
+		});
+
+		it('should fail when the body ends before its closing boundary', async () => {
+			await expect(extract([file('file', '{"id":1}')])).rejects.toThrow(
+				'Malformed multipart body: it ended before its closing boundary',
+			);
+		});
+
+		it('should fail when a boundary is not followed by a line break', async () => {
+			await expect(extract([`--${BOUNDARY}xyz\r\n`])).rejects.toThrow(NdJsonParseError);
+		});
+
+		it('should fail when part headers never end', async () => {
+			const body = `--${BOUNDARY}\r\nX-Padding: ${'x'.repeat(20 * 1024)}`;
+
+			await expect(extract([body])).rejects.toThrow('part headers exceed 16384 bytes');
+		});
+
+		it('should enforce maxParts', async () => {
+			const body = field('a', '1') + field('b', '2') + file('file', '{}') + closing;
+
+			const error = await extract([body], { maxParts: 2 }).catch((e) => e);
+			expect(error).toBeInstanceOf(NdJsonLimitExceededError);
+			expect(error).toMatchObject({ limit: 'maxParts', max: 2 });
+		});
+
+		it('should enforce maxFieldBytes on text fields only', async () => {
+			await expect(extract([file('file', '{"long":"value"}') + closing], { maxFieldBytes: 4 })).resolves
+				.toMatchObject({ content: '{"long":"value"}' });
+
+			const error = await extract([field('a', 'value') + file('file', '{}') + closing], { maxFieldBytes: 4 })
+				.catch((e) => e);
+			expect(error).toBeInstanceOf(NdJsonLimitExceededError);
+			expect(error).toMatchObject({ limit: 'maxFieldBytes', max: 4 });
+		});
+	});
+});
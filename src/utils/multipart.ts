@@ -0,0 +1,246 @@
+import { Transform, TransformCallback } from 'stream';
+
+import { NdJsonHeaderError, NdJsonLimitExceededError, NdJsonParseError } from '../errors/ndjson-stream.errors';
+import { NDJSON_MULTIPART_DEFAULT_LIMITS } from '../ndjson-stream.constants';
+import { NdJsonMultipart } from '../types/ndjson-stream';
+
+/**
+ * Reads the boundary from a `multipart/form-data` content type.
+ *
+ * @param contentType - The raw `Content-Type` header value
+ * @returns The boundary, without quotes
+ * @throws NdJsonHeaderError if the boundary is missing or invalid
+ */
+export function parseMultipartBoundary(contentType: string): string {
+	const { boundary } = parseParameters(contentType);
+	// RFC 2046: 1 to 70 characters, not ending in a space
+	if (!boundary || boundary.length > 70 || boundary.endsWith(' ')) {
+		throw new NdJsonHeaderError('content-type', `Invalid multipart boundary in content-type: ${contentType}`);
+	}
+	return boundary;
+}
+
+/**
+ * Incrementally splits a `multipart/form-data` body (RFC 7578) into its
+ * parts, passing through the content of the part named `field` and reporting
+ * the other text fields to `onField`. Other file parts are discarded.
+ *
+ * Only the current field's value and a boundary's length of lookahead are
+ * held in memory, so the file itself is never buffered. A malformed body,
+ * or one without the part, fails the stream with an `NdJsonParseError`;
+ * more than `maxParts` parts, or a field over `maxFieldBytes`, with an
+ * `NdJsonLimitExceededError`.
+ */
+export class MultipartExtractor extends Transform {
+	private readonly delimiter: Buffer;
+	private readonly maxParts: number;
+	private readonly maxFieldBytes: number;
+	// A virtual line break lets the first delimiter match like the others
+	private buffer: Buffer = CRLF;
+	private state: 'preamble' | 'delimiter' | 'headers' | 'body' | 'done' = 'preamble';
+	private part: PartKind = 'skip';
+	private partName = '';
+	private partCount = 0;
+	private fieldChunks: Buffer[] = [];
+	private fieldBytes = 0;
+	private found = false;
+
+	constructor(private readonly multipart: NdJsonMultipart) {
+		super();
+		this.delimiter = Buffer.from(`\r\n--${multipart.boundary}`);
+		this.maxParts = multipart.maxParts ?? NDJSON_MULTIPART_DEFAULT_LIMITS.maxParts;
+		this.maxFieldBytes = multipart.maxFieldBytes ?? NDJSON_MULTIPART_DEFAULT_LIMITS.maxFieldBytes;
+	}
+
+	_transform(chunk: Buffer, _encoding: BufferEncoding, callback: TransformCallback): void {
+		if (this.state === 'done') return callback();
+		this.buffer = this.buffer.length > 0 ? Buffer.concat([this.buffer, chunk]) : chunk;
+		try {
+			this.scan();
+		} catch (error) {
+			return callback(error as Error);
+		}
+		callback();
+	}
+
+	_flush(callback: TransformCallback): void {
+		if (this.state !== 'done') {
+			return callback(new NdJsonParseError('Malformed multipart body: it ended before its closing boundary'));
+		}
+		if (!this.found) {
+			return callback(new NdJsonParseError(`Multipart body has no "${this.multipart.field}" part`));
+		}
+		callback();
+	}
+
+	/**
+	 * Consumes as much of the buffer as can be interpreted, keeping the rest
+	 * for the next chunk.
+	 */
+	private scan(): void {
+		const { delimiter } = this;
+		while (true) {
+			switch (this.state) {
+			case 'preamble':
+			case 'body': {
+				const index = this.buffer.indexOf(delimiter);
+				// Keep enough to complete a delimiter split across chunks
+				const end = index === -1 ? Math.max(this.buffer.length - delimiter.length + 1, 0) : index;
+				if (this.state === 'body') this.content(this.buffer.subarray(0, end));
+				if (index === -1) {
+					this.buffer = this.buffer.subarray(end);
+					return;
+				}
+				if (this.state === 'body') this.endPart();
+				this.buffer = this.buffer.subarray(index + delimiter.length);
+				this.state = 'delimiter';
+				break;
+			}
+
+			case 'delimiter': {
+				// Transport padding may follow a delimiter
+				let start = 0;
+				while (this.buffer[start] === SPACE || this.buffer[start] === TAB) start++;
+				if (this.buffer.length < start + 2) return;
+				if (this.buffer[start] === DASH && this.buffer[start + 1] === DASH) {
+					this.state = 'done';
+					this.buffer = EMPTY;
+					return;
+				}
+				if (!this.buffer.subarray(start, start + 2).equals(CRLF)) {
+					throw new NdJsonParseError('Malformed multipart body: expected a line break after a boundary');
+				}
+				this.buffer = this.buffer.subarray(start + 2);
+				this.state = 'headers';
+				break;
+			}
+
+			case 'headers': {
+				// A part without headers starts straight after a blank line
+				const empty = this.buffer.subarray(0, 2).equals(CRLF);
+				const index = empty ? 0 : this.buffer.indexOf(HEADERS_END);
+				if (index === -1) {
+					if (this.buffer.length > MAX_PART_HEADER_BYTES) {
+						throw new NdJsonParseError(`Malformed multipart body: part headers exceed ${MAX_PART_HEADER_BYTES} bytes`);
+					}
+					return;
+				}
+				this.startPart(empty ? '' : this.buffer.subarray(0, index).toString('utf8'));
+				this.buffer = this.buffer.subarray(empty ? 2 : index + HEADERS_END.length);
+				this.state = 'body';
+				break;
+			}
+
+			case 'done':
+				return;
+			}
+		}
+	}
+
+	/**
+	 * Decides what to do with a part from its headers.
+	 */
+	private startPart(headers: string): void {
+		if (++this.partCount > this.maxParts) throw new NdJsonLimitExceededError('maxParts', this.maxParts);
+
+		let disposition = '';
+		for (const line of headers.split('\r\n')) {
+			const colon = line.indexOf(':');
+			if (colon !== -1 && line.slice(0, colon).trim().toLowerCase() === 'content-disposition') {
+				disposition = line.slice(colon + 1);
+			}
+		}
+		const { name, filename } = parseParameters(disposition);
+
+		this.partName = name ?? '';
+		if (name === undefined) {
+			this.part = 'skip';
+		} else if (name === this.multipart.field && !this.found) {
+			this.part = 'file';
+			this.found = true;
+		} else {
+			this.part = filename === undefined ? 'field' : 'skip';
+		}
+		this.fieldChunks = [];
+		this.fieldBytes = 0;
+	}
+
+	/**
+	 * Handles content of the current part.
+	 */
+	private content(data: Buffer): void {
+		if (data.length === 0) return;
+		if (this.part === 'file') {
+			this.push(data);
+		} else if (this.part === 'field') {
+			this.fieldBytes += data.length;
+			if (this.fieldBytes > this.maxFieldBytes) throw new NdJsonLimitExceededError('maxFieldBytes', this.maxFieldBytes);
+			this.fieldChunks.push(Buffer.from(data));
+		}
+	}
+
+	/**
+	 * Completes the current part.
+	 */
+	private endPart(): void {
+		if (this.part === 'field') {
+			this.multipart.onField?.(this.partName, Buffer.concat(this.fieldChunks).toString('utf8'));
+		}
+		this.part = 'skip';
+		this.fieldChunks = [];
+	}
+}
+
+/**
+ * Reads the `key=value` parameters of a header value such as a content type
+ * or content disposition. Keys are lower-cased; quoted values are unquoted.
+ */
+function parseParameters(header: string): Record<string, string | undefined> {
+	const parameters: Record<string, string | undefined> = {};
+	for (const [, key, quoted, token] of header.matchAll(PARAMETER)) {
+		parameters[key.toLowerCase()] = quoted !== undefined ? quoted.replace(/\\(.)/g, '$1') : token.trim();
+	}
+	return parameters;
+}
+
+/**
+ * What is done with the content of a part.
+ * - `file` - it is the part being streamed
+ * - `field` - it is a text field, reported once complete
+ * - `skip` - it is discarded
+ */
+type PartKind = 'file' | 'field' | 'skip';
+
+/**
+ * One `; key=value` or `; key="value"` parameter of a header value.
+ */
+const PARAMETER = /;\s*([^\s=;]+)\s*=\s*(?:"((?:[^"\\]|\\.)*)"|([^;]*))/g;
+
+/**
+ * The most bytes a part's headers may take, so a body that never ends them
+ * cannot grow the buffer without bound.
+ */
+const MAX_PART_HEADER_BYTES = 16 * 1024;
+
+/**
+ * The line break that ends each header line and precedes each delimiter.
+ */
+const CRLF = Buffer.from('\r\n');
+
+/**
+ * The blank line that ends a part's headers.
+ */
+const HEADERS_END = Buffer.from('\r\n\r\n');
+
+/**
+ * What is left of the buffer once the closing delimiter has been read.
+ */
+const EMPTY = Buffer.alloc(0);
+
+/**
+ * Bytes looked for after a delimiter: `-` (twice, for the closing one), and
+ * the space and tab of transport padding.
+ */
+const DASH = 0x2d;
+const SPACE = 0x20;
+const TAB = 0x09;
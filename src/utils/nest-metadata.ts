@@ -0,0 +1,6 @@
+/**
+ * Nest's metadata key for route parameter decorators (`ROUTE_ARGS_METADATA`).
+ * Mirrored here because `@nestjs/common/constants` is not importable from ESM.
+ * Internal: it is Nest's, not part of this library's API.
+ */
+export const ROUTE_ARGS_METADATA = '__routeArguments__';
@@ -0,0 +1,106 @@
+import { createPeekable } from './peekable';
+
+async function* numbers(count: number, failAfter?: number): AsyncGenerator<number> {
+	for (let i = 1; i <= count; i++) {
+		if (i === failAfter) throw new Error(`failed at ${i}`);
+		yield i;
+	}
+}
+
+const collect = async <T>(source: AsyncIterable<T>): Promise<T[]> => {
+	const items: T[] = [];
+	for await (const item of source) items.push(item);
+	return items;
+};
+
+describe('createPeekable', () => {
+	it('should peek at upcoming items and still yield them in order', async () => {
+		const { body, peek } = createPeekable(numbers(4));
+
+		await expect(peek(2)).resolves.toEqual([1, 2]);
+		await expect(peek(1)).resolves.toEqual([1]);
+		await expect(body.next()).resolves.toEqual({ done: false, value: 1 });
+		await expect(peek(2)).resolves.toEqual([2, 3]);
+		await expect(collect(body)).resolves.toEqual([2, 3, 4]);
+	});
+
+	it('should return fewer items when the source ends first', async () => {
+		const { body, peek } = createPeekable(numbers(2));
+
+		await expect(peek(5)).resolves.toEqual([1, 2]);
+		await expect(collect(body)).resolves.toEqual([1, 2]);
+	});
+
+	it('should reject a peek the source fails during, then yield the items read before the failure', async () => {
+		const { body, peek } = createPeekable(numbers(4, 3));
+
+		await expect(peek(3)).rejects.toThrow('failed at 3');
+		await expect(peek(2)).resolves.toEqual([1, 2]);
+
+		const items: number[] = [];
+		await expect((async () => {
+			for await (const item of body) items.push(item);
+		})()).rejects.toThrow('failed at 3');
+		expect(items).toEqual([1, 2]);
+	});
+
+	it('should restore the state captured with each item as it is yielded', async () => {
+		let read = 0;
+		const restored: number[] = [];
+		const source = (async function* () {
+			for (let i = 1; i <= 3; i++) {
+				read = i * 10;
+				yield i;
+			}
+		})();
+		const { body, peek } = createPeekable(source, { capture: () => read, restore: (state) => restored.push(state) });
+
+		await peek(2);
+		expect(restored).toEqual([]);
+
+		await collect(body);
+		expect(restored).toEqual([10, 20, 30]);
+	});
+
+	it('should close the source when the body is closed', async () => {
+		const closed = jest.fn();
+		const source = (async function* () {
+			try {
+				yield 1;
+				yield 2;
+			} finally {
+				closed();
+			}
+		})();
+		const { body } = createPeekable(source);
+
+		for await (const _item of body) break;
+
+		expect(closed).toHaveBeenCalled();
+	});
+
+	it.each(['return', 'throw'] as const)('should close the source when the body is closed with %s() before it is iterated', async (method) => {
+		const closed = jest.fn();
+		const source = (async function* () {
+			try {
+				yield 1;
+				yield 2;
+			} finally {
+				closed();
+			}
+		})();
+		const { body, peek } = createPeekable(source);
+
+		await peek(1);
+		await (method === 'return' ? body.return(undefined) : body.throw(new Error('rejected')).catch(() => undefined));
+
+		expect(closed).toHaveBeenCalled();
+		await expect(body.next()).resolves.toEqual({ done: true, value: undefined });
+	});
+
+	it('should reject an invalid count', async () => {
+		const { peek } = createPeekable(numbers(1));
+
+		await expect(peek(-1)).rejects.toThrow(RangeError);
+	});
+});
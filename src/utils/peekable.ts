@@ -0,0 +1,119 @@
+/**
+ * An async generator whose upcoming items can be inspected before they are
+ * consumed.
+ */
+export interface Peekable<T> {
+	/**
+	 * Yields the items of the source, starting with any that were peeked.
+	 */
+	body: AsyncGenerator<T>;
+
+	/**
+	 * Reads ahead until `count` items are buffered or the source ends.
+	 *
+	 * @returns The next `count` items (fewer if the source ends first), still to be yielded by `body`
+	 */
+	peek(count: number): Promise<T[]>;
+
+	/**
+	 * Closes the source if `body` has not started, as when the items are no
+	 * longer wanted after a peek. Does nothing once `body` is being iterated.
+	 */
+	release(): Promise<void>;
+}
+
+/**
+ * Per-item state that must follow an item from when it is read to when it is
+ * yielded, such as the line number reported by the parser.
+ */
+export interface PeekableState<S> {
+	/** Called as each item is read from the source */
+	capture(): S;
+	/** Called with the captured state just before the item is yielded */
+	restore(state: S): void;
+}
+
+/**
+ * Wraps an async generator so its upcoming items can be peeked. Peeked items
+ * are buffered and yielded by `body` in order. If the source fails while
+ * reading ahead, `peek` rejects, and `body` throws the same error once it has
+ * yielded the items read before the failure. Closing `body` closes the source,
+ * even if `body` was never iterated, as after a peek that started the source.
+ *
+ * @template T - The type of items in the source
+ * @template S - The type of state captured with each item
+ * @param source - The generator to read from
+ * @param state - Optional per-item state to carry from read to yield
+ * @returns The peekable body
+ */
+export function createPeekable<T, S = undefined>(source: AsyncGenerator<T>, state?: PeekableState<S>): Peekable<T> {
+	const buffered: Array<{ item: T; state?: S }> = [];
+	let started = false;
+	let done = false;
+	let failure: { error: unknown } | undefined;
+
+	// Reads one more item into the buffer, resolving to whether there was one.
+	const readAhead = async (): Promise<boolean> => {
+		if (done || failure) return false;
+		try {
+			const result = await source.next();
+			if (result.done) {
+				done = true;
+				return false;
+			}
+			buffered.push({ item: result.value, state: state?.capture() });
+			return true;
+		} catch (error) {
+			failure = { error };
+			return false;
+		}
+	};
+
+	async function* body(): AsyncGenerator<T> {
+		started = true;
+		try {
+			while (buffered.length > 0 || await readAhead()) {
+				const next = buffered.shift() as { item: T; state?: S };
+				state?.restore(next.state as S);
+				yield next.item;
+			}
+			if (failure) throw failure.error;
+		} finally {
+			await source.return(undefined);
+		}
+	}
+
+	// A generator closed before it starts never runs its `finally`, so close
+	// the source directly in that case
+	const generator = body();
+	const release = async (): Promise<void> => {
+		if (!started) await source.return(undefined);
+	};
+	const peekable: AsyncGenerator<T> = {
+		next: (...args) => generator.next(...args),
+		return: async (value) => {
+			await release();
+			return generator.return(value);
+		},
+		throw: async (error) => {
+			await release();
+			return generator.throw(error);
+		},
+		[Symbol.asyncIterator]() {
+			return this;
+		},
+	};
+
+	return {
+		body: peekable,
+		release,
+		async peek(count) {
+			if (!(Number.isInteger(count) && count >= 0)) {
+				throw new RangeError(`Peek count must be a non-negative integer, received ${count}`);
+			}
+			while (buffered.length < count && await readAhead());
+			if (failure && buffered.length < count) throw failure.error;
+			return buffered.slice(0, count).map(({ item }) => item);
+		},
+	};
+}
@@ -0,0 +1,169 @@
+import { processItems } from './process-items';
+import { createRequest } from './item-request.spec-fixture';
+import { NdJsonStreamRequest } from '../types/ndjson-stream';
+
+const delay = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+describe('processItems', () => {
+	it('should handle every item and return a summary', async () => {
+		const { request, state } = createRequest(5);
+		request.rejected.push({ line: 'bad', itemNumber: 2, cause: new Error('bad') });
+		const seen: [number, number][] = [];
+
+		const result = await processItems(request, (item, itemNumber) => {
+			seen.push([item.id, itemNumber]);
+		}, { concurrency: 2 });
+
+		expect(result).toEqual({ processed: 5, rejected: 1 });
+		expect(seen).toEqual([[1, 1], [2, 3], [3, 5], [4, 7], [5, 9]]);
+		expect(state.closed).toBe(true);
+	});
+
+	it('should keep at most concurrency items in flight', async () => {
+		const { request } = createRequest(10);
+		let active = 0;
+		let peak = 0;
+
+		await processItems(request, async () => {
+			peak = Math.max(peak, ++active);
+			await delay(2);
+			active--;
+		}, { concurrency: 3 });
+
+		expect(peak).toBe(3);
+	});
+
+	it('should not read the body while the pool is full', async () => {
+		const { request, state } = createRequest(10);
+		const release: (() => void)[] = [];
+
+		const processing = processItems(request, () => new Promise<void>((resolve) => release.push(resolve)), {
+			concurrency: 2,
+		});
+		await delay(5);
+		expect(state.pulled).toBe(2);
+
+		release.shift()?.();
+		await delay(5);
+		expect(state.pulled).toBe(3);
+
+		while (state.pulled < 10 || release.length > 0) {
+			release.shift()?.();
+			await delay(1);
+		}
+		await expect(processing).resolves.toEqual({ processed: 10, rejected: 0 });
+	});
+
+	it('should report results in completion order by default', async () => {
+		const { request } = createRequest(3);
+		const results: number[] = [];
+
+		await processItems(request, async (item) => {
+			await delay((4 - item.id) * 5);
+			return item.id;
+		}, { concurrency: 3, onResult: (result) => { results.push(result); } });
+
+		expect(results).toEqual([3, 2, 1]);
+	});
+
+	it('should report results in input order, one at a time, when ordered', async () => {
+		const { request } = createRequest(4);
+		const results: [number, number][] = [];
+		let delivering = 0;
+
+		await processItems(request, async (item) => {
+			await delay((5 - item.id) * 5);
+			return item.id;
+		}, {
+			concurrency: 4,
+			ordered: true,
+			onResult: async (result, itemNumber) => {
+				expect(++delivering).toBe(1);
+				await delay(1);
+				results.push([result, itemNumber]);
+				delivering--;
+			},
+		});
+
+		expect(results).toEqual([[1, 1], [2, 3], [3, 5], [4, 7]]);
+	});
+
+	it('should not read further ahead while an earlier result is held back', async () => {
+		const { request, state } = createRequest(100);
+		let releaseFirst!: () => void;
+		const results: number[] = [];
+
+		const processing = processItems(request, (item) => {
+			if (item.id === 1) return new Promise<number>((resolve) => { releaseFirst = () => resolve(1); });
+			return item.id;
+		}, { concurrency: 4, ordered: true, onResult: (result) => { results.push(result); } });
+		await delay(5);
+		expect(state.pulled).toBe(4);
+		expect(results).toEqual([]);
+
+		releaseFirst();
+		await expect(processing).resolves.toEqual({ processed: 100, rejected: 0 });
+		expect(results).toEqual(Array.from({ length: 100 }, (_, index) => index + 1));
+	});
+
+	it('should stop on the first failure once in-flight items settle', async () => {
+		const { request, state } = createRequest(10);
+		const settled: number[] = [];
+
+		const processing = processItems(request, async (item) => {
+			if (item.id === 2) throw new Error('handler failed');
+			await delay(10);
+			settled.push(item.id);
+		}, { concurrency: 3 });
+
+		await expect(processing).rejects.toThrow('handler failed');
+		expect(settled).toEqual([1, 3]);
+		expect(state.pulled).toBe(3);
+		expect(state.closed).toBe(true);
+	});
+
+	it('should stop without waiting for the next item when a handler fails', async () => {
+		const request = { itemNumber: 0, rejected: [] } as unknown as NdJsonStreamRequest<number>;
+		request.body = (async function* () {
+			yield 1;
+			await new Promise(() => undefined);
+		})();
+
+		const processing = processItems(request, async () => {
+			await delay(1);
+			throw new Error('handler failed');
+		});
+
+		await expect(processing).rejects.toThrow('handler failed');
+	});
+
+	it('should fail when onResult throws', async () => {
+		const { request } = createRequest(3);
+
+		await expect(processItems(request, (item) => item.id, {
+			onResult: (result) => {
+				if (result === 2) throw new Error('commit failed');
+			},
+		})).rejects.toThrow('commit failed');
+	});
+
+	it('should reject with a body error after in-flight items settle', async () => {
+		const { request } = createRequest(5, 3);
+		const settled: number[] = [];
+
+		const processing = processItems(request, async (item) => {
+			await delay(5);
+			settled.push(item.id);
+		}, { concurrency: 5 });
+
+		await expect(processing).rejects.toThrow('body failed at 4');
+		expect(settled).toEqual([1, 2, 3]);
+	});
+
+	it('should reject an invalid concurrency', async () => {
+		const { request } = createRequest(1);
+
+		await expect(processItems(request, () => undefined, { concurrency: 0 })).rejects.toThrow(RangeError);
+		await expect(processItems(request, () => undefined, { concurrency: 1.5 })).rejects.toThrow(RangeError);
+	});
+});
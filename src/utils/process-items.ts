@@ -0,0 +1,115 @@
+import { NdJsonItemHandler, NdJsonProcessOptions, NdJsonProcessResult, NdJsonStreamRequest } from '../types/ndjson-stream';
+import { stopIterator } from './stop-iterator';
+
+/**
+ * Sentinel the read loop races against when a handler fails.
+ */
+const STOPPED = Symbol('stopped');
+
+/**
+ * Runs `handler` over the items of a stream request with bounded concurrency.
+ *
+ * The body is read only while fewer than `concurrency` items are in flight,
+ * so a full pool leaves the parser, and in turn the request, paused. Items
+ * start in input order; with `ordered`, `onResult` also sees their results in
+ * input order, one at a time, holding back results that finish early. A
+ * held-back result keeps its slot in the pool until it is delivered, so one
+ * slow item cannot let the body be read arbitrarily far ahead.
+ *
+ * The first failure, from the handler, `onResult` or the body, stops reading.
+ * Items already in flight are allowed to settle, so no handler is still
+ * running when the returned promise rejects with that failure. The body is
+ * closed on every exit path.
+ *
+ * @template T - The type of items in the stream
+ * @template R - The type of result returned by the handler
+ * @param request - The stream request whose body is consumed
+ * @param handler - Called with each item and its line number
+ * @param options - Optional concurrency and result handling
+ * @returns A promise resolving to a summary once every item is handled
+ */
+export async function processItems<T, R>(
+	request: NdJsonStreamRequest<T>,
+	handler: NdJsonItemHandler<T, R>,
+	options: NdJsonProcessOptions<R> = {},
+): Promise<NdJsonProcessResult> {
+	const { concurrency = 1, ordered = false, onResult } = options;
+	if (!Number.isInteger(concurrency) || concurrency < 1) {
+		throw new RangeError(`Concurrency must be a positive integer, received ${concurrency}`);
+	}
+
+	const iterator = request.body[Symbol.asyncIterator]();
+	const running = new Set<Promise<void>>();
+	let failure: { error: unknown } | undefined;
+	let pending: Promise<IteratorResult<T>> | undefined;
+	let processed = 0;
+	let wake: (() => void) | undefined;
+	let stop!: () => void;
+	const stopped = new Promise<typeof STOPPED>((resolve) => { stop = () => resolve(STOPPED); });
+
+	// Results that finished ahead of an earlier item, keyed by input position
+	const ready = new Map<number, [R, number]>();
+	let started = 0;
+	let delivered = 0;
+	let delivery = Promise.resolve();
+
+	const complete = (index: number, result: R, itemNumber: number): Promise<void> | void => {
+		processed++;
+		if (!onResult) return;
+		if (!ordered) return onResult(result, itemNumber);
+
+		ready.set(index, [result, itemNumber]);
+		while (ready.has(delivered)) {
+			const [value, number] = ready.get(delivered) as [R, number];
+			ready.delete(delivered++);
+			delivery = delivery.then(() => onResult(value, number));
+		}
+		return delivery;
+	};
+
+	try {
+		while (!failure) {
+			if (running.size + ready.size >= concurrency) {
+				await new Promise<void>((resolve) => { wake = resolve; });
+				wake = undefined;
+				continue;
+			}
+
+			pending = iterator.next();
+			const next = await Promise.race([pending, stopped]);
+			if (next === STOPPED) break;
+			pending = undefined;
+			if (next.done) break;
+
+			const itemNumber = request.itemNumber;
+			const index = started++;
+			const task: Promise<void> = Promise.resolve()
+				.then(() => handler(next.value, itemNumber))
+				.then((result) => complete(index, result, itemNumber))
+				.catch((error) => {
+					failure ??= { error };
+					stop();
+				})
+				.finally(() => {
+					running.delete(task);
+					wake?.();
+				});
+			running.add(task);
+		}
+	} finally {
+		await Promise.all(running);
+		if (pending) {
+			// A generator cannot be returned while a next() is in flight; the
+			// return is queued behind it, so don't block the caller on it, and
+			// stop the parse so it does not wait for more data.
+			pending.catch(() => undefined);
+			Promise.resolve(iterator.return(undefined)).catch(() => undefined);
+			stopIterator(iterator);
+		} else {
+			await iterator.return(undefined);
+		}
+	}
+
+	if (failure) throw failure.error;
+	return { processed, rejected: request.rejected?.length ?? 0 };
+}
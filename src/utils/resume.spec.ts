@@ -0,0 +1,86 @@
+import { parseResumeHeaders, resumeBody } from './resume';
+import { NdJsonHeaderError, NdJsonResumeConflictError } from '../errors/ndjson-stream.errors';
+import { InMemoryNdJsonCheckpointStore } from '../services/ndjson-checkpoint-store.service';
+import { NdJsonStreamRequest } from '../types/ndjson-stream';
+
+const collect = async <T>(source: AsyncIterable<T>): Promise<T[]> => {
+	const items: T[] = [];
+	for await (const item of source) items.push(item);
+	return items;
+};
+
+describe('resume', () => {
+	describe('parseResumeHeaders', () => {
+		it('should return nothing without an upload ID', () => {
+			expect(parseResumeHeaders({}, 'newline')).toBeUndefined();
+		});
+
+		it('should read the upload ID and an item or byte position', () => {
+			expect(parseResumeHeaders({ 'ndjson-upload-id': 'u1' }, 'newline')).toEqual({ uploadId: 'u1' });
+			expect(parseResumeHeaders({ 'ndjson-upload-id': 'u1', 'ndjson-resume-from': '1000' }, 'newline')).toEqual({
+				uploadId: 'u1',
+				resumeFrom: { itemNumber: 1000 },
+			});
+			expect(parseResumeHeaders({ 'ndjson-upload-id': 'u1', 'ndjson-resume-from': 'Bytes=52344' }, 'json-seq')).toEqual({
+				uploadId: 'u1',
+				resumeFrom: { byteOffset: 52344 },
+			});
+		});
+
+		it.each([
+			[{ 'ndjson-resume-from': '10' }, 'newline', 'NdJson-Resume-From requires an NdJson-Upload-Id header'],
+			[{ 'ndjson-upload-id': 'u1', 'ndjson-resume-from': 'item=10' }, 'newline', 'Invalid NdJson-Resume-From header: item=10'],
+			[{ 'ndjson-upload-id': 'u1', 'ndjson-resume-from': '-1' }, 'newline', 'Invalid NdJson-Resume-From header: -1'],
+			[{ 'ndjson-upload-id': 'u1', 'ndjson-resume-from': '10' }, 'json-array', 'A JSON array body cannot resume part-way'],
+		] as const)('should reject %p with %s framing', (headers, framing, message) => {
+			expect(() => parseResumeHeaders(headers, framing)).toThrow(NdJsonHeaderError);
+			expect(() => parseResumeHeaders(headers, framing)).toThrow(message);
+		});
+	});
+
+	describe('resumeBody', () => {
+		let store: InMemoryNdJsonCheckpointStore;
+		let request: NdJsonStreamRequest<number>;
+		let parse: jest.Mock;
+
+		beforeEach(() => {
+			store = new InMemoryNdJsonCheckpointStore();
+			store.set('u1', { itemNumber: 2, byteOffset: 18 });
+			request = {} as NdJsonStreamRequest<number>;
+			parse = jest.fn(async function* () {
+				yield 3;
+			});
+		});
+
+		it('should skip the committed items of a body sent in full', async () => {
+			await expect(collect(resumeBody(request, store, { uploadId: 'u1' }, parse))).resolves.toEqual([3]);
+
+			expect(parse).toHaveBeenCalledWith({ resumeFrom: { itemNumber: 0, byteOffset: 0 }, skipThrough: 2 });
+			expect(request.checkpoint).toEqual({ itemNumber: 2, byteOffset: 18 });
+		});
+
+		it.each([{ itemNumber: 2 }, { byteOffset: 18 }])('should carry on from the committed position given as %p', async (resumeFrom) => {
+			await collect(resumeBody(request, store, { uploadId: 'u1', resumeFrom }, parse));
+
+			expect(parse).toHaveBeenCalledWith({ resumeFrom: { itemNumber: 2, byteOffset: 18 } });
+		});
+
+		it('should start an unknown upload from the beginning', async () => {
+			await collect(resumeBody(request, store, { uploadId: 'u2', resumeFrom: { itemNumber: 0 } }, parse));
+
+			expect(parse).toHaveBeenCalledWith({ resumeFrom: { itemNumber: 0, byteOffset: 0 } });
+		});
+
+		it('should reject any other position with the committed one', async () => {
+			const error = await collect(resumeBody(request, store, { uploadId: 'u1', resumeFrom: { itemNumber: 5 } }, parse))
+				.catch((error: unknown) => error);
+
+			expect(error).toBeInstanceOf(NdJsonResumeConflictError);
+			expect((error as NdJsonResumeConflictError).getStatus()).toBe(409);
+			expect((error as NdJsonResumeConflictError).getResponse()).toMatchObject({
+				checkpoint: { itemNumber: 2, byteOffset: 18 },
+			});
+			expect(parse).not.toHaveBeenCalled();
+		});
+	});
+});
@@ -0,0 +1,91 @@
+import { IncomingHttpHeaders } from 'http';
+
+import { NdJsonHeaderError, NdJsonResumeConflictError } from '../errors/ndjson-stream.errors';
+import { NDJSON_RESUME_FROM_HEADER, NDJSON_UPLOAD_ID_HEADER } from '../ndjson-stream.constants';
+import { InMemoryNdJsonCheckpointStore } from '../services/ndjson-checkpoint-store.service';
+import {
+	NdJsonCheckpoint,
+	NdJsonCheckpointStore,
+	NdJsonFraming,
+	NdJsonParserOptions,
+	NdJsonStreamRequest,
+} from '../types/ndjson-stream';
+
+/**
+ * The store used by `resumable` routes that don't configure one.
+ */
+export const defaultCheckpointStore: NdJsonCheckpointStore = new InMemoryNdJsonCheckpointStore();
+
+/**
+ * The resume headers of a request to a `resumable` route.
+ */
+export interface NdJsonResumeRequest {
+	uploadId: string;
+	/** The committed position the body starts after, if it is not the whole upload */
+	resumeFrom?: { itemNumber: number } | { byteOffset: number };
+}
+
+/**
+ * Reads the `NdJson-Upload-Id` and `NdJson-Resume-From` headers.
+ *
+ * @returns The upload to resume, or `undefined` if the request names none
+ * @throws NdJsonHeaderError if the headers are malformed or inconsistent
+ */
+export function parseResumeHeaders(headers: IncomingHttpHeaders, framing: NdJsonFraming): NdJsonResumeRequest | undefined {
+	const uploadId = headers[NDJSON_UPLOAD_ID_HEADER] as string | undefined;
+	const resumeFrom = headers[NDJSON_RESUME_FROM_HEADER] as string | undefined;
+	if (!uploadId) {
+		if (resumeFrom) throw new NdJsonHeaderError(NDJSON_RESUME_FROM_HEADER, 'NdJson-Resume-From requires an NdJson-Upload-Id header');
+		return undefined;
+	}
+	if (!resumeFrom) return { uploadId };
+
+	if (framing === 'json-array') {
+		throw new NdJsonHeaderError(
+			NDJSON_RESUME_FROM_HEADER,
+			'A JSON array body cannot resume part-way; resend it in full to skip committed items',
+		);
+	}
+	const match = /^\s*(?:(\d+)|bytes=(\d+))\s*$/i.exec(resumeFrom);
+	if (!match) throw new NdJsonHeaderError(NDJSON_RESUME_FROM_HEADER, `Invalid NdJson-Resume-From header: ${resumeFrom}`);
+	return {
+		uploadId,
+		resumeFrom: match[1] !== undefined ? { itemNumber: Number(match[1]) } : { byteOffset: Number(match[2]) },
+	};
+}
+
+/**
+ * Loads the committed position of an upload and parses the body from there.
+ *
+ * A body sent without `NdJson-Resume-From` is the whole upload again, so the
+ * committed items are skipped. A resumed body must start exactly at the
+ * committed position, since item numbers and offsets continue from it;
+ * anything else fails with an `NdJsonResumeConflictError` naming that position.
+ *
+ * @param request - The stream request, whose `checkpoint` is set once loaded
+ * @param store - Where committed positions are kept
+ * @param resume - The upload and position the request asks to resume
+ * @param parse - Parses the body with the given resume options
+ * @returns An async generator that yields the items not yet committed
+ */
+export async function* resumeBody<T>(
+	request: NdJsonStreamRequest<T>,
+	store: NdJsonCheckpointStore,
+	resume: NdJsonResumeRequest,
+	parse: (options: Pick<NdJsonParserOptions, 'resumeFrom' | 'skipThrough'>) => AsyncGenerator<T>,
+): AsyncGenerator<T> {
+	const committed: NdJsonCheckpoint = (await store.get(resume.uploadId)) ?? { itemNumber: 0, byteOffset: 0 };
+	request.checkpoint = committed;
+
+	const { resumeFrom } = resume;
+	if (!resumeFrom) {
+		yield* parse({ resumeFrom: { itemNumber: 0, byteOffset: 0 }, skipThrough: committed.itemNumber });
+		return;
+	}
+
+	const matches = 'itemNumber' in resumeFrom
+		? resumeFrom.itemNumber === committed.itemNumber
+		: resumeFrom.byteOffset === committed.byteOffset;
+	if (!matches) throw new NdJsonResumeConflictError(resume.uploadId, committed);
+	yield* parse({ resumeFrom: committed });
+}
@@ -0,0 +1,26 @@
+/**
+ * Registers a way to stop an async iterator at once. A generator's `return()`
+ * is queued behind any `next()` still in flight, so without one a consumer
+ * that gives up during a read cannot close the iterator until data arrives.
+ *
+ * @param iterator - The iterator that can be stopped
+ * @param stop - Fails any pending read and ends the iterator
+ */
+export function setStopper(iterator: object, stop: () => void): void {
+	stoppers.set(iterator, stop);
+}
+
+/**
+ * Stops an iterator registered with `setStopper()`, so a pending read settles
+ * and a queued `return()` can run. Does nothing for any other iterator.
+ *
+ * @param iterator - The iterator to stop
+ */
+export function stopIterator(iterator: object): void {
+	stoppers.get(iterator)?.();
+}
+
+/**
+ * The registered stoppers, by iterator.
+ */
+const stoppers = new WeakMap<object, () => void>();
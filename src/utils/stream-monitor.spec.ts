@@ -0,0 +1,156 @@
+import { NdJsonSpan, NdJsonTracer } from '../types/ndjson-stream';
+import { StreamMonitor } from './stream-monitor';
+
+const createTracer = () => {
+	const span: jest.Mocked<NdJsonSpan> = {
+		setAttributes: jest.fn(),
+		recordException: jest.fn(),
+		setStatus: jest.fn(),
+		end: jest.fn(),
+	};
+	const tracer: NdJsonTracer = { startSpan: jest.fn(() => span) };
+	return { span, tracer };
+};
+
+describe('StreamMonitor', () => {
+	beforeEach(() => {
+		jest.useFakeTimers({ now: 1_000 });
+	});
+
+	afterEach(() => {
+		jest.useRealTimers();
+	});
+
+	it('should time the stream from start to end', () => {
+		const monitor = new StreamMonitor();
+		expect(monitor.stats.elapsedMs).toBe(0);
+
+		monitor.start();
+		jest.advanceTimersByTime(250);
+		expect(monitor.stats.elapsedMs).toBe(250);
+
+		monitor.end({ outcome: 'completed' });
+		jest.advanceTimersByTime(250);
+		expect(monitor.stats.elapsedMs).toBe(250);
+	});
+
+	it('should report progress every progressItems items', () => {
+		const onProgress = jest.fn();
+		const monitor = new StreamMonitor({ onProgress, progressItems: 2 });
+		monitor.start();
+
+		for (let i = 0; i < 5; i++) monitor.yielded();
+
+		expect(onProgress.mock.calls.map(([stats]) => stats.itemsYielded)).toEqual([2, 4]);
+	});
+
+	it('should report progress once progressIntervalMs has passed', () => {
+		const onProgress = jest.fn();
+		const monitor = new StreamMonitor({ onProgress, progressIntervalMs: 100 });
+		monitor.start();
+
+		monitor.yielded();
+		jest.advanceTimersByTime(100);
+		monitor.yielded();
+		monitor.yielded();
+
+		expect(onProgress).toHaveBeenCalledTimes(1);
+		expect(onProgress).toHaveBeenCalledWith(expect.objectContaining({ itemsYielded: 2, elapsedMs: 100 }));
+	});
+
+	it('should report progress every 1000 items by default', () => {
+		const onProgress = jest.fn();
+		const monitor = new StreamMonitor({ onProgress });
+		monitor.start();
+
+		for (let i = 0; i < 2500; i++) monitor.yielded();
+
+		expect(onProgress).toHaveBeenCalledTimes(2);
+	});
+
+	it('should pass onStart the live stats and onComplete a summary, once', () => {
+		const onStart = jest.fn();
+		const onComplete = jest.fn();
+		const monitor = new StreamMonitor({ onStart, onComplete });
+
+		monitor.start();
+		monitor.stats.bytesRead = 42;
+		monitor.yielded();
+		const error = new Error('boom');
+		monitor.end({ outcome: 'failed', error });
+		monitor.end({ outcome: 'completed' });
+
+		expect(onStart).toHaveBeenCalledWith(monitor.stats);
+		expect(onComplete).toHaveBeenCalledTimes(1);
+		expect(onComplete).toHaveBeenCalledWith({
+			bytesRead: 42,
+			itemsYielded: 1,
+			blankLines: 0,
+			errors: 0,
+			elapsedMs: 0,
+			outcome: 'failed',
+			error,
+		});
+	});
+
+	it('should record the stream as a span with its counts', () => {
+		const { span, tracer } = createTracer();
+		const monitor = new StreamMonitor({}, tracer);
+
+		monitor.start({ 'ndjson.framing': 'newline' });
+		monitor.yielded();
+		monitor.end({ outcome: 'completed' });
+
+		expect(tracer.startSpan).toHaveBeenCalledWith('ndjson.parse', { attributes: { 'ndjson.framing': 'newline' } });
+		expect(span.setAttributes).toHaveBeenCalledWith(expect.objectContaining({
+			'ndjson.outcome': 'completed',
+			'ndjson.items_yielded': 1,
+		}));
+		expect(span.recordException).not.toHaveBeenCalled();
+		expect(span.setStatus).not.toHaveBeenCalled();
+		expect(span.end).toHaveBeenCalledTimes(1);
+	});
+
+	it('should record the error of a failed stream on its span', () => {
+		const { span, tracer } = createTracer();
+		const monitor = new StreamMonitor({}, tracer);
+		const error = new Error('Failed to parse NDJSON line 2');
+
+		monitor.start();
+		monitor.end({ outcome: 'failed', error });
+
+		expect(span.recordException).toHaveBeenCalledWith(error);
+		expect(span.setStatus).toHaveBeenCalledWith({ code: 2, message: error.message });
+		expect(span.end).toHaveBeenCalledTimes(1);
+	});
+});
+
+describe('getDefaultTracer', () => {
+	it('should fall back to a no-op tracer when OpenTelemetry is not installed', async () => {
+		let getDefaultTracer!: typeof import('./stream-monitor').getDefaultTracer;
+		jest.isolateModules(() => ({ getDefaultTracer } = require('./stream-monitor')));
+
+		const tracer = await getDefaultTracer();
+		const span = tracer.startSpan('ndjson.parse');
+
+		expect(() => {
+			span.setAttributes({ 'ndjson.errors': 1 });
+			span.recordException(new Error('boom'));
+			span.setStatus({ code: 2 });
+			span.end();
+		}).not.toThrow();
+	});
+
+	it('should use the global OpenTelemetry tracer when it is installed', async () => {
+		const { tracer } = createTracer();
+		const getTracer = jest.fn(() => tracer);
+		jest.doMock('@opentelemetry/api', () => ({ trace: { getTracer } }), { virtual: true });
+		let getDefaultTracer!: typeof import('./stream-monitor').getDefaultTracer;
+		jest.isolateModules(() => ({ getDefaultTracer } = require('./stream-monitor')));
+
+		await expect(getDefaultTracer()).resolves.toBe(tracer);
+		await expect(getDefaultTracer()).resolves.toBe(tracer);
+		expect(getTracer).toHaveBeenCalledTimes(1);
+		expect(getTracer).toHaveBeenCalledWith('nest-ndjson-req-stream');
+	});
+});
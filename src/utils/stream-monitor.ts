@@ -0,0 +1,164 @@
+import { NDJSON_STREAM_DEFAULT_PROGRESS_ITEMS } from '../ndjson-stream.constants';
+import {
+	NdJsonSpan,
+	NdJsonSpanAttributes,
+	NdJsonStreamHooks,
+	NdJsonStreamStats,
+	NdJsonStreamSummary,
+	NdJsonTracer,
+} from '../types/ndjson-stream';
+
+/**
+ * Keeps the stats of one stream and reports them to its hooks and tracer.
+ * The parser updates the byte, blank line and error counts itself; the
+ * monitor counts yielded items and times the stream.
+ */
+export class StreamMonitor {
+	readonly stats: NdJsonStreamStats;
+	private startedAt?: number;
+	private endedAt?: number;
+	private span?: NdJsonSpan;
+	private lastProgressItems = 0;
+	private lastProgressAt = 0;
+	private readonly progressItems?: number;
+
+	constructor(
+		private readonly hooks: NdJsonStreamHooks = {},
+		private readonly tracer?: NdJsonTracer,
+	) {
+		const { progressItems, progressIntervalMs } = hooks;
+		this.progressItems = progressItems ?? (progressIntervalMs === undefined ? NDJSON_STREAM_DEFAULT_PROGRESS_ITEMS : undefined);
+		const elapsed = (): number => this.startedAt === undefined ? 0 : (this.endedAt ?? Date.now()) - this.startedAt;
+		this.stats = {
+			bytesRead: 0,
+			itemsYielded: 0,
+			blankLines: 0,
+			errors: 0,
+			get elapsedMs() {
+				return elapsed();
+			},
+		};
+	}
+
+	/**
+	 * Starts timing the stream and opens its span.
+	 *
+	 * @param attributes - Recorded on the span, such as the stream's framing
+	 */
+	start(attributes: NdJsonSpanAttributes = {}): void {
+		this.startedAt = this.lastProgressAt = Date.now();
+		this.span = this.tracer?.startSpan(NDJSON_SPAN_NAME, { attributes });
+		this.hooks.onStart?.(this.stats);
+	}
+
+	/**
+	 * Counts an item about to be yielded, reporting progress when it is due.
+	 */
+	yielded(): void {
+		const { stats, hooks, progressItems } = this;
+		stats.itemsYielded++;
+		if (!hooks.onProgress) return;
+
+		const now = Date.now();
+		const dueByCount = progressItems !== undefined && stats.itemsYielded - this.lastProgressItems >= progressItems;
+		const dueByTime = hooks.progressIntervalMs !== undefined && now - this.lastProgressAt >= hooks.progressIntervalMs;
+		if (!dueByCount && !dueByTime) return;
+
+		this.lastProgressItems = stats.itemsYielded;
+		this.lastProgressAt = now;
+		hooks.onProgress(this.snapshot());
+	}
+
+	/**
+	 * Stops timing the stream, closes its span and reports the summary. Only
+	 * the first call has any effect.
+	 *
+	 * @param summary - How the stream ended
+	 */
+	end({ outcome, error }: Pick<NdJsonStreamSummary, 'outcome' | 'error'>): void {
+		if (this.endedAt !== undefined) return;
+		this.endedAt = Date.now();
+		const stats = this.snapshot();
+
+		if (this.span) {
+			this.span.setAttributes({
+				'ndjson.outcome': outcome,
+				'ndjson.bytes_read': stats.bytesRead,
+				'ndjson.items_yielded': stats.itemsYielded,
+				'ndjson.blank_lines': stats.blankLines,
+				'ndjson.errors': stats.errors,
+			});
+			if (error) {
+				this.span.recordException(error);
+				this.span.setStatus({ code: SPAN_STATUS_ERROR, message: error.message });
+			}
+			this.span.end();
+		}
+
+		this.hooks.onComplete?.(error ? { ...stats, outcome, error } : { ...stats, outcome });
+	}
+
+	/**
+	 * A copy of the stats as they are now.
+	 */
+	private snapshot(): NdJsonStreamStats {
+		const { bytesRead, itemsYielded, blankLines, errors, elapsedMs } = this.stats;
+		return { bytesRead, itemsYielded, blankLines, errors, elapsedMs };
+	}
+}
+
+/**
+ * Loads the global tracer of `@opentelemetry/api` once, for `tracing: true`.
+ * It is itself a no-op until an SDK is registered. If the package is not
+ * installed, a no-op tracer is used instead.
+ */
+export function getDefaultTracer(): Promise<NdJsonTracer> {
+	defaultTracer ??= import(OPENTELEMETRY_API).then(
+		(api: { trace: { getTracer(name: string): NdJsonTracer } }) => api.trace.getTracer(TRACER_NAME),
+		() => NOOP_TRACER,
+	);
+	return defaultTracer;
+}
+
+/**
+ * The tracer used for `tracing: true`, once it has started loading.
+ */
+let defaultTracer: Promise<NdJsonTracer> | undefined;
+
+/**
+ * The optional package providing the global tracer. Held in a variable so
+ * bundlers and the compiler leave the import to run time.
+ */
+const OPENTELEMETRY_API = '@opentelemetry/api';
+
+/**
+ * The instrumentation name the global tracer is requested under.
+ */
+const TRACER_NAME = 'nest-ndjson-req-stream';
+
+/**
+ * The name of the span recorded for each stream.
+ */
+const NDJSON_SPAN_NAME = 'ndjson.parse';
+
+/**
+ * OpenTelemetry's `SpanStatusCode.ERROR`.
+ */
+const SPAN_STATUS_ERROR = 2;
+
+/**
+ * A span that records nothing.
+ */
+const NOOP_SPAN: NdJsonSpan = {
+	setAttributes: () => NOOP_SPAN,
+	recordException: () => undefined,
+	setStatus: () => NOOP_SPAN,
+	end: () => undefined,
+};
+
+/**
+ * A tracer whose spans record nothing, used when OpenTelemetry is not installed.
+ */
+const NOOP_TRACER: NdJsonTracer = {
+	startSpan: () => NOOP_SPAN,
+};